@@ -1,3 +1,23 @@
-// run `node index.js` in the terminal
+#!/usr/bin/env node
+// Command-line entry point. The bundle is built by `npm run build:cli`, which
+// the prepare script runs on install and link.
+import { readsStdin, runCli } from './dist-cli/subnetcalc.js';
 
-console.log(`Hello Node.js v${process.versions.node}!`);
+async function readStdin() {
+  if (process.stdin.isTTY) return '';
+
+  let data = '';
+  process.stdin.setEncoding('utf8');
+  for await (const chunk of process.stdin) {
+    data += chunk;
+  }
+  return data;
+}
+
+const args = process.argv.slice(2);
+const input = readsStdin(args) ? await readStdin() : '';
+const { stdout, stderr, exitCode } = runCli(args, input);
+
+process.stdout.write(stdout);
+process.stderr.write(stderr);
+process.exitCode = exitCode;
@@ -1,49 +1,217 @@
-import { useState } from 'react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
 import SubnetCalculator from './components/SubnetCalculator';
 import IPv6SubnetCalculator from './components/IPv6SubnetCalculator';
+import VLSMPlanner from './components/VLSMPlanner';
+import RouteSummarizer from './components/RouteSummarizer';
+import ConflictChecker from './components/ConflictChecker';
+import RangeConverter from './components/RangeConverter';
+import BulkCalculator from './components/BulkCalculator';
+import AddressPlanEditor from './components/AddressPlanEditor';
+import TransitionTranslator from './components/TransitionTranslator';
+import WildcardTool from './components/WildcardTool';
+import NetworkCompare from './components/NetworkCompare';
+import HistoryPanel from './components/HistoryPanel';
+import { formatAddress } from './utils/cidr';
+import type { CIDRBlock } from './utils/cidr';
+import { convertCIDRToMask } from './utils/subnet';
+import { buildPermalinkSearch, parsePermalink } from './utils/permalink';
+import type { CalculatorState, Mode, PermalinkState, ToolMode, ToolState } from './utils/permalink';
+import { describeCalculation } from './utils/history';
+import type { SavedCalculation } from './utils/history';
+
+const modes: { id: Mode; label: string; title: string; activeClass: string }[] = [
+  { id: 'ipv4', label: 'IPv4', title: 'IPv4 Subnet Calculator', activeClass: 'bg-blue-500 text-white' },
+  { id: 'ipv6', label: 'IPv6', title: 'IPv6 Subnet Calculator', activeClass: 'bg-purple-500 text-white' },
+  { id: 'vlsm', label: 'VLSM', title: 'VLSM Planner', activeClass: 'bg-teal-500 text-white' },
+  { id: 'summarize', label: 'Summarize', title: 'Route Summarization', activeClass: 'bg-indigo-500 text-white' },
+  { id: 'conflicts', label: 'Conflicts', title: 'Overlap and Conflict Check', activeClass: 'bg-red-500 text-white' },
+  { id: 'range', label: 'Range', title: 'Range and CIDR Conversion', activeClass: 'bg-amber-500 text-white' },
+  { id: 'bulk', label: 'Bulk', title: 'Bulk Calculation', activeClass: 'bg-emerald-500 text-white' },
+  { id: 'plan', label: 'Plan', title: 'Address Plan', activeClass: 'bg-sky-500 text-white' },
+  { id: 'transition', label: 'Transition', title: 'IPv4/IPv6 Transition Addresses', activeClass: 'bg-cyan-500 text-white' },
+  { id: 'wildcard', label: 'Wildcard', title: 'ACL Wildcard Masks', activeClass: 'bg-rose-500 text-white' },
+  { id: 'compare', label: 'Compare', title: 'Network Comparison', activeClass: 'bg-orange-500 text-white' }
+];
+
+// Edits settle for this long before they become a history entry, so back and
+// forward step through calculations rather than keystrokes
+const HISTORY_DELAY_MS = 800;
 
 function App() {
-  const [mode, setMode] = useState<'ipv4' | 'ipv6'>('ipv4');
+  const [permalink, setPermalink] = useState<PermalinkState>(() => parsePermalink(window.location.search));
+  // Bumped whenever state is restored from outside the calculators so they
+  // remount with the restored inputs
+  const [restoreKey, setRestoreKey] = useState(0);
+  const mode = permalink.mode;
+  const currentMode = modes.find(m => m.id === mode) ?? modes[0];
+
+  useEffect(() => {
+    const handlePopState = () => {
+      setPermalink(parsePermalink(window.location.search));
+      setRestoreKey(key => key + 1);
+    };
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  useEffect(() => {
+    const search = buildPermalinkSearch(permalink);
+    if (search === window.location.search) return;
+
+    // Browsers refuse URLs past their length limit, which a large bulk list
+    // or plan can reach; the address bar then keeps the previous link
+    const updateURL = (update: () => void) => {
+      try {
+        update();
+      } catch {
+        // Nothing to do: the state itself is unaffected
+      }
+    };
+
+    const url = `${window.location.pathname}${search}`;
+    if (!window.location.search) {
+      updateURL(() => window.history.replaceState(null, '', url));
+      return;
+    }
+    const timer = setTimeout(() => updateURL(() => window.history.pushState(null, '', url)), HISTORY_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [permalink]);
+
+  const setMode = (next: Mode) => setPermalink(current => ({ ...current, mode: next }));
+
+  const handleIPv4Change = useCallback(
+    (ipv4: CalculatorState) => setPermalink(current => ({ ...current, ipv4 })),
+    []
+  );
+  const handleIPv6Change = useCallback(
+    (ipv6: CalculatorState) => setPermalink(current => ({ ...current, ipv6 })),
+    []
+  );
+  // One stable callback per tool, so the tools only report real changes
+  const toolChange = useMemo(() => {
+    const handler = <M extends ToolMode>(tool: M) => (state: ToolState<M>) =>
+      setPermalink(current => ({ ...current, tools: { ...current.tools, [tool]: state } }));
+    return {
+      vlsm: handler('vlsm'),
+      summarize: handler('summarize'),
+      conflicts: handler('conflicts'),
+      range: handler('range'),
+      bulk: handler('bulk'),
+      plan: handler('plan'),
+      transition: handler('transition'),
+      wildcard: handler('wildcard'),
+      compare: handler('compare')
+    };
+  }, []);
+
+  const openCalculation = (version: 4 | 6, address: string, mask: string) => {
+    const calculator: CalculatorState = { address, mask, views: [], splitPrefix: null };
+    setPermalink(current => version === 4
+      ? { ...current, mode: 'ipv4', ipv4: calculator }
+      : { ...current, mode: 'ipv6', ipv6: calculator });
+    setRestoreKey(key => key + 1);
+  };
+
+  const openInCalculator = (block: CIDRBlock) => {
+    const address = formatAddress(block.version, block.start);
+    openCalculation(
+      block.version,
+      address,
+      block.version === 4 ? convertCIDRToMask(block.prefixLength) : block.prefixLength.toString()
+    );
+  };
+
+  const openSaved = (calculation: SavedCalculation) => {
+    openCalculation(calculation.version, calculation.address, calculation.mask);
+  };
+
+  const { ipv4, ipv6, tools } = permalink;
+  const currentCalculation = useMemo(() => {
+    if (mode === 'ipv4') return describeCalculation(4, ipv4.address, ipv4.mask);
+    if (mode === 'ipv6') return describeCalculation(6, ipv6.address, ipv6.mask);
+    return null;
+  }, [mode, ipv4.address, ipv4.mask, ipv6.address, ipv6.mask]);
 
   return (
     <div className="min-h-screen bg-gray-100 p-2 sm:p-4 md:p-8">
       <div className="w-full max-w-6xl mx-auto text-center">
         <div className="mb-4">
-          <div className="inline-flex rounded-lg border border-gray-300 bg-white p-1 mb-4">
-            <button
-              onClick={() => setMode('ipv4')}
-              className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${
-                mode === 'ipv4'
-                  ? 'bg-blue-500 text-white'
-                  : 'text-gray-500 hover:text-gray-700'
-              }`}
-            >
-              IPv4
-            </button>
-            <button
-              onClick={() => setMode('ipv6')}
-              className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${
-                mode === 'ipv6'
-                  ? 'bg-purple-500 text-white'
-                  : 'text-gray-500 hover:text-gray-700'
-              }`}
-            >
-              IPv6
-            </button>
+          <div className="inline-flex flex-wrap justify-center rounded-lg border border-gray-300 bg-white p-1 mb-4">
+            {modes.map(m => (
+              <button
+                key={m.id}
+                onClick={() => setMode(m.id)}
+                className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${
+                  mode === m.id
+                    ? m.activeClass
+                    : 'text-gray-500 hover:text-gray-700'
+                }`}
+              >
+                {m.label}
+              </button>
+            ))}
           </div>
           <h1 className="text-xl sm:text-2xl md:text-3xl font-bold text-gray-800 mb-2">
-            {mode === 'ipv4' ? 'IPv4' : 'IPv6'} Subnet Calculator
+            {currentMode.title}
           </h1>
           <p className="text-sm sm:text-base md:text-lg text-gray-600">
             Calculate Network Information Including Addresses, Hosts, And Subnet Details
           </p>
         </div>
         <div className="flex items-start justify-center">
-          {mode === 'ipv4' ? <SubnetCalculator /> : <IPv6SubnetCalculator />}
+          {mode === 'ipv4' && (
+            <SubnetCalculator
+              key={restoreKey}
+              initialState={permalink.ipv4}
+              onStateChange={handleIPv4Change}
+            />
+          )}
+          {mode === 'ipv6' && (
+            <IPv6SubnetCalculator
+              key={restoreKey}
+              initialState={permalink.ipv6}
+              onStateChange={handleIPv6Change}
+            />
+          )}
+          {mode === 'vlsm' && (
+            <VLSMPlanner key={restoreKey} initialState={tools.vlsm} onStateChange={toolChange.vlsm} />
+          )}
+          {mode === 'summarize' && (
+            <RouteSummarizer key={restoreKey} initialState={tools.summarize} onStateChange={toolChange.summarize} />
+          )}
+          {mode === 'conflicts' && (
+            <ConflictChecker key={restoreKey} initialState={tools.conflicts} onStateChange={toolChange.conflicts} />
+          )}
+          {mode === 'range' && (
+            <RangeConverter
+              key={restoreKey}
+              onOpenBlock={openInCalculator}
+              initialState={tools.range}
+              onStateChange={toolChange.range}
+            />
+          )}
+          {mode === 'bulk' && (
+            <BulkCalculator key={restoreKey} initialState={tools.bulk} onStateChange={toolChange.bulk} />
+          )}
+          {mode === 'plan' && (
+            <AddressPlanEditor key={restoreKey} initialState={tools.plan} onStateChange={toolChange.plan} />
+          )}
+          {mode === 'transition' && (
+            <TransitionTranslator key={restoreKey} initialState={tools.transition} onStateChange={toolChange.transition} />
+          )}
+          {mode === 'wildcard' && (
+            <WildcardTool key={restoreKey} initialState={tools.wildcard} onStateChange={toolChange.wildcard} />
+          )}
+          {mode === 'compare' && (
+            <NetworkCompare key={restoreKey} initialState={tools.compare} onStateChange={toolChange.compare} />
+          )}
         </div>
+        {(mode === 'ipv4' || mode === 'ipv6') && (
+          <HistoryPanel current={currentCalculation} onOpen={openSaved} />
+        )}
       </div>
     </div>
   );
 }
 
-export default App;
\ No newline at end of file
+export default App;
@@ -0,0 +1,308 @@
+import { calculateSubnet, convertCIDRToMask } from '../utils/subnet';
+import type { SubnetResults } from '../utils/subnet';
+import { calculateIPv6Subnet } from '../utils/ipv6';
+import type { IPv6SubnetResults } from '../utils/ipv6';
+import { makeBlock, parseAddress } from '../utils/cidr';
+import type { CIDRBlock } from '../utils/cidr';
+import { getSplitCount, getSplitSubnets } from '../utils/split';
+import { getChildPrefixCount, getChildPrefixes } from '../utils/ipv6Prefixes';
+import {
+  CSV_FORMAT,
+  TEXT_FORMAT,
+  ipv6PrefixExportData,
+  ipv6SubnetExportData,
+  splitExportData,
+  subnetExportData
+} from '../utils/export';
+import type { ExportData } from '../utils/export';
+
+export const EXIT_OK = 0;
+export const EXIT_NOT_CONTAINED = 1;
+export const EXIT_USAGE = 2;
+export const EXIT_INVALID_INPUT = 3;
+
+export type OutputFormat = 'table' | 'json' | 'csv';
+
+export interface CliResult {
+  stdout: string;
+  stderr: string;
+  exitCode: number;
+}
+
+interface CliOptions {
+  format: OutputFormat;
+  split: number | null;
+  limit: number;
+  contains: boolean;
+  help: boolean;
+  positionals: string[];
+}
+
+type NetworkResult =
+  | { version: 4; results: SubnetResults }
+  | { version: 6; results: IPv6SubnetResults };
+
+const DEFAULT_LIMIT = 256;
+
+export const USAGE = `Usage: subnetcalc [options] <network>...
+       subnetcalc --contains <network> <address>
+
+Calculates IPv4 and IPv6 subnet details. The address family is detected
+from the input. With no <network> arguments, networks are read from stdin,
+one per line.
+
+Arguments:
+  <network>              An address with a prefix (192.168.1.10/24,
+                         2001:db8::/48), a dotted mask (10.0.0.1/255.0.0.0)
+                         or a bare address (treated as /32 or /128)
+
+Options:
+  --split <prefix>       List the child subnets of each network at <prefix>
+  --limit <n>            Maximum child subnets to list (default ${DEFAULT_LIMIT})
+  --contains             Check whether <address> falls inside <network>
+  --json                 Print JSON
+  --csv                  Print CSV
+  --table                Print an aligned table (default)
+  -h, --help             Show this help
+
+Exit codes:
+  0  success (or, with --contains, the address is inside the network)
+  1  with --contains, the address is outside the network
+  2  invalid command-line usage
+  3  invalid address, mask or prefix
+`;
+
+class CliError extends Error {
+  constructor(message: string, public exitCode: number) {
+    super(message);
+  }
+}
+
+function parseInteger(value: string | undefined, flag: string): number {
+  if (value === undefined || !/^\d+$/.test(value)) {
+    throw new CliError(`${flag} expects a non-negative integer`, EXIT_USAGE);
+  }
+  return parseInt(value, 10);
+}
+
+function parseArgs(args: string[]): CliOptions {
+  const options: CliOptions = {
+    format: 'table',
+    split: null,
+    limit: DEFAULT_LIMIT,
+    contains: false,
+    help: false,
+    positionals: []
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    switch (arg) {
+      case '--json': options.format = 'json'; break;
+      case '--csv': options.format = 'csv'; break;
+      case '--table': options.format = 'table'; break;
+      case '--contains': options.contains = true; break;
+      case '--split': options.split = parseInteger(args[++i], '--split'); break;
+      case '--limit': options.limit = parseInteger(args[++i], '--limit'); break;
+      case '-h':
+      case '--help': options.help = true; break;
+      default:
+        if (arg.startsWith('--split=')) {
+          options.split = parseInteger(arg.substring(8), '--split');
+        } else if (arg.startsWith('--limit=')) {
+          options.limit = parseInteger(arg.substring(8), '--limit');
+        } else if (arg.startsWith('-') && arg.length > 1) {
+          throw new CliError(`Unknown option: ${arg}`, EXIT_USAGE);
+        } else {
+          options.positionals.push(arg);
+        }
+    }
+  }
+
+  return options;
+}
+
+function calculateNetwork(input: string): NetworkResult {
+  const [address, maskPart, ...rest] = input.trim().split('/');
+  const parsed = parseAddress(address ?? '');
+  if (!parsed || rest.length > 0) {
+    throw new CliError(`Invalid network: ${input}`, EXIT_INVALID_INPUT);
+  }
+
+  if (parsed.version === 4) {
+    const mask = maskPart === undefined ? '/32' : maskPart.includes('.') ? maskPart : `/${maskPart}`;
+    const results = calculateSubnet(address, mask);
+    if (!results) throw new CliError(`Invalid IPv4 network: ${input}`, EXIT_INVALID_INPUT);
+    return { version: 4, results };
+  }
+
+  const prefix = maskPart === undefined ? 128 : /^\d+$/.test(maskPart) ? parseInt(maskPart, 10) : NaN;
+  const results = calculateIPv6Subnet(address, prefix);
+  if (!results) throw new CliError(`Invalid IPv6 network: ${input}`, EXIT_INVALID_INPUT);
+  return { version: 6, results };
+}
+
+function networkBlock(network: NetworkResult): CIDRBlock {
+  const prefixLength = network.version === 4 ? network.results.maskBits : network.results.prefixLength;
+  const start = parseAddress(network.results.networkAddress);
+  if (!start) throw new Error(`Unparsable network address ${network.results.networkAddress}`);
+  return makeBlock(network.version, start.value, prefixLength);
+}
+
+function toJSON(network: NetworkResult): Record<string, unknown> {
+  if (network.version === 4) {
+    const { results } = network;
+    return {
+      version: 4,
+      cidr: `${results.networkAddress}/${results.maskBits}`,
+      ...results,
+      subnetMask: convertCIDRToMask(results.maskBits)
+    };
+  }
+
+  const { results } = network;
+  return {
+    version: 6,
+    cidr: `${results.networkAddress}/${results.prefixLength}`,
+    ...results,
+    addressCount: results.addressCount.toString()
+  };
+}
+
+function toExportData(network: NetworkResult): ExportData {
+  return network.version === 4 ? subnetExportData(network.results) : ipv6SubnetExportData(network.results);
+}
+
+function render(data: ExportData, format: OutputFormat): string {
+  return format === 'csv' ? CSV_FORMAT.render(data) : TEXT_FORMAT.render(data);
+}
+
+function describeNetworks(inputs: string[], format: OutputFormat): string {
+  const networks = inputs.map(calculateNetwork);
+
+  if (format === 'json') {
+    const json = networks.map(toJSON);
+    return JSON.stringify(json.length === 1 ? json[0] : json, null, 2);
+  }
+
+  return networks.map(network => render(toExportData(network), format)).join('\n\n');
+}
+
+function splitNetwork(input: string, targetPrefix: number, limit: number, format: OutputFormat): { output: string; note: string } {
+  const network = calculateNetwork(input);
+
+  if (network.version === 4) {
+    const { networkAddress, maskBits } = network.results;
+    if (targetPrefix < maskBits || targetPrefix > 32) {
+      throw new CliError(`--split must be between ${maskBits} and 32 for ${input}`, EXIT_INVALID_INPUT);
+    }
+
+    const total = getSplitCount(maskBits, targetPrefix);
+    const subnets = getSplitSubnets(networkAddress, maskBits, targetPrefix, 0, limit);
+    const note = subnets.length < total ? `Showing ${subnets.length} of ${total} subnets` : '';
+
+    if (format === 'json') {
+      return {
+        output: JSON.stringify({ network: `${networkAddress}/${maskBits}`, prefix: targetPrefix, total, subnets }, null, 2),
+        note
+      };
+    }
+    return { output: render(splitExportData(subnets, targetPrefix), format), note };
+  }
+
+  const { networkAddress, prefixLength } = network.results;
+  if (targetPrefix < prefixLength || targetPrefix > 128) {
+    throw new CliError(`--split must be between ${prefixLength} and 128 for ${input}`, EXIT_INVALID_INPUT);
+  }
+
+  const total = getChildPrefixCount(prefixLength, targetPrefix);
+  const prefixes = getChildPrefixes(networkAddress, prefixLength, targetPrefix, 0n, limit);
+  const note = BigInt(prefixes.length) < total ? `Showing ${prefixes.length} of ${total} prefixes` : '';
+
+  if (format === 'json') {
+    return {
+      output: JSON.stringify({
+        network: `${networkAddress}/${prefixLength}`,
+        prefix: targetPrefix,
+        total: total.toString(),
+        prefixes: prefixes.map(prefix => ({ ...prefix, index: prefix.index.toString() }))
+      }, null, 2),
+      note
+    };
+  }
+  return { output: render(ipv6PrefixExportData(prefixes), format), note };
+}
+
+function checkContains(networkInput: string, addressInput: string, format: OutputFormat): { output: string; contained: boolean } {
+  // Same parsing as the calculator, so dotted masks work here too
+  const block = networkBlock(calculateNetwork(networkInput));
+  const address = parseAddress(addressInput);
+  if (!address) throw new CliError(`Invalid address: ${addressInput}`, EXIT_INVALID_INPUT);
+
+  const contained = block.version === address.version
+    && makeBlock(address.version, address.value, block.prefixLength).start === block.start;
+
+  if (format === 'json') {
+    return { output: JSON.stringify({ network: networkInput, address: addressInput, contains: contained }, null, 2), contained };
+  }
+  if (format === 'csv') {
+    const data: ExportData = { kind: 'table', columns: ['Network', 'Address', 'Contains'], rows: [[networkInput, addressInput, String(contained)]] };
+    return { output: CSV_FORMAT.render(data), contained };
+  }
+  return { output: `${addressInput} is ${contained ? '' : 'not '}in ${networkInput}`, contained };
+}
+
+// Networks come from stdin only when none are given on the command line
+export function readsStdin(args: string[]): boolean {
+  try {
+    const options = parseArgs(args);
+    return !options.help && options.positionals.length === 0;
+  } catch {
+    return false;
+  }
+}
+
+// Platform-free entry point: the caller supplies argv (without the node and
+// script paths) and any piped stdin, and writes the result itself
+export function runCli(args: string[], input = ''): CliResult {
+  try {
+    const options = parseArgs(args);
+    if (options.help) {
+      return { stdout: USAGE, stderr: '', exitCode: EXIT_OK };
+    }
+
+    const inputs = options.positionals.length > 0
+      ? options.positionals
+      : input.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+
+    if (options.contains) {
+      if (inputs.length !== 2) {
+        throw new CliError('--contains expects exactly <network> <address>', EXIT_USAGE);
+      }
+      const { output, contained } = checkContains(inputs[0], inputs[1], options.format);
+      return { stdout: `${output}\n`, stderr: '', exitCode: contained ? EXIT_OK : EXIT_NOT_CONTAINED };
+    }
+
+    if (inputs.length === 0) {
+      throw new CliError('No network given', EXIT_USAGE);
+    }
+
+    if (options.split !== null) {
+      const splitTarget = options.split;
+      const parts = inputs.map(network => splitNetwork(network, splitTarget, options.limit, options.format));
+      return {
+        stdout: `${parts.map(part => part.output).join('\n\n')}\n`,
+        stderr: parts.filter(part => part.note).map(part => `${part.note}\n`).join(''),
+        exitCode: EXIT_OK
+      };
+    }
+
+    return { stdout: `${describeNetworks(inputs, options.format)}\n`, stderr: '', exitCode: EXIT_OK };
+  } catch (error) {
+    if (error instanceof CliError) {
+      const hint = error.exitCode === EXIT_USAGE ? '\nRun subnetcalc --help for usage.' : '';
+      return { stdout: '', stderr: `subnetcalc: ${error.message}${hint}\n`, exitCode: error.exitCode };
+    }
+    throw error;
+  }
+}
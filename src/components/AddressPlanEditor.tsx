@@ -0,0 +1,559 @@
+import { useEffect, useMemo, useState } from 'react';
+import {
+  ArrowDownTrayIcon,
+  ArrowUpTrayIcon,
+  ChevronDownIcon,
+  ChevronRightIcon,
+  ExclamationTriangleIcon,
+  PlusIcon,
+  TrashIcon
+} from '@heroicons/react/24/outline';
+import {
+  EMPTY_DETAILS,
+  addAllocation,
+  allocationBlock,
+  createPlan,
+  exportPlanJSON,
+  flattenPlan,
+  getChildren,
+  getUsage,
+  importPlanCSV,
+  importPlanJSON,
+  loadPlan,
+  percentOf,
+  removeAllocation,
+  savePlan,
+  suggestNextFree,
+  updateAllocationDetails
+} from '../utils/addressPlan';
+import type { AddressPlan, PlanAllocation, PlanDetails } from '../utils/addressPlan';
+import { addressBits, blockEnd, formatAddress, formatCIDR } from '../utils/cidr';
+import { groupDigits } from '../utils/ipv6';
+import { downloadFile, planExportData } from '../utils/export';
+import type { ToolState } from '../utils/permalink';
+import ExportMenu from './ExportMenu';
+
+const MAX_FREE_BLOCKS = 32;
+
+const detailFields: { key: keyof PlanDetails; label: string; placeholder: string }[] = [
+  { key: 'name', label: 'Name', placeholder: 'e.g., Office users' },
+  { key: 'vlan', label: 'VLAN', placeholder: 'e.g., 120' },
+  { key: 'site', label: 'Site', placeholder: 'e.g., HQ' },
+  { key: 'owner', label: 'Owner', placeholder: 'e.g., Network team' },
+  { key: 'notes', label: 'Notes', placeholder: 'Anything worth knowing' }
+];
+
+const inputClasses = 'w-full rounded-md border border-gray-300 px-2 py-1 text-sm focus:border-sky-500 focus:ring-1 focus:ring-sky-500';
+const buttonClasses = 'flex items-center gap-1 px-3 py-1 rounded-md text-sm font-medium';
+
+interface DetailsFormProps {
+  details: PlanDetails;
+  onChange: (details: PlanDetails) => void;
+}
+
+function DetailsForm({ details, onChange }: DetailsFormProps) {
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+      {detailFields.map(field => (
+        <label key={field.key} className={`space-y-1 ${field.key === 'notes' ? 'sm:col-span-2' : ''}`}>
+          <span className="block text-xs font-medium text-gray-500">{field.label}</span>
+          <input
+            type="text"
+            placeholder={field.placeholder}
+            value={details[field.key]}
+            onChange={(e) => onChange({ ...details, [field.key]: e.target.value })}
+            className={inputClasses}
+          />
+        </label>
+      ))}
+    </div>
+  );
+}
+
+interface UsageBarProps {
+  plan: AddressPlan;
+  allocation: PlanAllocation;
+}
+
+// Children are drawn at their position inside the parent, so fragmentation
+// of the free space is visible as well as its total
+function UsageBar({ plan, allocation }: UsageBarProps) {
+  const block = allocationBlock(allocation);
+  const total = blockEnd(block) - block.start + 1n;
+
+  return (
+    <div className="relative h-4 bg-gray-200 rounded-full overflow-hidden">
+      {getChildren(plan, allocation.id).map(child => {
+        const childBlock = allocationBlock(child);
+        return (
+          <div
+            key={child.id}
+            className="absolute inset-y-0 bg-sky-500 border-r border-white"
+            style={{
+              left: `${percentOf(childBlock.start - block.start, total)}%`,
+              width: `max(2px, ${percentOf(blockEnd(childBlock) - childBlock.start + 1n, total)}%)`
+            }}
+            title={child.name ? `${child.cidr} ${child.name}` : child.cidr}
+          />
+        );
+      })}
+    </div>
+  );
+}
+
+interface AllocationPanelProps {
+  plan: AddressPlan;
+  allocation: PlanAllocation;
+  onPlanChange: (plan: AddressPlan) => void;
+  onRemove: () => void;
+}
+
+// Keyed by allocation, so the forms start fresh whenever another allocation
+// is selected
+function AllocationPanel({ plan, allocation, onPlanChange, onRemove }: AllocationPanelProps) {
+  const [details, setDetails] = useState<PlanDetails>(() => ({
+    name: allocation.name,
+    vlan: allocation.vlan,
+    site: allocation.site,
+    owner: allocation.owner,
+    notes: allocation.notes
+  }));
+  const [childPrefix, setChildPrefix] = useState('');
+  const [childCidr, setChildCidr] = useState('');
+  const [childDetails, setChildDetails] = useState<PlanDetails>(EMPTY_DETAILS);
+  const [error, setError] = useState<string | null>(null);
+
+  const block = allocationBlock(allocation);
+  const usage = useMemo(() => getUsage(plan, allocation), [plan, allocation]);
+
+  const applyResult = (result: { plan: AddressPlan | null; error: string | null }, onSuccess?: () => void) => {
+    setError(result.error);
+    if (result.plan) {
+      onPlanChange(result.plan);
+      onSuccess?.();
+    }
+  };
+
+  const handleSuggest = () => {
+    const prefixText = childPrefix.trim().replace(/^\//, '');
+    const prefix = parseInt(prefixText, 10);
+    const suggestion = /^\d+$/.test(prefixText) ? suggestNextFree(plan, allocation.id, prefix) : null;
+    if (suggestion) {
+      setChildCidr(suggestion);
+      setError(null);
+    } else {
+      setError(`No free /${prefixText} block is left in ${allocation.cidr}`);
+    }
+  };
+
+  const handleAllocate = () => {
+    applyResult(addAllocation(plan, allocation.id, childCidr, childDetails, Date.now()), () => {
+      setChildCidr('');
+      setChildDetails(EMPTY_DETAILS);
+    });
+  };
+
+  const handleSaveDetails = () => {
+    applyResult(updateAllocationDetails(plan, allocation.id, details, Date.now()));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-800 font-mono">{allocation.cidr}</h2>
+          <p className="text-xs text-gray-500 font-mono break-all">
+            {formatAddress(block.version, block.start)} - {formatAddress(block.version, blockEnd(block))}
+          </p>
+        </div>
+        <button onClick={onRemove} className={`${buttonClasses} text-red-600 hover:bg-red-50`}>
+          <TrashIcon className="h-4 w-4" />
+          Release
+        </button>
+      </div>
+
+      <div className="space-y-1">
+        <UsageBar plan={plan} allocation={allocation} />
+        <p className="text-xs text-gray-500">
+          {groupDigits(usage.used)} of {groupDigits(usage.total)} addresses allocated
+          ({percentOf(usage.used, usage.total).toFixed(2)}%), {groupDigits(usage.free)} free
+        </p>
+      </div>
+
+      {error && (
+        <div className="text-red-600 text-sm font-medium p-3 bg-red-50 rounded-md border border-red-200">
+          {error}
+        </div>
+      )}
+
+      <div className="bg-gray-50 p-3 rounded-md space-y-2">
+        <DetailsForm details={details} onChange={setDetails} />
+        <div className="flex justify-end">
+          <button onClick={handleSaveDetails} className={`${buttonClasses} bg-sky-500 text-white hover:bg-sky-600`}>
+            Save Details
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-gray-50 p-3 rounded-md space-y-2">
+        <p className="text-sm font-medium text-gray-700">Allocate a child block</p>
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            type="text"
+            placeholder={`Size, e.g., /${Math.min(block.prefixLength + 4, addressBits(block.version))}`}
+            value={childPrefix}
+            onChange={(e) => setChildPrefix(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleSuggest()}
+            className={`${inputClasses} w-32`}
+          />
+          <button onClick={handleSuggest} className={`${buttonClasses} bg-gray-200 text-gray-700 hover:bg-gray-300`}>
+            Suggest Next Free
+          </button>
+          <input
+            type="text"
+            placeholder="Block, e.g., 10.1.0.0/24"
+            value={childCidr}
+            onChange={(e) => setChildCidr(e.target.value)}
+            className={`${inputClasses} flex-1 min-w-[160px] font-mono`}
+          />
+        </div>
+        <DetailsForm details={childDetails} onChange={setChildDetails} />
+        <div className="flex justify-end">
+          <button
+            onClick={handleAllocate}
+            disabled={!childCidr.trim()}
+            className={`${buttonClasses} bg-sky-500 text-white hover:bg-sky-600 disabled:bg-gray-200 disabled:text-gray-400 disabled:cursor-not-allowed`}
+          >
+            <PlusIcon className="h-4 w-4" />
+            Allocate
+          </button>
+        </div>
+      </div>
+
+      {usage.freeBlocks.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-sm font-medium text-gray-700">
+            Free space ({usage.freeBlocks.length.toLocaleString()} blocks)
+          </p>
+          <div className="flex flex-wrap gap-1">
+            {usage.freeBlocks.slice(0, MAX_FREE_BLOCKS).map(free => (
+              <button
+                key={formatCIDR(free)}
+                onClick={() => setChildCidr(formatCIDR(free))}
+                className="px-2 py-0.5 rounded-md bg-gray-100 text-gray-700 hover:bg-sky-100 text-xs font-mono"
+                title="Use this block"
+              >
+                {formatCIDR(free)}
+              </button>
+            ))}
+            {usage.freeBlocks.length > MAX_FREE_BLOCKS && (
+              <span className="text-xs text-gray-500 self-center">
+                +{(usage.freeBlocks.length - MAX_FREE_BLOCKS).toLocaleString()} more
+              </span>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// The plan to open: the one saved in this browser, unless the page link
+// carries a different one. A linked plan is only saved once the user keeps
+// it, so following a link never overwrites a saved plan unasked.
+function openPlan(linkText: string | undefined): { plan: AddressPlan | null; fromLink: boolean } {
+  const saved = loadPlan();
+  const linked = linkText ? importPlanJSON(linkText, Date.now()).plan : null;
+  if (!linked || (saved && exportPlanJSON(saved) === exportPlanJSON(linked))) return { plan: saved, fromLink: false };
+  return { plan: linked, fromLink: saved !== null };
+}
+
+interface AddressPlanEditorProps {
+  initialState?: ToolState<'plan'>;
+  onStateChange?: (state: ToolState<'plan'>) => void;
+}
+
+export default function AddressPlanEditor({ initialState = {}, onStateChange }: AddressPlanEditorProps) {
+  const [opened] = useState(() => openPlan(initialState.plan));
+  const [plan, setPlan] = useState<AddressPlan | null>(opened.plan);
+  const [fromLink, setFromLink] = useState(opened.fromLink);
+  const [selectedId, setSelectedId] = useState<string | null>(
+    () => opened.plan?.allocations.find(allocation => allocation.cidr === initialState.select)?.id ?? null
+  );
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [error, setError] = useState<string | null>(null);
+
+  const [newPlanName, setNewPlanName] = useState('');
+  const [newRoot, setNewRoot] = useState('');
+
+  useEffect(() => {
+    if (!fromLink) savePlan(plan);
+  }, [plan, fromLink]);
+
+  const planText = useMemo(() => (plan ? exportPlanJSON(plan, 0) : undefined), [plan]);
+  const selectedCidr = plan?.allocations.find(allocation => allocation.id === selectedId)?.cidr;
+  useEffect(() => {
+    onStateChange?.({ plan: planText, select: selectedCidr });
+  }, [planText, selectedCidr, onStateChange]);
+
+  const flat = useMemo(() => (plan ? flattenPlan(plan) : []), [plan]);
+  const selected = plan?.allocations.find(allocation => allocation.id === selectedId) ?? flat[0]?.allocation ?? null;
+
+  // A row is hidden when any of its ancestors is collapsed
+  const visible = useMemo(() => {
+    const hiddenParents = new Set<string>();
+    return flat.filter(({ allocation }) => {
+      const hidden = allocation.parentId !== null && hiddenParents.has(allocation.parentId);
+      if (hidden || collapsed.has(allocation.id)) hiddenParents.add(allocation.id);
+      return !hidden;
+    });
+  }, [flat, collapsed]);
+
+  const applyResult = (result: { plan: AddressPlan | null; error: string | null }, onSuccess?: () => void) => {
+    setError(result.error);
+    if (result.plan) {
+      setPlan(result.plan);
+      onSuccess?.();
+    }
+  };
+
+  const handleCreatePlan = () => {
+    applyResult(createPlan(newPlanName, newRoot, Date.now()), () => {
+      setNewPlanName('');
+      setNewRoot('');
+    });
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const text = await file.text();
+    const result = text.trimStart().startsWith('{') ? importPlanJSON(text, Date.now()) : importPlanCSV(text, Date.now());
+    applyResult(result, () => {
+      setFromLink(false);
+      setSelectedId(null);
+    });
+  };
+
+  const handleOpenSaved = () => {
+    setPlan(loadPlan());
+    setFromLink(false);
+    setSelectedId(null);
+  };
+
+  // Discarding a plan opened from a link goes back to the saved one
+  const discardPlan = () => {
+    if (fromLink) {
+      handleOpenSaved();
+    } else {
+      setPlan(null);
+    }
+  };
+
+  const handleSaveJSON = () => {
+    if (!plan) return;
+    const filename = `${plan.name.replace(/[^\w-]+/g, '-').toLowerCase() || 'address-plan'}.json`;
+    downloadFile(exportPlanJSON(plan), filename, 'application/json;charset=utf-8;');
+  };
+
+  const handleAddRoot = () => {
+    if (!plan) return;
+    applyResult(addAllocation(plan, null, newRoot, EMPTY_DETAILS, Date.now()), () => setNewRoot(''));
+  };
+
+  const handleRemove = (allocation: PlanAllocation) => {
+    if (!plan) return;
+    const next = removeAllocation(plan, allocation.id, Date.now());
+    if (next.allocations.length > 0) {
+      setPlan(next);
+      setSelectedId(allocation.parentId);
+    } else {
+      discardPlan();
+    }
+  };
+
+  const toggleCollapsed = (id: string) => {
+    const next = new Set(collapsed);
+    if (next.has(id)) {
+      next.delete(id);
+    } else {
+      next.add(id);
+    }
+    setCollapsed(next);
+  };
+
+  const importButton = (
+    <label className={`${buttonClasses} text-gray-600 bg-white border border-gray-300 hover:bg-gray-100 cursor-pointer`}>
+      <ArrowUpTrayIcon className="h-4 w-4" />
+      Import
+      <input type="file" accept=".json,.csv,application/json,text/csv" className="hidden" onChange={handleImport} />
+    </label>
+  );
+
+  const errorBox = error && (
+    <div className="text-red-600 text-sm font-medium p-3 bg-red-50 rounded-md border border-red-200">
+      {error}
+    </div>
+  );
+
+  if (!plan) {
+    return (
+      <div className="bg-white rounded-lg shadow-lg p-4 sm:p-6 md:p-8 w-full max-w-[95vw] mx-auto">
+        <div className="space-y-4 text-left">
+          <p className="text-sm text-gray-600">
+            Start a plan from the block you are allowed to allocate from, or import a plan saved as JSON or CSV.
+          </p>
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              type="text"
+              placeholder="Plan name"
+              value={newPlanName}
+              onChange={(e) => setNewPlanName(e.target.value)}
+              className={`${inputClasses} w-48`}
+            />
+            <input
+              type="text"
+              placeholder="Root block, e.g., 10.0.0.0/8"
+              value={newRoot}
+              onChange={(e) => setNewRoot(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleCreatePlan()}
+              className={`${inputClasses} w-56 font-mono`}
+            />
+            <button onClick={handleCreatePlan} className={`${buttonClasses} bg-sky-500 text-white hover:bg-sky-600`}>
+              <PlusIcon className="h-4 w-4" />
+              Create Plan
+            </button>
+            {importButton}
+          </div>
+          {errorBox}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-4 sm:p-6 md:p-8 w-full max-w-[95vw] mx-auto">
+      <div className="space-y-6 text-left">
+        {/* Plan toolbar */}
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            type="text"
+            value={plan.name}
+            onChange={(e) => setPlan({ ...plan, name: e.target.value, updatedAt: Date.now() })}
+            className="flex-1 min-w-[160px] rounded-md border border-transparent hover:border-gray-300 focus:border-sky-500 px-2 py-1 text-lg font-semibold text-gray-800"
+          />
+          {importButton}
+          <button
+            onClick={handleSaveJSON}
+            className={`${buttonClasses} text-gray-600 bg-white border border-gray-300 hover:bg-gray-100`}
+          >
+            <ArrowDownTrayIcon className="h-4 w-4" />
+            Save JSON
+          </button>
+          <ExportMenu
+            label="Export Table"
+            filename={plan.name.replace(/[^\w-]+/g, '-').toLowerCase() || 'address-plan'}
+            getData={() => planExportData(plan)}
+            size="sm"
+          />
+          <button
+            onClick={discardPlan}
+            className={`${buttonClasses} text-red-600 hover:bg-red-50`}
+            title="Discard this plan"
+          >
+            <TrashIcon className="h-4 w-4" />
+          </button>
+        </div>
+
+        {fromLink && (
+          <div className="flex flex-wrap items-center gap-2 text-amber-800 text-sm p-3 bg-amber-50 rounded-md border border-amber-200">
+            <ExclamationTriangleIcon className="h-5 w-5 flex-shrink-0" />
+            <p className="flex-1 font-medium">
+              This link holds a different plan from the one saved in this browser. Changes to it are not saved until you keep it.
+            </p>
+            <button onClick={() => setFromLink(false)} className={`${buttonClasses} bg-sky-500 text-white hover:bg-sky-600`}>
+              Keep This Plan
+            </button>
+            <button
+              onClick={handleOpenSaved}
+              className={`${buttonClasses} text-gray-600 bg-white border border-gray-300 hover:bg-gray-100`}
+            >
+              Open Saved Plan
+            </button>
+          </div>
+        )}
+
+        {errorBox}
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 sm:gap-6">
+          {/* Allocation tree */}
+          <div className="space-y-2">
+            <div className="max-h-[36rem] overflow-y-auto rounded-md border border-gray-200 divide-y divide-gray-100">
+              {visible.map(({ allocation, depth }) => {
+                const hasChildren = plan.allocations.some(other => other.parentId === allocation.id);
+                const allocationUsage = getUsage(plan, allocation);
+                return (
+                  <div
+                    key={allocation.id}
+                    onClick={() => setSelectedId(allocation.id)}
+                    className={`flex items-center gap-2 px-2 py-1 cursor-pointer text-sm ${
+                      selected?.id === allocation.id ? 'bg-sky-50' : 'hover:bg-gray-50'
+                    }`}
+                    style={{ paddingLeft: `${0.5 + depth * 1.25}rem` }}
+                  >
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        toggleCollapsed(allocation.id);
+                      }}
+                      className={`p-0.5 rounded hover:bg-gray-200 ${hasChildren ? '' : 'invisible'}`}
+                    >
+                      {collapsed.has(allocation.id)
+                        ? <ChevronRightIcon className="h-3 w-3" />
+                        : <ChevronDownIcon className="h-3 w-3" />}
+                    </button>
+                    <span className="font-mono text-gray-800">{allocation.cidr}</span>
+                    <span className="flex-1 truncate text-gray-500">
+                      {allocation.name}
+                      {allocation.vlan && ` · VLAN ${allocation.vlan}`}
+                    </span>
+                    <span className="text-xs text-gray-500 w-14 text-right">
+                      {percentOf(allocationUsage.used, allocationUsage.total).toFixed(1)}%
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+            <div className="flex items-center gap-2">
+              <input
+                type="text"
+                placeholder="Another root block, e.g., 2001:db8::/32"
+                value={newRoot}
+                onChange={(e) => setNewRoot(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleAddRoot()}
+                className={`${inputClasses} font-mono`}
+              />
+              <button onClick={handleAddRoot} className={`${buttonClasses} bg-gray-200 text-gray-700 hover:bg-gray-300 whitespace-nowrap`}>
+                <PlusIcon className="h-4 w-4" />
+                Add Root
+              </button>
+            </div>
+          </div>
+
+          {/* Selected allocation */}
+          {selected && (
+            <AllocationPanel
+              key={selected.id}
+              plan={plan}
+              allocation={selected}
+              onPlanChange={setPlan}
+              onRemove={() => handleRemove(selected)}
+            />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
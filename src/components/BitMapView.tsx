@@ -0,0 +1,105 @@
+import { Tooltip } from 'react-tooltip';
+import { bitRole, describeBit } from '../utils/bitMap';
+import type { BitMap, BitRole } from '../utils/bitMap';
+
+interface BitMapViewProps {
+  map: BitMap;
+  color?: 'blue' | 'purple';
+}
+
+// IPv6 is drawn as two 64-bit halves so a line stays readable; IPv4 fits in one
+const BITS_PER_LINE = 64;
+
+export default function BitMapView({ map, color = 'blue' }: BitMapViewProps) {
+  const roleClasses: Record<BitRole, string> = {
+    network: color === 'blue' ? 'bg-blue-100 text-blue-800' : 'bg-purple-100 text-purple-800',
+    borrowed: 'bg-amber-200 text-amber-900',
+    host: 'bg-gray-100 text-gray-500'
+  };
+
+  const totalBits = map.version === 4 ? 32 : 128;
+  const lineStarts = Array.from({ length: Math.ceil(totalBits / BITS_PER_LINE) }, (_, i) => i * BITS_PER_LINE);
+  const groupBits = map.version === 4 ? 8 : 16;
+
+  // Octet (IPv4) or hextet (IPv6) boundaries get a wide gap, nibbles a narrow one
+  const gapClass = (index: number) => {
+    if (index % BITS_PER_LINE === 0) return '';
+    if (index % groupBits === 0) return 'ml-2';
+    if (map.version === 6 && index % 4 === 0) return 'ml-0.5';
+    return '';
+  };
+
+  const boundaryClass = (index: number) => index === map.prefixLength ? 'border-l-2 border-red-500' : '';
+
+  return (
+    <div className="mt-4 space-y-4 text-left">
+      <div className="flex flex-wrap items-center gap-3 text-xs text-gray-600">
+        <span className="flex items-center gap-1">
+          <span className={`inline-block h-3 w-3 rounded-sm ${roleClasses.network}`} /> Network
+        </span>
+        {map.classfulPrefix !== null && (
+          <span className="flex items-center gap-1">
+            <span className={`inline-block h-3 w-3 rounded-sm ${roleClasses.borrowed}`} />
+            Borrowed subnet bits (beyond the classful /{map.classfulPrefix})
+          </span>
+        )}
+        <span className="flex items-center gap-1">
+          <span className={`inline-block h-3 w-3 rounded-sm ${roleClasses.host}`} /> {map.version === 4 ? 'Host' : 'Interface ID'}
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="inline-block h-3 w-0.5 bg-red-500" /> Prefix boundary /{map.prefixLength}
+        </span>
+      </div>
+
+      {lineStarts.map(lineStart => (
+        <div key={lineStart} className="overflow-x-auto">
+          <table className="text-xs font-mono border-separate border-spacing-y-1">
+            <tbody>
+              {map.rows.map(row => (
+                <tr key={row.label}>
+                  <td className="pr-3 text-gray-500 font-sans whitespace-nowrap align-bottom">{row.label}</td>
+                  <td>
+                    {map.version === 6 && (
+                      <div className="flex">
+                        {Array.from({ length: BITS_PER_LINE / 4 }, (_, i) => {
+                          const index = lineStart + i * 4;
+                          return (
+                            <span
+                              key={index}
+                              className={`w-12 text-center font-semibold text-gray-700 ${gapClass(index)} ${boundaryClass(index)}`}
+                            >
+                              {row.bits.slice(index, index + 4).reduce((value, bit) => value * 2 + bit, 0).toString(16)}
+                            </span>
+                          );
+                        })}
+                      </div>
+                    )}
+                    <div className="flex">
+                      {row.bits.slice(lineStart, lineStart + BITS_PER_LINE).map((bit, offset) => {
+                        const index = lineStart + offset;
+                        return (
+                          <span
+                            key={index}
+                            className={`w-3 text-center cursor-help ${roleClasses[bitRole(map, index)]} ${gapClass(index)} ${boundaryClass(index)}`}
+                            data-tooltip-id="bit-map-tooltip"
+                            data-tooltip-content={describeBit(map.version, index)}
+                          >
+                            {bit}
+                          </span>
+                        );
+                      })}
+                    </div>
+                  </td>
+                  {lineStart === 0 && (
+                    <td className="pl-3 text-gray-700 whitespace-nowrap align-bottom">{row.text}</td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ))}
+      <Tooltip id="bit-map-tooltip" place="top" />
+    </div>
+  );
+}
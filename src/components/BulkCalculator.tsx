@@ -0,0 +1,382 @@
+import { useEffect, useMemo, useState } from 'react';
+import {
+  ArrowUpTrayIcon,
+  ChevronDownIcon,
+  ChevronLeftIcon,
+  ChevronRightIcon,
+  ChevronUpIcon,
+  InformationCircleIcon
+} from '@heroicons/react/24/outline';
+import { Tooltip } from 'react-tooltip';
+import { calculateBulkInChunks, filterBulkRows, sortBulkRows } from '../utils/bulk';
+import type { BulkFilter, BulkResult, BulkSortKey, SortDirection } from '../utils/bulk';
+import { ADDRESS_POLICIES, CLASSIC_POLICY, getAddressPolicy } from '../utils/addressPolicy';
+import { groupDigits } from '../utils/ipv6';
+import { bulkExportData, bulkGroupExportData } from '../utils/export';
+import ExportMenu from './ExportMenu';
+import type { ToolState } from '../utils/permalink';
+
+const PAGE_SIZE = 100;
+// Typing into a large list only recalculates once the input settles
+const CALCULATE_DELAY_MS = 300;
+const MAX_GROUP_ADDRESSES = 8;
+
+const EMPTY_RESULT: BulkResult = { rows: [], groups: [], errorCount: 0 };
+
+const columns: { key: BulkSortKey; label: string }[] = [
+  { key: 'line', label: 'Line' },
+  { key: 'address', label: 'Address' },
+  { key: 'network', label: 'Network' },
+  { key: 'prefix', label: 'Mask' },
+  { key: 'usable', label: 'Usable' },
+  { key: 'type', label: 'Type' },
+  { key: 'group', label: 'Shared' },
+  { key: 'label', label: 'Label' }
+];
+
+const STATUSES: BulkFilter['status'][] = ['all', 'valid', 'errors'];
+const FAMILIES: BulkFilter['version'][] = ['all', '4', '6'];
+
+interface BulkCalculatorProps {
+  initialState?: ToolState<'bulk'>;
+  onStateChange?: (state: ToolState<'bulk'>) => void;
+}
+
+export default function BulkCalculator({ initialState = {}, onStateChange }: BulkCalculatorProps) {
+  const [inputText, setInputText] = useState(initialState.input ?? '');
+  const [policyId, setPolicyId] = useState(() => getAddressPolicy(initialState.policy ?? '')?.id ?? CLASSIC_POLICY.id);
+  const [result, setResult] = useState<BulkResult>(EMPTY_RESULT);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [filter, setFilter] = useState<BulkFilter>(() => ({
+    query: initialState.filter ?? '',
+    status: STATUSES.find(status => status === initialState.status) ?? 'all',
+    version: FAMILIES.find(family => family === initialState.family) ?? 'all'
+  }));
+  const [sortKey, setSortKey] = useState<BulkSortKey>(
+    () => columns.find(column => column.key === initialState.sort)?.key ?? 'line'
+  );
+  const [sortDirection, setSortDirection] = useState<SortDirection>(initialState.order === 'desc' ? 'desc' : 'asc');
+  const [view, setView] = useState<'rows' | 'networks'>(initialState.view === 'networks' ? 'networks' : 'rows');
+  const [page, setPage] = useState(0);
+
+  useEffect(() => {
+    onStateChange?.({
+      input: inputText,
+      policy: policyId === CLASSIC_POLICY.id ? undefined : policyId,
+      view: view === 'rows' ? undefined : view,
+      filter: filter.query,
+      status: filter.status === 'all' ? undefined : filter.status,
+      family: filter.version === 'all' ? undefined : filter.version,
+      sort: sortKey === 'line' ? undefined : sortKey,
+      order: sortDirection === 'asc' ? undefined : sortDirection
+    });
+  }, [inputText, policyId, view, filter, sortKey, sortDirection, onStateChange]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const policy = getAddressPolicy(policyId) ?? CLASSIC_POLICY;
+    const timer = setTimeout(async () => {
+      setProgress(0);
+      const calculated = await calculateBulkInChunks(
+        inputText,
+        policy,
+        () => cancelled,
+        (done, total) => setProgress(done / total)
+      );
+      if (!calculated) return;
+      setResult(calculated);
+      setProgress(null);
+    }, inputText ? CALCULATE_DELAY_MS : 0);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [inputText, policyId]);
+
+  const filteredRows = useMemo(() => filterBulkRows(result.rows, filter), [result, filter]);
+  const sortedRows = useMemo(
+    () => sortBulkRows(filteredRows, sortKey, sortDirection),
+    [filteredRows, sortKey, sortDirection]
+  );
+  const filteredGroups = useMemo(() => {
+    const visible = new Set(filteredRows);
+    return result.groups.filter(group => group.rows.some(row => visible.has(row)));
+  }, [result, filteredRows]);
+
+  const itemCount = view === 'rows' ? sortedRows.length : filteredGroups.length;
+  const pageCount = Math.max(1, Math.ceil(itemCount / PAGE_SIZE));
+
+  useEffect(() => {
+    setPage(0);
+  }, [result, filter, sortKey, sortDirection, view]);
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      setInputText(await file.text());
+    }
+    e.target.value = '';
+  };
+
+  const handleSort = (key: BulkSortKey) => {
+    if (key === sortKey) {
+      setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc');
+    } else {
+      setSortKey(key);
+      setSortDirection('asc');
+    }
+  };
+
+  const pageRows = sortedRows.slice(page * PAGE_SIZE, (page + 1) * PAGE_SIZE);
+  const pageGroups = filteredGroups.slice(page * PAGE_SIZE, (page + 1) * PAGE_SIZE);
+  const validCount = result.rows.length - result.errorCount;
+  const selectClasses = 'rounded-md border border-gray-300 px-2 py-1 focus:border-emerald-500 focus:ring-1 focus:ring-emerald-500 bg-white text-gray-700 text-sm';
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-4 sm:p-6 md:p-8 w-full max-w-[95vw] mx-auto">
+      <div className="space-y-6 sm:space-y-8 text-left">
+        {/* Input Section */}
+        <div className="space-y-2">
+          <div className="flex items-center gap-2">
+            <label htmlFor="bulkList" className="block text-sm font-medium text-gray-700">
+              Addresses
+            </label>
+            <InformationCircleIcon
+              className="h-4 w-4 text-gray-400 cursor-help"
+              data-tooltip-id="bulk-list-tooltip"
+            />
+            <Tooltip id="bulk-list-tooltip" place="top">
+              One address per line as IP/prefix, IP/mask, "IP mask" or IPv6/prefix, with an optional label in any other column
+            </Tooltip>
+            <div className="flex-1" />
+            <label className="flex items-center gap-2 px-3 py-1 rounded-md text-sm font-medium bg-gray-200 text-gray-700 hover:bg-gray-300 cursor-pointer">
+              <ArrowUpTrayIcon className="h-4 w-4" />
+              Upload CSV
+              <input type="file" accept=".csv,.txt,text/csv,text/plain" className="hidden" onChange={handleUpload} />
+            </label>
+          </div>
+          <textarea
+            id="bulkList"
+            rows={8}
+            placeholder={'e.g.,\ncore-rtr1, 10.1.0.1/24\ncore-rtr2, 10.1.0.2, 255.255.255.0\nedge-fw 192.168.10.254 255.255.255.252\nlab-v6, 2001:db8:10::1/64'}
+            value={inputText}
+            onChange={(e) => setInputText(e.target.value)}
+            className="w-full rounded-md border border-gray-300 focus:border-emerald-500 px-2 sm:px-4 py-2 focus:ring-1 focus:ring-emerald-500 transition-colors text-sm sm:text-base font-mono"
+          />
+          <div className="flex flex-wrap items-center gap-2 text-xs text-gray-500">
+            <label htmlFor="bulkPolicy">Address policy</label>
+            <select
+              id="bulkPolicy"
+              value={policyId}
+              onChange={(e) => setPolicyId(e.target.value as typeof policyId)}
+              className={selectClasses}
+            >
+              {ADDRESS_POLICIES.map(policy => (
+                <option key={policy.id} value={policy.id}>{policy.label}</option>
+              ))}
+            </select>
+            <span>
+              {progress === null
+                ? `${result.rows.length.toLocaleString()} rows calculated`
+                : `Calculating… ${Math.round(progress * 100)}%`}
+            </span>
+          </div>
+        </div>
+
+        {/* Summary */}
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 sm:gap-4">
+          <div className="bg-emerald-50 p-3 sm:p-4 rounded-md">
+            <p className="text-xs sm:text-sm font-medium text-gray-500">Rows</p>
+            <p className="text-sm sm:text-lg font-semibold text-gray-900">{result.rows.length.toLocaleString()}</p>
+          </div>
+          <div className="bg-teal-50 p-3 sm:p-4 rounded-md">
+            <p className="text-xs sm:text-sm font-medium text-gray-500">Valid</p>
+            <p className="text-sm sm:text-lg font-semibold text-gray-900">{validCount.toLocaleString()}</p>
+          </div>
+          <div className="bg-red-50 p-3 sm:p-4 rounded-md">
+            <p className="text-xs sm:text-sm font-medium text-gray-500">Errors</p>
+            <p className="text-sm sm:text-lg font-semibold text-gray-900">{result.errorCount.toLocaleString()}</p>
+          </div>
+          <div className="bg-cyan-50 p-3 sm:p-4 rounded-md">
+            <p className="text-xs sm:text-sm font-medium text-gray-500">Distinct Networks</p>
+            <p className="text-sm sm:text-lg font-semibold text-gray-900">{result.groups.length.toLocaleString()}</p>
+          </div>
+        </div>
+
+        {/* Results */}
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              type="text"
+              placeholder="Filter, or an address to find its rows"
+              value={filter.query}
+              onChange={(e) => setFilter({ ...filter, query: e.target.value })}
+              className="w-64 rounded-md border border-gray-300 px-2 py-1 text-sm focus:border-emerald-500 focus:ring-1 focus:ring-emerald-500"
+            />
+            <select
+              value={filter.status}
+              onChange={(e) => setFilter({ ...filter, status: e.target.value as BulkFilter['status'] })}
+              className={selectClasses}
+            >
+              <option value="all">All rows</option>
+              <option value="valid">Valid only</option>
+              <option value="errors">Errors only</option>
+            </select>
+            <select
+              value={filter.version}
+              onChange={(e) => setFilter({ ...filter, version: e.target.value as BulkFilter['version'] })}
+              className={selectClasses}
+            >
+              <option value="all">IPv4 and IPv6</option>
+              <option value="4">IPv4</option>
+              <option value="6">IPv6</option>
+            </select>
+            <div className="inline-flex rounded-md border border-gray-300 p-0.5">
+              {(['rows', 'networks'] as const).map(option => (
+                <button
+                  key={option}
+                  onClick={() => setView(option)}
+                  className={`px-3 py-0.5 rounded text-sm font-medium ${
+                    view === option ? 'bg-emerald-500 text-white' : 'text-gray-500 hover:text-gray-700'
+                  }`}
+                >
+                  {option === 'rows' ? 'Rows' : 'By Network'}
+                </button>
+              ))}
+            </div>
+            <div className="flex-1" />
+            <span className="text-xs text-gray-500">
+              {itemCount.toLocaleString()} {view === 'rows' ? 'rows' : 'networks'} shown
+            </span>
+            <ExportMenu
+              filename={view === 'rows' ? 'bulk-calculation' : 'bulk-networks'}
+              getData={() => (view === 'rows' ? bulkExportData(sortedRows) : bulkGroupExportData(filteredGroups))}
+              disabled={itemCount === 0}
+              size="sm"
+            />
+          </div>
+
+          <div className="overflow-x-auto max-h-[32rem] overflow-y-auto">
+            {view === 'rows' ? (
+              <table className="min-w-full text-xs sm:text-sm text-left">
+                <thead className="bg-gray-50 text-gray-500 sticky top-0">
+                  <tr>
+                    {columns.map(column => (
+                      <th key={column.key} className="px-3 py-2 font-medium">
+                        <button onClick={() => handleSort(column.key)} className="flex items-center gap-1 hover:text-gray-700">
+                          {column.label}
+                          {sortKey === column.key && (
+                            sortDirection === 'asc'
+                              ? <ChevronUpIcon className="h-3 w-3" />
+                              : <ChevronDownIcon className="h-3 w-3" />
+                          )}
+                        </button>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100 text-gray-700">
+                  {pageRows.map(row => row.error ? (
+                    <tr key={row.line} className="bg-red-50">
+                      <td className="px-3 py-1">{row.line}</td>
+                      <td colSpan={6} className="px-3 py-1">
+                        <div className="font-mono text-gray-500 break-all">{row.input}</div>
+                        <div className="text-red-600 font-medium">{row.error}</div>
+                      </td>
+                      <td className="px-3 py-1">{row.label}</td>
+                    </tr>
+                  ) : (
+                    <tr key={row.line} className="hover:bg-emerald-50">
+                      <td className="px-3 py-1">{row.line}</td>
+                      <td className="px-3 py-1 font-mono">{row.address}</td>
+                      <td className="px-3 py-1 font-mono">
+                        <div>{row.network}</div>
+                        <div className="text-xs text-gray-500">
+                          {row.firstUsable ? `${row.firstUsable} - ${row.lastUsable}` : 'No usable addresses'}
+                        </div>
+                      </td>
+                      <td className="px-3 py-1 font-mono">{row.mask || `/${row.prefixLength}`}</td>
+                      <td className="px-3 py-1 break-all">{groupDigits(row.usable)}</td>
+                      <td className="px-3 py-1">
+                        <span className={`px-2 py-0.5 rounded-md text-xs font-medium whitespace-nowrap ${
+                          row.addressType === 'Host' ? 'bg-gray-100 text-gray-700' : 'bg-amber-100 text-amber-800'
+                        }`}>
+                          {row.addressType}
+                        </span>
+                      </td>
+                      <td className="px-3 py-1">{row.groupSize > 1 ? row.groupSize.toLocaleString() : '-'}</td>
+                      <td className="px-3 py-1">{row.label}</td>
+                    </tr>
+                  ))}
+                  {pageRows.length === 0 && (
+                    <tr>
+                      <td colSpan={columns.length} className="px-3 py-4 text-center text-gray-400">
+                        {result.rows.length > 0 ? 'No rows match the filter' : '-'}
+                      </td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            ) : (
+              <table className="min-w-full text-xs sm:text-sm text-left">
+                <thead className="bg-gray-50 text-gray-500 sticky top-0">
+                  <tr>
+                    <th className="px-3 py-2 font-medium">Network</th>
+                    <th className="px-3 py-2 font-medium">Rows</th>
+                    <th className="px-3 py-2 font-medium">Addresses</th>
+                    <th className="px-3 py-2 font-medium">Labels</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100 text-gray-700">
+                  {pageGroups.map(group => (
+                    <tr key={group.network} className="hover:bg-emerald-50">
+                      <td className="px-3 py-1 font-mono">{group.network}</td>
+                      <td className="px-3 py-1">{group.rows.length.toLocaleString()}</td>
+                      <td className="px-3 py-1 font-mono break-all">
+                        {group.rows.slice(0, MAX_GROUP_ADDRESSES).map(row => row.address).join(', ')}
+                        {group.rows.length > MAX_GROUP_ADDRESSES && ` +${(group.rows.length - MAX_GROUP_ADDRESSES).toLocaleString()} more`}
+                      </td>
+                      <td className="px-3 py-1">
+                        {group.rows.slice(0, MAX_GROUP_ADDRESSES).map(row => row.label).filter(Boolean).join(', ')}
+                      </td>
+                    </tr>
+                  ))}
+                  {pageGroups.length === 0 && (
+                    <tr>
+                      <td colSpan={4} className="px-3 py-4 text-center text-gray-400">
+                        {result.rows.length > 0 ? 'No networks match the filter' : '-'}
+                      </td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          {pageCount > 1 && (
+            <div className="flex items-center justify-center gap-4 text-xs sm:text-sm text-gray-600">
+              <button
+                onClick={() => setPage(page - 1)}
+                disabled={page === 0}
+                className="p-1 rounded-md hover:bg-gray-200 disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                <ChevronLeftIcon className="h-4 w-4" />
+              </button>
+              <span>
+                Page {(page + 1).toLocaleString()} of {pageCount.toLocaleString()}
+              </span>
+              <button
+                onClick={() => setPage(page + 1)}
+                disabled={page >= pageCount - 1}
+                className="p-1 rounded-md hover:bg-gray-200 disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                <ChevronRightIcon className="h-4 w-4" />
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+import { useEffect, useMemo, useState } from 'react';
+import { ClipboardIcon } from '@heroicons/react/24/outline';
+import {
+  buildConfigContext,
+  getConfigTemplates,
+  renderConfigTemplate,
+  suggestAddresses,
+  validateConfigAddresses
+} from '../utils/configTemplates';
+import type { ConfigNetwork } from '../utils/configTemplates';
+
+interface ConfigGeneratorProps {
+  network: ConfigNetwork;
+  color?: 'blue' | 'purple';
+}
+
+export default function ConfigGenerator({ network, color = 'blue' }: ConfigGeneratorProps) {
+  const templates = getConfigTemplates(network.version);
+  const [templateId, setTemplateId] = useState(templates[0]?.id ?? '');
+  const [host, setHost] = useState('');
+  const [gateway, setGateway] = useState('');
+  const [interfaceName, setInterfaceName] = useState('');
+  const [copied, setCopied] = useState(false);
+
+  const { version, networkAddress, prefixLength } = network;
+
+  useEffect(() => {
+    const suggested = suggestAddresses({ version, networkAddress, prefixLength });
+    setHost(suggested.host);
+    setGateway(suggested.gateway);
+  }, [version, networkAddress, prefixLength]);
+
+  const template = templates.find(candidate => candidate.id === templateId) ?? templates[0];
+  const errors = useMemo(
+    () => validateConfigAddresses({ version, networkAddress, prefixLength }, host, gateway),
+    [version, networkAddress, prefixLength, host, gateway]
+  );
+
+  const output = template && errors.length === 0
+    ? renderConfigTemplate(template, version, buildConfigContext(network, host, gateway, interfaceName))
+    : '';
+
+  const focusClasses = color === 'blue'
+    ? 'focus:border-blue-500 focus:ring-blue-500'
+    : 'focus:border-purple-500 focus:ring-purple-500';
+  const inputClasses = `w-full rounded-md border border-gray-300 px-2 py-1 text-sm focus:ring-1 ${focusClasses}`;
+
+  const copyOutput = () => {
+    navigator.clipboard.writeText(output);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="mt-4 space-y-4 text-left">
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-2 sm:gap-4">
+        <label className="space-y-1">
+          <span className="block text-xs font-medium text-gray-500">Platform</span>
+          <select
+            value={template?.id ?? ''}
+            onChange={(e) => setTemplateId(e.target.value)}
+            className={`${inputClasses} bg-white text-gray-700`}
+          >
+            {templates.map(candidate => (
+              <option key={candidate.id} value={candidate.id}>{candidate.label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="space-y-1">
+          <span className="block text-xs font-medium text-gray-500">Host Address</span>
+          <input type="text" value={host} onChange={(e) => setHost(e.target.value)} className={`${inputClasses} font-mono`} />
+        </label>
+        <label className="space-y-1">
+          <span className="block text-xs font-medium text-gray-500">Gateway</span>
+          <input type="text" value={gateway} onChange={(e) => setGateway(e.target.value)} className={`${inputClasses} font-mono`} />
+        </label>
+        <label className="space-y-1">
+          <span className="block text-xs font-medium text-gray-500">Interface</span>
+          <input
+            type="text"
+            placeholder={template?.defaultInterface}
+            value={interfaceName}
+            onChange={(e) => setInterfaceName(e.target.value)}
+            className={`${inputClasses} font-mono`}
+          />
+        </label>
+      </div>
+
+      {errors.length > 0 && (
+        <div className="text-red-600 text-sm font-medium p-3 bg-red-50 rounded-md border border-red-200">
+          <ul className="list-disc list-inside">
+            {errors.map(error => <li key={error}>{error}</li>)}
+          </ul>
+        </div>
+      )}
+
+      {output && (
+        <div className="relative">
+          <pre className="bg-gray-900 text-gray-100 text-xs sm:text-sm font-mono p-4 rounded-md overflow-x-auto">
+            {output}
+          </pre>
+          <button
+            onClick={copyOutput}
+            className="absolute top-2 right-2 p-1 rounded-md bg-gray-700 hover:bg-gray-600"
+            title={copied ? 'Copied!' : 'Copy to clipboard'}
+          >
+            <ClipboardIcon className={`h-4 w-4 ${copied ? 'text-green-400' : 'text-gray-300'}`} />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
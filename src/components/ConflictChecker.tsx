@@ -0,0 +1,168 @@
+import { useEffect, useMemo, useState } from 'react';
+import { InformationCircleIcon, ArrowUpTrayIcon } from '@heroicons/react/24/outline';
+import { Tooltip } from 'react-tooltip';
+import { findConflicts, parseLabeledNetworks } from '../utils/conflicts';
+import { groupDigits } from '../utils/ipv6';
+import { conflictExportData } from '../utils/export';
+import type { ToolState } from '../utils/permalink';
+import ExportMenu from './ExportMenu';
+
+const MAX_VISIBLE_FINDINGS = 500;
+
+interface ConflictCheckerProps {
+  initialState?: ToolState<'conflicts'>;
+  onStateChange?: (state: ToolState<'conflicts'>) => void;
+}
+
+export default function ConflictChecker({ initialState = {}, onStateChange }: ConflictCheckerProps) {
+  const [networkText, setNetworkText] = useState(initialState.networks ?? '');
+
+  useEffect(() => {
+    onStateChange?.({ networks: networkText });
+  }, [networkText, onStateChange]);
+
+  const parsed = useMemo(() => parseLabeledNetworks(networkText), [networkText]);
+  const findings = useMemo(() => findConflicts(parsed.networks), [parsed]);
+
+  const duplicateCount = findings.filter(finding => finding.kind === 'duplicate').length;
+  const containmentCount = findings.length - duplicateCount;
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      setNetworkText(await file.text());
+    }
+    e.target.value = '';
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-4 sm:p-6 md:p-8 w-full max-w-[95vw] mx-auto">
+      <div className="space-y-6 sm:space-y-8 text-left">
+        {/* Input Section */}
+        <div className="space-y-2">
+          <div className="flex items-center gap-2">
+            <label htmlFor="networkList" className="block text-sm font-medium text-gray-700">
+              Networks
+            </label>
+            <InformationCircleIcon
+              className="h-4 w-4 text-gray-400 cursor-help"
+              data-tooltip-id="network-list-tooltip"
+            />
+            <Tooltip id="network-list-tooltip" place="top">
+              One network per line with an optional label, e.g. "HQ users, 10.1.0.0/16". IPv4 and IPv6 can be mixed.
+            </Tooltip>
+            <div className="flex-1" />
+            <label className="flex items-center gap-2 px-3 py-1 rounded-md text-sm font-medium bg-gray-200 text-gray-700 hover:bg-gray-300 cursor-pointer">
+              <ArrowUpTrayIcon className="h-4 w-4" />
+              Upload CSV
+              <input type="file" accept=".csv,.txt,text/csv,text/plain" className="hidden" onChange={handleUpload} />
+            </label>
+          </div>
+          <textarea
+            id="networkList"
+            rows={8}
+            placeholder={'e.g.,\nAcme HQ, 10.1.0.0/16\nAcme DC, 10.2.0.0/16\nGlobex VPN, 10.1.128.0/20\nGlobex v6, 2001:db8:100::/48'}
+            value={networkText}
+            onChange={(e) => setNetworkText(e.target.value)}
+            className="w-full rounded-md border border-gray-300 focus:border-red-500 px-2 sm:px-4 py-2 focus:ring-1 focus:ring-red-500 transition-colors text-sm sm:text-base font-mono"
+          />
+          <p className="text-xs text-gray-500">
+            {parsed.networks.length.toLocaleString()} networks checked
+          </p>
+        </div>
+
+        {parsed.errors.length > 0 && (
+          <div className="text-red-600 text-sm font-medium p-4 bg-red-50 rounded-md border border-red-200 max-h-40 overflow-y-auto">
+            <ul className="list-disc list-inside">
+              {parsed.errors.map((error, index) => (
+                <li key={index}>{error}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {/* Summary */}
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 sm:gap-4">
+          <div className="bg-orange-50 p-3 sm:p-4 rounded-md">
+            <p className="text-xs sm:text-sm font-medium text-gray-500">Overlapping Pairs</p>
+            <p className="text-sm sm:text-lg font-semibold text-gray-900">{findings.length.toLocaleString()}</p>
+          </div>
+          <div className="bg-pink-50 p-3 sm:p-4 rounded-md">
+            <p className="text-xs sm:text-sm font-medium text-gray-500">Contained Networks</p>
+            <p className="text-sm sm:text-lg font-semibold text-gray-900">{containmentCount.toLocaleString()}</p>
+          </div>
+          <div className="bg-cyan-50 p-3 sm:p-4 rounded-md">
+            <p className="text-xs sm:text-sm font-medium text-gray-500">Duplicates</p>
+            <p className="text-sm sm:text-lg font-semibold text-gray-900">{duplicateCount.toLocaleString()}</p>
+          </div>
+        </div>
+
+        {/* Findings */}
+        <div className="space-y-4">
+          <div className="flex items-center">
+            <div className="flex-1">
+              <h2 className="text-lg sm:text-xl font-semibold text-gray-800">Conflicts</h2>
+              <p className="text-xs sm:text-sm text-gray-500">
+                CIDR blocks can only nest, so every overlap is one network inside another
+              </p>
+            </div>
+            <ExportMenu
+              filename="subnet-conflicts"
+              getData={() => conflictExportData(findings)}
+              disabled={findings.length === 0}
+              color="red"
+            />
+          </div>
+          <div className="overflow-x-auto max-h-[32rem] overflow-y-auto">
+            <table className="min-w-full text-xs sm:text-sm text-left">
+              <thead className="bg-gray-50 text-gray-500 sticky top-0">
+                <tr>
+                  <th className="px-3 py-2 font-medium">Finding</th>
+                  <th className="px-3 py-2 font-medium">Outer</th>
+                  <th className="px-3 py-2 font-medium">Inner</th>
+                  <th className="px-3 py-2 font-medium">Shared Range</th>
+                  <th className="px-3 py-2 font-medium">Addresses</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100 text-gray-700">
+                {findings.slice(0, MAX_VISIBLE_FINDINGS).map((finding, index) => (
+                  <tr key={index} className="hover:bg-red-50">
+                    <td className="px-3 py-2">
+                      <span className={`px-2 py-0.5 rounded-md text-xs font-medium ${
+                        finding.kind === 'duplicate' ? 'bg-cyan-100 text-cyan-800' : 'bg-pink-100 text-pink-800'
+                      }`}>
+                        {finding.kind === 'duplicate' ? 'Duplicate' : 'Contains'}
+                      </span>
+                    </td>
+                    <td className="px-3 py-2">
+                      <div className="font-mono">{finding.outer.cidr}</div>
+                      <div className="text-xs text-gray-500">{finding.outer.label || `Line ${finding.outer.line}`}</div>
+                    </td>
+                    <td className="px-3 py-2">
+                      <div className="font-mono">{finding.inner.cidr}</div>
+                      <div className="text-xs text-gray-500">{finding.inner.label || `Line ${finding.inner.line}`}</div>
+                    </td>
+                    <td className="px-3 py-2 font-mono break-all">{finding.sharedStart} - {finding.sharedEnd}</td>
+                    <td className="px-3 py-2 break-all">{groupDigits(finding.sharedAddresses)}</td>
+                  </tr>
+                ))}
+                {findings.length === 0 && (
+                  <tr>
+                    <td colSpan={5} className="px-3 py-4 text-center text-gray-400">
+                      {parsed.networks.length > 0 ? 'No conflicts found' : '-'}
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+          {findings.length > MAX_VISIBLE_FINDINGS && (
+            <div className="text-xs sm:text-sm text-gray-500 italic">
+              Showing the first {MAX_VISIBLE_FINDINGS.toLocaleString()} of {findings.length.toLocaleString()} findings. Save as CSV for the full list.
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+import { useState } from 'react';
+import { ArrowDownTrayIcon, ChevronDownIcon, ClipboardIcon } from '@heroicons/react/24/outline';
+import { downloadExport, getExportFormats } from '../utils/export';
+import type { ExportData, ExportFormat } from '../utils/export';
+
+interface ExportMenuProps {
+  label?: string;
+  filename: string;
+  // Called only when a format is picked, so large exports are built on demand
+  getData: () => ExportData | null;
+  disabled?: boolean;
+  disabledReason?: string;
+  color?: 'blue' | 'purple' | 'red';
+  size?: 'md' | 'sm';
+}
+
+export default function ExportMenu({
+  label = 'Export',
+  filename,
+  getData,
+  disabled = false,
+  disabledReason,
+  color = 'blue',
+  size = 'md'
+}: ExportMenuProps) {
+  const [open, setOpen] = useState(false);
+  const [done, setDone] = useState<string>('');
+
+  const colorClasses = {
+    blue: 'bg-blue-500 text-white hover:bg-blue-600',
+    purple: 'bg-purple-500 text-white hover:bg-purple-600',
+    red: 'bg-red-500 text-white hover:bg-red-600'
+  };
+
+  const sizeClasses = {
+    md: 'px-4 py-2',
+    sm: 'px-3 py-1'
+  };
+
+  const flash = (message: string) => {
+    setOpen(false);
+    setDone(message);
+    setTimeout(() => setDone(''), 1000);
+  };
+
+  const handleDownload = (format: ExportFormat) => {
+    const data = getData();
+    if (!data) return;
+    downloadExport(data, format, filename);
+    flash('Saved!');
+  };
+
+  const handleCopy = (format: ExportFormat) => {
+    const data = getData();
+    if (!data) return;
+    navigator.clipboard.writeText(format.render(data));
+    flash('Copied!');
+  };
+
+  return (
+    <div className="relative inline-block text-left">
+      <button
+        onClick={() => setOpen(!open)}
+        disabled={disabled}
+        title={disabled ? disabledReason : undefined}
+        className={`flex items-center gap-2 ${sizeClasses[size]} rounded-md text-sm font-medium transition-all ${
+          done
+            ? 'bg-green-500 text-white transform scale-105'
+            : disabled
+              ? 'bg-gray-200 text-gray-400 cursor-not-allowed'
+              : colorClasses[color]
+        }`}
+      >
+        <ArrowDownTrayIcon className="h-4 w-4" />
+        {done || label}
+        <ChevronDownIcon className="h-3 w-3" />
+      </button>
+
+      {open && !disabled && (
+        <>
+          <div className="fixed inset-0 z-10" onClick={() => setOpen(false)} />
+          <div className="absolute right-0 z-20 mt-1 w-56 rounded-md bg-white shadow-lg border border-gray-200 py-1">
+            {getExportFormats().map(format => (
+              <div key={format.id} className="flex items-center justify-between px-3 py-1 hover:bg-gray-50">
+                <span className="text-sm text-gray-700">{format.label}</span>
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={() => handleDownload(format)}
+                    className="p-1 rounded-md hover:bg-gray-200"
+                    title={`Download ${format.label}`}
+                  >
+                    <ArrowDownTrayIcon className="h-4 w-4 text-gray-500" />
+                  </button>
+                  <button
+                    onClick={() => handleCopy(format)}
+                    className="p-1 rounded-md hover:bg-gray-200"
+                    title={`Copy all as ${format.label}`}
+                  >
+                    <ClipboardIcon className="h-4 w-4 text-gray-500" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,353 @@
+import { useEffect, useMemo, useState } from 'react';
+import {
+  ArrowDownTrayIcon,
+  ArrowTopRightOnSquareIcon,
+  ArrowUpTrayIcon,
+  ChevronDownIcon,
+  ChevronUpIcon,
+  FolderPlusIcon,
+  MagnifyingGlassIcon,
+  StarIcon,
+  TrashIcon
+} from '@heroicons/react/24/outline';
+import {
+  exportWorkspace,
+  importWorkspace,
+  isSameCalculation,
+  loadHistory,
+  loadWorkspaces,
+  recordCalculation,
+  saveHistory,
+  saveWorkspaces,
+  searchHistory,
+  sortHistory
+} from '../utils/history';
+import type { HistoryEntry, SavedCalculation, Workspace } from '../utils/history';
+import { downloadFile } from '../utils/export';
+import { createId } from '../utils/id';
+
+// A calculation is recorded once the inputs have settled, not on every keystroke
+const RECORD_DELAY_MS = 1500;
+
+interface HistoryPanelProps {
+  current: SavedCalculation | null;
+  onOpen: (calculation: SavedCalculation) => void;
+}
+
+export default function HistoryPanel({ current, onOpen }: HistoryPanelProps) {
+  const [history, setHistory] = useState<HistoryEntry[]>(loadHistory);
+  const [workspaces, setWorkspaces] = useState<Workspace[]>(loadWorkspaces);
+  const [activeWorkspaceId, setActiveWorkspaceId] = useState<string>(() => workspaces[0]?.id ?? '');
+  const [showHistory, setShowHistory] = useState(false);
+  const [showWorkspaces, setShowWorkspaces] = useState(false);
+  const [query, setQuery] = useState('');
+  const [newWorkspaceName, setNewWorkspaceName] = useState('');
+  const [importError, setImportError] = useState<string | null>(null);
+
+  useEffect(() => saveHistory(history), [history]);
+  useEffect(() => saveWorkspaces(workspaces), [workspaces]);
+
+  useEffect(() => {
+    if (!current) return;
+    const timer = setTimeout(
+      () => setHistory(entries => recordCalculation(entries, current, Date.now())),
+      RECORD_DELAY_MS
+    );
+    return () => clearTimeout(timer);
+  }, [current]);
+
+  const visibleHistory = useMemo(() => sortHistory(searchHistory(history, query)), [history, query]);
+  const activeWorkspace = workspaces.find(workspace => workspace.id === activeWorkspaceId) ?? null;
+
+  const togglePinned = (id: string) => {
+    setHistory(entries => entries.map(entry => (entry.id === id ? { ...entry, pinned: !entry.pinned } : entry)));
+  };
+
+  const removeEntry = (id: string) => {
+    setHistory(entries => entries.filter(entry => entry.id !== id));
+  };
+
+  const clearUnpinned = () => {
+    setHistory(entries => entries.filter(entry => entry.pinned));
+  };
+
+  const updateWorkspace = (id: string, update: (workspace: Workspace) => Workspace) => {
+    setWorkspaces(all => all.map(workspace =>
+      workspace.id === id ? { ...update(workspace), updatedAt: Date.now() } : workspace
+    ));
+  };
+
+  const addWorkspace = (workspace: Workspace) => {
+    setWorkspaces(all => [...all, workspace]);
+    setActiveWorkspaceId(workspace.id);
+    setShowWorkspaces(true);
+  };
+
+  const handleCreateWorkspace = () => {
+    const name = newWorkspaceName.trim();
+    if (!name) return;
+    addWorkspace({ id: createId(), name, notes: '', subnets: [], updatedAt: Date.now() });
+    setNewWorkspaceName('');
+  };
+
+  const handleDeleteWorkspace = (id: string) => {
+    const remaining = workspaces.filter(workspace => workspace.id !== id);
+    setWorkspaces(remaining);
+    setActiveWorkspaceId(remaining[0]?.id ?? '');
+  };
+
+  const addToWorkspace = (calculation: SavedCalculation) => {
+    if (!activeWorkspace) return;
+    const { version, address, mask, cidr } = calculation;
+    updateWorkspace(activeWorkspace.id, workspace => ({
+      ...workspace,
+      subnets: workspace.subnets.some(subnet => isSameCalculation(subnet, calculation))
+        ? workspace.subnets
+        : [...workspace.subnets, { version, address, mask, cidr, id: createId(), note: '', addedAt: Date.now() }]
+    }));
+  };
+
+  const handleExportWorkspace = () => {
+    if (!activeWorkspace) return;
+    const filename = `${activeWorkspace.name.replace(/[^\w-]+/g, '-').toLowerCase() || 'workspace'}.json`;
+    downloadFile(exportWorkspace(activeWorkspace), filename, 'application/json;charset=utf-8;');
+  };
+
+  const handleImportWorkspace = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const { workspace, error } = importWorkspace(await file.text(), Date.now());
+    setImportError(error);
+    if (workspace) addWorkspace(workspace);
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-4 sm:p-6 w-full max-w-[95vw] mx-auto mt-4 sm:mt-6 text-left space-y-4">
+      {/* History */}
+      <div className="bg-gray-50 p-3 sm:p-4 rounded-md">
+        <button
+          onClick={() => setShowHistory(!showHistory)}
+          className="w-full flex items-center justify-between text-gray-700 hover:text-gray-900"
+        >
+          <span className="text-xs sm:text-sm font-medium">
+            {showHistory ? 'Hide' : 'Show'} History ({history.length} calculations)
+          </span>
+          {showHistory ? <ChevronUpIcon className="h-4 w-4 sm:h-5 sm:w-5" /> : <ChevronDownIcon className="h-4 w-4 sm:h-5 sm:w-5" />}
+        </button>
+
+        {showHistory && (
+          <div className="mt-4 space-y-3">
+            <div className="flex items-center gap-2">
+              <div className="relative flex-1">
+                <MagnifyingGlassIcon className="h-4 w-4 text-gray-400 absolute left-2 top-1/2 -translate-y-1/2" />
+                <input
+                  type="text"
+                  placeholder="Search by address, mask or network"
+                  value={query}
+                  onChange={(e) => setQuery(e.target.value)}
+                  className="w-full rounded-md border border-gray-300 focus:border-blue-500 pl-8 pr-2 py-2 focus:ring-1 focus:ring-blue-500 transition-colors text-sm"
+                />
+              </div>
+              <button
+                onClick={clearUnpinned}
+                disabled={history.every(entry => entry.pinned)}
+                className="px-3 py-2 rounded-md text-sm font-medium text-gray-600 bg-white border border-gray-300 hover:bg-gray-100 disabled:text-gray-300 disabled:cursor-not-allowed"
+              >
+                Clear unpinned
+              </button>
+            </div>
+
+            <div className="max-h-96 overflow-y-auto divide-y divide-gray-200">
+              {visibleHistory.map(entry => (
+                <div key={entry.id} className="flex items-center gap-2 py-2">
+                  <button
+                    onClick={() => togglePinned(entry.id)}
+                    className="p-1 rounded-md hover:bg-gray-200 flex-shrink-0"
+                    title={entry.pinned ? 'Unpin' : 'Pin'}
+                  >
+                    <StarIcon className={`h-4 w-4 ${entry.pinned ? 'text-amber-500 fill-amber-400' : 'text-gray-400'}`} />
+                  </button>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-semibold text-gray-900 font-mono break-all">{entry.cidr}</p>
+                    <p className="text-xs text-gray-500 break-all">
+                      IPv{entry.version} · {entry.address} {entry.mask} · {new Date(entry.timestamp).toLocaleString()}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => onOpen(entry)}
+                    className="p-1 rounded-md hover:bg-gray-200 flex-shrink-0"
+                    title="Open in calculator"
+                  >
+                    <ArrowTopRightOnSquareIcon className="h-4 w-4 text-blue-500" />
+                  </button>
+                  <button
+                    onClick={() => addToWorkspace(entry)}
+                    disabled={!activeWorkspace}
+                    className="p-1 rounded-md hover:bg-gray-200 flex-shrink-0 disabled:opacity-40 disabled:cursor-not-allowed"
+                    title={activeWorkspace ? `Add to ${activeWorkspace.name}` : 'Create a workspace first'}
+                  >
+                    <FolderPlusIcon className="h-4 w-4 text-teal-600" />
+                  </button>
+                  <button
+                    onClick={() => removeEntry(entry.id)}
+                    className="p-1 rounded-md hover:bg-gray-200 flex-shrink-0"
+                    title="Remove from history"
+                  >
+                    <TrashIcon className="h-4 w-4 text-gray-400" />
+                  </button>
+                </div>
+              ))}
+              {visibleHistory.length === 0 && (
+                <p className="py-4 text-center text-sm text-gray-400">
+                  {history.length === 0 ? 'Valid calculations will appear here' : 'No calculations match the search'}
+                </p>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Workspaces */}
+      <div className="bg-gray-50 p-3 sm:p-4 rounded-md">
+        <button
+          onClick={() => setShowWorkspaces(!showWorkspaces)}
+          className="w-full flex items-center justify-between text-gray-700 hover:text-gray-900"
+        >
+          <span className="text-xs sm:text-sm font-medium">
+            {showWorkspaces ? 'Hide' : 'Show'} Workspaces ({workspaces.length})
+          </span>
+          {showWorkspaces ? <ChevronUpIcon className="h-4 w-4 sm:h-5 sm:w-5" /> : <ChevronDownIcon className="h-4 w-4 sm:h-5 sm:w-5" />}
+        </button>
+
+        {showWorkspaces && (
+          <div className="mt-4 space-y-3">
+            <div className="flex flex-wrap items-center gap-2">
+              <select
+                value={activeWorkspace?.id ?? ''}
+                onChange={(e) => setActiveWorkspaceId(e.target.value)}
+                disabled={workspaces.length === 0}
+                className="flex-1 min-w-[160px] rounded-md border border-gray-300 px-2 py-2 bg-white text-gray-700 text-sm focus:border-teal-500 focus:ring-1 focus:ring-teal-500"
+              >
+                {workspaces.length === 0 && <option value="">No workspaces</option>}
+                {workspaces.map(workspace => (
+                  <option key={workspace.id} value={workspace.id}>
+                    {workspace.name} ({workspace.subnets.length})
+                  </option>
+                ))}
+              </select>
+              <input
+                type="text"
+                placeholder="New workspace name"
+                value={newWorkspaceName}
+                onChange={(e) => setNewWorkspaceName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleCreateWorkspace()}
+                className="flex-1 min-w-[160px] rounded-md border border-gray-300 focus:border-teal-500 px-2 py-2 focus:ring-1 focus:ring-teal-500 transition-colors text-sm"
+              />
+              <button
+                onClick={handleCreateWorkspace}
+                disabled={!newWorkspaceName.trim()}
+                className="px-3 py-2 rounded-md text-sm font-medium bg-teal-500 text-white hover:bg-teal-600 disabled:bg-gray-200 disabled:text-gray-400 disabled:cursor-not-allowed"
+              >
+                Create
+              </button>
+              <label className="flex items-center gap-2 px-3 py-2 rounded-md text-sm font-medium text-gray-600 bg-white border border-gray-300 hover:bg-gray-100 cursor-pointer">
+                <ArrowUpTrayIcon className="h-4 w-4" />
+                Import
+                <input type="file" accept=".json,application/json" className="hidden" onChange={handleImportWorkspace} />
+              </label>
+            </div>
+
+            {importError && (
+              <div className="text-red-600 text-sm font-medium p-3 bg-red-50 rounded-md border border-red-200">
+                {importError}
+              </div>
+            )}
+
+            {activeWorkspace && (
+              <div className="space-y-3">
+                <textarea
+                  rows={2}
+                  placeholder="Workspace notes"
+                  value={activeWorkspace.notes}
+                  onChange={(e) => updateWorkspace(activeWorkspace.id, workspace => ({ ...workspace, notes: e.target.value }))}
+                  className="w-full rounded-md border border-gray-300 focus:border-teal-500 px-2 py-2 focus:ring-1 focus:ring-teal-500 transition-colors text-sm"
+                />
+                <div className="flex flex-wrap items-center gap-2">
+                  <button
+                    onClick={() => current && addToWorkspace(current)}
+                    disabled={!current}
+                    className="flex items-center gap-2 px-3 py-2 rounded-md text-sm font-medium bg-teal-500 text-white hover:bg-teal-600 disabled:bg-gray-200 disabled:text-gray-400 disabled:cursor-not-allowed"
+                  >
+                    <FolderPlusIcon className="h-4 w-4" />
+                    {current ? `Add ${current.cidr}` : 'Add current calculation'}
+                  </button>
+                  <button
+                    onClick={handleExportWorkspace}
+                    className="flex items-center gap-2 px-3 py-2 rounded-md text-sm font-medium text-gray-600 bg-white border border-gray-300 hover:bg-gray-100"
+                  >
+                    <ArrowDownTrayIcon className="h-4 w-4" />
+                    Export JSON
+                  </button>
+                  <button
+                    onClick={() => handleDeleteWorkspace(activeWorkspace.id)}
+                    className="flex items-center gap-2 px-3 py-2 rounded-md text-sm font-medium text-red-600 bg-white border border-red-200 hover:bg-red-50"
+                  >
+                    <TrashIcon className="h-4 w-4" />
+                    Delete workspace
+                  </button>
+                </div>
+
+                <div className="divide-y divide-gray-200">
+                  {activeWorkspace.subnets.map(subnet => (
+                    <div key={subnet.id} className="flex flex-col sm:flex-row sm:items-center gap-2 py-2">
+                      <div className="sm:w-64 flex-shrink-0">
+                        <p className="text-sm font-semibold text-gray-900 font-mono break-all">{subnet.cidr}</p>
+                        <p className="text-xs text-gray-500 break-all">IPv{subnet.version} · {subnet.address} {subnet.mask}</p>
+                      </div>
+                      <input
+                        type="text"
+                        placeholder="Note"
+                        value={subnet.note}
+                        onChange={(e) => updateWorkspace(activeWorkspace.id, workspace => ({
+                          ...workspace,
+                          subnets: workspace.subnets.map(other => (other.id === subnet.id ? { ...other, note: e.target.value } : other))
+                        }))}
+                        className="flex-1 rounded-md border border-gray-300 focus:border-teal-500 px-2 py-1 focus:ring-1 focus:ring-teal-500 transition-colors text-sm"
+                      />
+                      <div className="flex items-center gap-1">
+                        <button
+                          onClick={() => onOpen(subnet)}
+                          className="p-1 rounded-md hover:bg-gray-200"
+                          title="Open in calculator"
+                        >
+                          <ArrowTopRightOnSquareIcon className="h-4 w-4 text-blue-500" />
+                        </button>
+                        <button
+                          onClick={() => updateWorkspace(activeWorkspace.id, workspace => ({
+                            ...workspace,
+                            subnets: workspace.subnets.filter(other => other.id !== subnet.id)
+                          }))}
+                          className="p-1 rounded-md hover:bg-gray-200"
+                          title="Remove from workspace"
+                        >
+                          <TrashIcon className="h-4 w-4 text-gray-400" />
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                  {activeWorkspace.subnets.length === 0 && (
+                    <p className="py-4 text-center text-sm text-gray-400">
+                      Add the current calculation or entries from the history
+                    </p>
+                  )}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
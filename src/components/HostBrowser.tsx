@@ -0,0 +1,361 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { ArrowDownTrayIcon, ChevronLeftIcon, ChevronRightIcon } from '@heroicons/react/24/outline';
+import { blockSize, formatAddress } from '../utils/cidr';
+import type { CIDRBlock } from '../utils/cidr';
+import { groupDigits } from '../utils/ipv6';
+import { suggestAddresses } from '../utils/configTemplates';
+import { hostListExportData, openFileSink } from '../utils/export';
+import {
+  EXPORT_LIMIT,
+  SEARCH_LIMIT,
+  exportHostSlice,
+  findNextHost,
+  hostRows,
+  resolveLocation,
+  withGateway
+} from '../utils/hostBrowser';
+import type { HostExportFormat, HostMarker, HostMarkerKind } from '../utils/hostBrowser';
+import ExportMenu from './ExportMenu';
+
+interface HostBrowserProps {
+  block: CIDRBlock;
+  markers: HostMarker[];
+  color?: 'blue' | 'purple';
+}
+
+// Addresses per page; rows inside a page are rendered only when scrolled
+// into view, so the page size only bounds the scroll height
+const PAGE_SIZE = 10000n;
+const ROW_HEIGHT = 28;
+const VIEWPORT_HEIGHT = 384;
+const OVERSCAN = 10;
+
+const MARKER_CLASSES: Record<HostMarkerKind, string> = {
+  network: 'bg-gray-200 text-gray-700',
+  broadcast: 'bg-gray-200 text-gray-700',
+  gateway: 'bg-green-100 text-green-800',
+  reserved: 'bg-amber-100 text-amber-800'
+};
+
+function pageStartOf(offset: bigint): bigint {
+  return offset - (offset % PAGE_SIZE);
+}
+
+export default function HostBrowser({ block, markers: baseMarkers, color = 'blue' }: HostBrowserProps) {
+  const total = blockSize(block);
+  const pageCount = (total + PAGE_SIZE - 1n) / PAGE_SIZE;
+
+  const [pageStart, setPageStart] = useState(0n);
+  const [selected, setSelected] = useState<bigint | null>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [locationText, setLocationText] = useState('');
+  const [locationError, setLocationError] = useState<string | null>(null);
+  const [query, setQuery] = useState('');
+  const [searchMessage, setSearchMessage] = useState<string | null>(null);
+  const [searchFrom, setSearchFrom] = useState<bigint | null>(null);
+  const [gateway, setGateway] = useState(() =>
+    suggestAddresses({ version: block.version, networkAddress: formatAddress(block.version, block.start), prefixLength: block.prefixLength }).gateway
+  );
+  const [exportFrom, setExportFrom] = useState('0');
+  const [exportCount, setExportCount] = useState(total < PAGE_SIZE ? total.toString() : PAGE_SIZE.toString());
+  const [exportFormat, setExportFormat] = useState<HostExportFormat>('text');
+  const [exportProgress, setExportProgress] = useState<number | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const exportCancelled = useRef(false);
+  const viewport = useRef<HTMLDivElement>(null);
+  // Row to bring into view once its page has rendered; null scrolls to the top
+  const [scrollTarget, setScrollTarget] = useState<{ offset: bigint | null }>({ offset: null });
+
+  const markers = useMemo(() => withGateway(block, baseMarkers, gateway), [block, baseMarkers, gateway]);
+
+  const pageSize = total - pageStart < PAGE_SIZE ? Number(total - pageStart) : Number(PAGE_SIZE);
+  const firstVisible = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const visibleCount = Math.ceil(VIEWPORT_HEIGHT / ROW_HEIGHT) + OVERSCAN * 2;
+  const rows = useMemo(
+    () => hostRows(block, pageStart + BigInt(firstVisible), Math.min(visibleCount, pageSize - firstVisible), markers),
+    [block, pageStart, firstVisible, visibleCount, pageSize, markers]
+  );
+
+  useEffect(() => {
+    if (!viewport.current) return;
+    const target = scrollTarget.offset;
+    const top = target === null ? 0 : Number(target - pageStartOf(target)) * ROW_HEIGHT - VIEWPORT_HEIGHT / 2 + ROW_HEIGHT / 2;
+    viewport.current.scrollTop = Math.max(0, top);
+    setScrollTop(viewport.current.scrollTop);
+  }, [scrollTarget]);
+
+  useEffect(() => () => {
+    exportCancelled.current = true;
+  }, []);
+
+  const goTo = (offset: bigint) => {
+    setSelected(offset);
+    setPageStart(pageStartOf(offset));
+    setScrollTarget({ offset });
+  };
+
+  const goToPage = (start: bigint) => {
+    setPageStart(start);
+    setSearchFrom(null);
+    setScrollTarget({ offset: null });
+  };
+
+  const jump = () => {
+    const result = resolveLocation(block, locationText);
+    setLocationError(result.error);
+    if (result.offset !== null) goTo(result.offset);
+  };
+
+  const search = (from: bigint) => {
+    if (!query.trim()) return;
+    const result = findNextHost(block, markers, query, from);
+    if (result.offset !== null) {
+      setSearchMessage(null);
+      setSearchFrom(null);
+      goTo(result.offset);
+    } else if (result.scannedTo >= total - 1n) {
+      setSearchMessage(`No more matches for "${query.trim()}"`);
+      setSearchFrom(null);
+    } else {
+      setSearchMessage(`No match in the next ${groupDigits(SEARCH_LIMIT)} addresses`);
+      setSearchFrom(result.scannedTo);
+    }
+  };
+
+  const startExport = async () => {
+    const from = resolveLocation(block, exportFrom);
+    const count = /^\d+$/.test(exportCount.trim()) ? BigInt(exportCount.trim()) : -1n;
+    if (from.offset === null) {
+      setExportError(from.error);
+      return;
+    }
+    if (count <= 0n || count > EXPORT_LIMIT) {
+      setExportError(`Count must be between 1 and ${groupDigits(EXPORT_LIMIT)}`);
+      return;
+    }
+    const available = total - from.offset;
+    const size = count < available ? count : available;
+    const network = `${formatAddress(block.version, block.start)}-${block.prefixLength}`;
+
+    setExportError(null);
+    const sink = await openFileSink(
+      `hosts-${network}-from-${from.offset}.${exportFormat === 'csv' ? 'csv' : 'txt'}`,
+      exportFormat === 'csv' ? 'text/csv;charset=utf-8;' : 'text/plain;charset=utf-8;'
+    );
+    if (!sink) return;
+
+    setExportProgress(0);
+    exportCancelled.current = false;
+    try {
+      const finished = await exportHostSlice(
+        block,
+        markers,
+        from.offset,
+        size,
+        exportFormat,
+        chunk => sink.write(chunk),
+        () => exportCancelled.current,
+        done => setExportProgress(Number((done * 100n) / size))
+      );
+      await (finished ? sink.close() : sink.abort());
+    } catch (error) {
+      await sink.abort().catch(() => undefined);
+      setExportError(`Export failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    setExportProgress(null);
+  };
+
+  const focusClasses = color === 'blue'
+    ? 'focus:border-blue-500 focus:ring-blue-500'
+    : 'focus:border-purple-500 focus:ring-purple-500';
+  const inputClasses = `rounded-md border border-gray-300 px-2 py-1 text-sm focus:ring-1 ${focusClasses}`;
+  const buttonClasses = color === 'blue'
+    ? 'bg-blue-500 text-white hover:bg-blue-600'
+    : 'bg-purple-500 text-white hover:bg-purple-600';
+  const selectedClasses = color === 'blue' ? 'bg-blue-100' : 'bg-purple-100';
+  const pageIndex = pageStart / PAGE_SIZE;
+
+  return (
+    <div className="mt-4 space-y-3 text-left">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-2 sm:gap-4">
+        <div className="space-y-1">
+          <span className="block text-xs font-medium text-gray-500">Go to offset or address</span>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={locationText}
+              placeholder={`0, -1 or ${formatAddress(block.version, block.start)}`}
+              onChange={(e) => setLocationText(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && jump()}
+              className={`${inputClasses} flex-1 min-w-0 font-mono`}
+            />
+            <button onClick={jump} className={`px-3 py-1 rounded-md text-sm font-medium ${buttonClasses}`}>Go</button>
+          </div>
+          {locationError && <p className="text-xs text-red-600">{locationError}</p>}
+        </div>
+        <div className="space-y-1">
+          <span className="block text-xs font-medium text-gray-500">Search addresses and markers</span>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={query}
+              placeholder="e.g., .255 or gateway"
+              onChange={(e) => {
+                setQuery(e.target.value);
+                setSearchMessage(null);
+                setSearchFrom(null);
+              }}
+              onKeyDown={(e) => e.key === 'Enter' && search(selected ?? pageStart - 1n)}
+              className={`${inputClasses} flex-1 min-w-0 font-mono`}
+            />
+            <button
+              onClick={() => search(selected ?? pageStart - 1n)}
+              className={`px-3 py-1 rounded-md text-sm font-medium ${buttonClasses}`}
+            >
+              Find Next
+            </button>
+          </div>
+          {searchMessage && (
+            <p className="text-xs text-gray-500">
+              {searchMessage}
+              {searchFrom !== null && (
+                <button onClick={() => search(searchFrom)} className="ml-2 underline hover:text-gray-700">Keep searching</button>
+              )}
+            </p>
+          )}
+        </div>
+        <div className="space-y-1">
+          <span className="block text-xs font-medium text-gray-500">Gateway</span>
+          <input
+            type="text"
+            value={gateway}
+            onChange={(e) => setGateway(e.target.value)}
+            className={`${inputClasses} w-full font-mono`}
+          />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2 text-xs sm:text-sm text-gray-600">
+          <button
+            onClick={() => goToPage(pageStart - PAGE_SIZE)}
+            disabled={pageStart === 0n}
+            className="p-1 rounded-md hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed"
+            title="Previous page"
+          >
+            <ChevronLeftIcon className="h-4 w-4" />
+          </button>
+          <span>
+            Offsets {groupDigits(pageStart)}-{groupDigits(pageStart + BigInt(pageSize) - 1n)} of {groupDigits(total)}
+            {pageCount > 1n && ` (page ${groupDigits(pageIndex + 1n)} of ${groupDigits(pageCount)})`}
+          </span>
+          <button
+            onClick={() => goToPage(pageStart + PAGE_SIZE)}
+            disabled={pageIndex >= pageCount - 1n}
+            className="p-1 rounded-md hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed"
+            title="Next page"
+          >
+            <ChevronRightIcon className="h-4 w-4" />
+          </button>
+        </div>
+        <ExportMenu
+          label="Export Page"
+          filename={`hosts-${formatAddress(block.version, block.start)}-${block.prefixLength}-page-${pageIndex + 1n}`}
+          getData={() => {
+            const pageRows = hostRows(block, pageStart, pageSize, markers);
+            return hostListExportData(
+              pageRows.map(row => row.address),
+              new Map(pageRows.flatMap(row => (row.marker ? [[row.address, row.marker.label] as [string, string]] : [])))
+            );
+          }}
+          color={color}
+          size="sm"
+        />
+      </div>
+
+      <div
+        ref={viewport}
+        onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+        className="overflow-y-auto bg-white rounded-md border border-gray-200"
+        style={{ height: Math.min(VIEWPORT_HEIGHT, pageSize * ROW_HEIGHT + 2) }}
+      >
+        <div className="relative" style={{ height: pageSize * ROW_HEIGHT }}>
+          {rows.map((row, index) => (
+            <div
+              key={row.offset.toString()}
+              onClick={() => setSelected(row.offset)}
+              className={`absolute left-0 right-0 flex items-center gap-3 px-3 text-xs sm:text-sm cursor-pointer hover:bg-gray-50 ${
+                row.offset === selected ? selectedClasses : ''
+              }`}
+              style={{ top: (firstVisible + index) * ROW_HEIGHT, height: ROW_HEIGHT }}
+            >
+              <span className="w-28 sm:w-40 shrink-0 text-right text-gray-400 font-mono">{groupDigits(row.offset)}</span>
+              <span className="font-mono text-gray-800 truncate">{row.address}</span>
+              {row.marker && (
+                <span className={`px-2 rounded-full text-xs whitespace-nowrap ${MARKER_CLASSES[row.marker.kind]}`}>
+                  {row.marker.label}
+                </span>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="bg-white rounded-md border border-gray-200 p-3 space-y-2">
+        <span className="block text-xs font-medium text-gray-500">
+          Export a slice (up to {groupDigits(EXPORT_LIMIT)} addresses, written in chunks)
+        </span>
+        <div className="flex flex-wrap items-center gap-2">
+          <label className="flex items-center gap-1 text-xs text-gray-500">
+            From
+            <input
+              type="text"
+              value={exportFrom}
+              onChange={(e) => setExportFrom(e.target.value)}
+              className={`${inputClasses} w-40 font-mono`}
+            />
+          </label>
+          <label className="flex items-center gap-1 text-xs text-gray-500">
+            Count
+            <input
+              type="text"
+              value={exportCount}
+              onChange={(e) => setExportCount(e.target.value)}
+              className={`${inputClasses} w-32 font-mono`}
+            />
+          </label>
+          <select
+            value={exportFormat}
+            onChange={(e) => setExportFormat(e.target.value as HostExportFormat)}
+            className={`${inputClasses} bg-white text-gray-700`}
+          >
+            <option value="text">Plain text</option>
+            <option value="csv">CSV with markers</option>
+          </select>
+          {exportProgress === null ? (
+            <button
+              onClick={startExport}
+              className={`flex items-center gap-1 px-3 py-1 rounded-md text-sm font-medium ${buttonClasses}`}
+            >
+              <ArrowDownTrayIcon className="h-4 w-4" />
+              Export Slice
+            </button>
+          ) : (
+            <>
+              <span className="text-xs text-gray-600">{exportProgress}%</span>
+              <button
+                onClick={() => {
+                  exportCancelled.current = true;
+                }}
+                className="px-3 py-1 rounded-md text-sm font-medium bg-gray-200 text-gray-700 hover:bg-gray-300"
+              >
+                Cancel
+              </button>
+            </>
+          )}
+        </div>
+        {exportError && <p className="text-xs text-red-600">{exportError}</p>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,200 @@
+import { useState, useEffect, useMemo } from 'react';
+import { ChevronLeftIcon, ChevronRightIcon } from '@heroicons/react/24/outline';
+import type { IPv6SubnetResults } from '../utils/ipv6';
+import {
+  getChildPrefixCount,
+  getChildPrefixes,
+  findChildPrefixIndex
+} from '../utils/ipv6Prefixes';
+
+const PAGE_SIZE = 64n;
+
+interface IPv6PrefixEnumeratorProps {
+  results: IPv6SubnetResults;
+  prefixLength: number;
+  initialTargetPrefix?: number | null;
+  onTargetPrefixChange?: (targetPrefix: number | null) => void;
+}
+
+export default function IPv6PrefixEnumerator({
+  results,
+  prefixLength,
+  initialTargetPrefix = null,
+  onTargetPrefixChange
+}: IPv6PrefixEnumeratorProps) {
+  const [targetValue, setTargetValue] = useState(initialTargetPrefix === null ? '' : initialTargetPrefix.toString());
+  const [page, setPage] = useState(0n);
+  const [highlighted, setHighlighted] = useState<bigint | null>(null);
+  const [jumpIndex, setJumpIndex] = useState('');
+  const [jumpAddress, setJumpAddress] = useState('');
+  const [jumpError, setJumpError] = useState<string | null>(null);
+
+  const targetPrefix = useMemo(() => {
+    if (!/^\d+$/.test(targetValue.trim())) return null;
+    const value = parseInt(targetValue, 10);
+    return value >= prefixLength && value <= 128 ? value : null;
+  }, [targetValue, prefixLength]);
+
+  const count = targetPrefix === null ? 0n : getChildPrefixCount(prefixLength, targetPrefix);
+  const pageCount = (count + PAGE_SIZE - 1n) / PAGE_SIZE;
+
+  useEffect(() => {
+    onTargetPrefixChange?.(targetPrefix);
+  }, [targetPrefix, onTargetPrefixChange]);
+
+  useEffect(() => {
+    setPage(0n);
+    setHighlighted(null);
+    setJumpError(null);
+  }, [results.networkAddress, prefixLength, targetPrefix]);
+
+  const prefixes = useMemo(() => {
+    if (targetPrefix === null) return [];
+    return getChildPrefixes(results.networkAddress, prefixLength, targetPrefix, page * PAGE_SIZE, Number(PAGE_SIZE));
+  }, [results.networkAddress, prefixLength, targetPrefix, page]);
+
+  const goToIndex = (index: bigint) => {
+    setPage(index / PAGE_SIZE);
+    setHighlighted(index);
+    setJumpError(null);
+  };
+
+  const handleJumpToIndex = () => {
+    const value = jumpIndex.trim();
+    if (!/^\d+$/.test(value) || BigInt(value) >= count) {
+      setJumpError(`Prefix index must be between 0 and ${(count - 1n).toLocaleString()}`);
+      return;
+    }
+    goToIndex(BigInt(value));
+  };
+
+  const handleJumpToAddress = () => {
+    if (targetPrefix === null) return;
+    const index = findChildPrefixIndex(results.networkAddress, prefixLength, targetPrefix, jumpAddress.trim());
+    if (index === null) {
+      setJumpError(`${jumpAddress} is not an address inside ${results.networkAddress}/${prefixLength}`);
+      return;
+    }
+    goToIndex(index);
+  };
+
+  const targetError = targetValue && targetPrefix === null
+    ? `Target prefix must be between /${prefixLength} and /128`
+    : null;
+
+  return (
+    <div className="mt-4 space-y-4">
+      <div className="flex flex-wrap items-center gap-2 sm:gap-4">
+        <label htmlFor="targetPrefix" className="text-sm font-medium text-gray-700">
+          Child prefix length
+        </label>
+        <input
+          type="text"
+          id="targetPrefix"
+          placeholder={`e.g., ${Math.min(prefixLength + 8, 128)}`}
+          value={targetValue}
+          onChange={(e) => setTargetValue(e.target.value)}
+          className={`w-32 rounded-md border ${
+            targetError ? 'border-red-300 focus:border-red-500' : 'border-gray-300 focus:border-purple-500'
+          } px-2 sm:px-4 py-2 focus:ring-1 focus:ring-purple-500 transition-colors text-sm`}
+        />
+        {targetPrefix !== null && (
+          <span className="text-xs sm:text-sm text-gray-600 break-all">
+            {count.toLocaleString()} × /{targetPrefix} prefixes
+          </span>
+        )}
+      </div>
+
+      {targetError && (
+        <div className="text-red-600 text-sm font-medium p-3 bg-red-50 rounded-md border border-red-200">
+          {targetError}
+        </div>
+      )}
+
+      {targetPrefix !== null && (
+        <>
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              type="text"
+              placeholder="Prefix #"
+              value={jumpIndex}
+              onChange={(e) => setJumpIndex(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleJumpToIndex()}
+              className="w-40 rounded-md border border-gray-300 px-2 py-1 text-sm focus:border-purple-500 focus:ring-1 focus:ring-purple-500"
+            />
+            <button
+              onClick={handleJumpToIndex}
+              className="px-3 py-1 rounded-md text-sm font-medium bg-gray-200 text-gray-700 hover:bg-gray-300"
+            >
+              Go
+            </button>
+            <input
+              type="text"
+              placeholder="Find address, e.g., 2001:db8:0:25::1"
+              value={jumpAddress}
+              onChange={(e) => setJumpAddress(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleJumpToAddress()}
+              className="w-64 rounded-md border border-gray-300 px-2 py-1 text-sm focus:border-purple-500 focus:ring-1 focus:ring-purple-500"
+            />
+            <button
+              onClick={handleJumpToAddress}
+              className="px-3 py-1 rounded-md text-sm font-medium bg-gray-200 text-gray-700 hover:bg-gray-300"
+            >
+              Find
+            </button>
+          </div>
+
+          {jumpError && (
+            <div className="text-red-600 text-sm font-medium p-3 bg-red-50 rounded-md border border-red-200">
+              {jumpError}
+            </div>
+          )}
+
+          <div className="overflow-x-auto max-h-96 overflow-y-auto">
+            <table className="min-w-full text-xs sm:text-sm text-left">
+              <thead className="bg-gray-100 text-gray-500 sticky top-0">
+                <tr>
+                  <th className="px-3 py-2 font-medium">#</th>
+                  <th className="px-3 py-2 font-medium">Prefix</th>
+                  <th className="px-3 py-2 font-medium">Last Address</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100 font-mono text-gray-700">
+                {prefixes.map(prefix => (
+                  <tr
+                    key={prefix.index.toString()}
+                    className={prefix.index === highlighted ? 'bg-yellow-100' : 'hover:bg-purple-50'}
+                  >
+                    <td className="px-3 py-1">{prefix.index.toLocaleString()}</td>
+                    <td className="px-3 py-1">{prefix.networkAddress}/{prefix.prefixLength}</td>
+                    <td className="px-3 py-1">{prefix.lastAddress}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex items-center justify-center gap-4 text-xs sm:text-sm text-gray-600">
+            <button
+              onClick={() => setPage(page - 1n)}
+              disabled={page === 0n}
+              className="p-1 rounded-md hover:bg-gray-200 disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              <ChevronLeftIcon className="h-4 w-4" />
+            </button>
+            <span className="break-all">
+              Page {(page + 1n).toLocaleString()} of {pageCount.toLocaleString()}
+            </span>
+            <button
+              onClick={() => setPage(page + 1n)}
+              disabled={page >= pageCount - 1n}
+              className="p-1 rounded-md hover:bg-gray-200 disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              <ChevronRightIcon className="h-4 w-4" />
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,9 +1,25 @@
 import { useState, useEffect, useMemo } from 'react';
-import { calculateIPv6Subnet, isValidIPv6Address, expandIPv6Address } from '../utils/ipv6';
+import { calculateIPv6Subnet, expandIPv6Address, parseIPv6 } from '../utils/ipv6';
 import type { IPv6SubnetResults } from '../utils/ipv6';
-import { InformationCircleIcon, ClipboardIcon, ArrowDownTrayIcon } from '@heroicons/react/24/outline';
+import { InformationCircleIcon, ClipboardIcon, ChevronDownIcon, ChevronUpIcon, LinkIcon } from '@heroicons/react/24/outline';
 import { Tooltip } from 'react-tooltip';
-import { generateIPv6CSV, downloadCSV } from '../utils/csvExport';
+import { ipv6SubnetExportData } from '../utils/export';
+import { classifyIPv6 } from '../utils/ipv6Classification';
+import { parseIPv6Strict, parsePrefixLengthStrict } from '../utils/addressParser';
+import { buildPermalinkURL, EMPTY_CALCULATOR, EMPTY_TOOLS } from '../utils/permalink';
+import type { CalculatorState, CalculatorView } from '../utils/permalink';
+import IPv6PrefixEnumerator from './IPv6PrefixEnumerator';
+import InputErrorHighlight from './InputErrorHighlight';
+import ExportMenu from './ExportMenu';
+import ConfigGenerator from './ConfigGenerator';
+import BitMapView from './BitMapView';
+import ReverseDnsPanel from './ReverseDnsPanel';
+import InterfaceIdTool from './InterfaceIdTool';
+import HostBrowser from './HostBrowser';
+import { ipv6BitMap } from '../utils/bitMap';
+import { configNetworkFromIPv6 } from '../utils/configTemplates';
+import { formatCIDR, makeBlock } from '../utils/cidr';
+import { ipv6Markers } from '../utils/hostBrowser';
 
 interface ResultCardProps {
   label: string;
@@ -68,31 +84,46 @@ function ResultCard({ label, value, tooltipContent, onCopy, copied, color = 'cya
   );
 }
 
-export default function IPv6SubnetCalculator() {
-  const [ipAddress, setIpAddress] = useState('');
-  const [prefixLength, setPrefixLength] = useState('');
+interface IPv6SubnetCalculatorProps {
+  initialState?: CalculatorState;
+  onStateChange?: (state: CalculatorState) => void;
+}
+
+export default function IPv6SubnetCalculator({ initialState = EMPTY_CALCULATOR, onStateChange }: IPv6SubnetCalculatorProps) {
+  const [ipAddress, setIpAddress] = useState(initialState.address);
+  const [prefixLength, setPrefixLength] = useState(initialState.mask);
   const [results, setResults] = useState<IPv6SubnetResults | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [copied, setCopied] = useState<string>('');
-  const [exportClicked, setExportClicked] = useState(false);
+  const [showHosts, setShowHosts] = useState(initialState.views.includes('hosts'));
+  const [showPrefixes, setShowPrefixes] = useState(initialState.views.includes('prefixes'));
+  const [showConfig, setShowConfig] = useState(initialState.views.includes('config'));
+  const [showBits, setShowBits] = useState(initialState.views.includes('bits'));
+  const [showDns, setShowDns] = useState(initialState.views.includes('dns'));
+  const [showInterfaceIds, setShowInterfaceIds] = useState(initialState.views.includes('eui64'));
+  const [childPrefix, setChildPrefix] = useState(initialState.splitPrefix);
+  const [linkCopied, setLinkCopied] = useState(false);
+
+  const parsedAddress = useMemo(() => parseIPv6Strict(ipAddress), [ipAddress]);
+  const parsedPrefix = useMemo(() => parsePrefixLengthStrict(prefixLength, 128), [prefixLength]);
+  const networkBits = parsedPrefix.ok ? parsedPrefix.value : 0;
 
   useEffect(() => {
     if (ipAddress && prefixLength) {
-      if (!isValidIPv6Address(ipAddress)) {
-        setError('Invalid IPv6 address format');
+      if (!parsedAddress.ok) {
+        setError(`Invalid IPv6 address: ${parsedAddress.error.message}`);
         setResults(null);
         return;
       }
 
-      const prefix = parseInt(prefixLength, 10);
-      if (isNaN(prefix) || prefix < 0 || prefix > 128) {
-        setError('Invalid prefix length (must be between 0 and 128)');
+      if (!parsedPrefix.ok) {
+        setError(`Invalid prefix length: ${parsedPrefix.error.message}`);
         setResults(null);
         return;
       }
 
       setError(null);
-      const result = calculateIPv6Subnet(ipAddress, prefix);
+      const result = calculateIPv6Subnet(ipAddress, parsedPrefix.value);
       if (result) {
         setResults(result);
       } else {
@@ -102,7 +133,7 @@ export default function IPv6SubnetCalculator() {
       setResults(null);
       setError(null);
     }
-  }, [ipAddress, prefixLength]);
+  }, [ipAddress, prefixLength, parsedAddress, parsedPrefix]);
 
   const copyToClipboard = (text: string, label: string) => {
     navigator.clipboard.writeText(text);
@@ -110,13 +141,62 @@ export default function IPv6SubnetCalculator() {
     setTimeout(() => setCopied(''), 2000);
   };
 
-  const handleExportCSV = () => {
-    if (results) {
-      setExportClicked(true);
-      const csv = generateIPv6CSV(results);
-      downloadCSV(csv, `ipv6-subnet-calculation-${new Date().toISOString()}.csv`);
-      setTimeout(() => setExportClicked(false), 1000);
-    }
+  const classification = useMemo(() => {
+    if (!parsedAddress.ok) return null;
+    return classifyIPv6(ipAddress, results ? results.prefixLength : 64);
+  }, [ipAddress, parsedAddress, results]);
+
+  const formatScope = (scope: string) =>
+    scope.split('-').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join('-');
+
+  const getReachability = () => {
+    if (!classification) return undefined;
+    return [
+      classification.forwardable ? 'Forwardable' : 'Not forwardable',
+      classification.globallyReachable ? 'globally reachable' : 'not globally reachable',
+      ...(classification.reservedByProtocol ? ['reserved by protocol'] : [])
+    ].join(', ');
+  };
+
+  const getMulticastDetails = () => {
+    if (!classification?.multicast) return undefined;
+    const { flags, rendezvousPoint, prefixBased, transient, scopeValue, scope } = classification.multicast;
+    const flagNames = [
+      ...(rendezvousPoint ? ['R'] : []),
+      ...(prefixBased ? ['P'] : []),
+      ...(transient ? ['T'] : [])
+    ];
+    return `Flags 0x${flags.toString(16)} (${flagNames.length ? flagNames.join(', ') : 'well-known'}), ` +
+      `scope 0x${scopeValue.toString(16)} (${formatScope(scope)})`;
+  };
+
+  const hostBlock = useMemo(() => {
+    const network = results ? parseIPv6(results.networkAddress) : null;
+    return results && network !== null ? makeBlock(6, network, results.prefixLength) : null;
+  }, [results]);
+  const hostMarkers = useMemo(() => (hostBlock ? ipv6Markers(hostBlock) : []), [hostBlock]);
+
+  const calculatorState = useMemo<CalculatorState>(() => {
+    const views: CalculatorView[] = [];
+    if (showHosts) views.push('hosts');
+    if (showPrefixes) views.push('prefixes');
+    if (showConfig) views.push('config');
+    if (showBits) views.push('bits');
+    if (showDns) views.push('dns');
+    if (showInterfaceIds) views.push('eui64');
+    return { address: ipAddress, mask: prefixLength, views, splitPrefix: childPrefix };
+  }, [ipAddress, prefixLength, showHosts, showPrefixes, showConfig, showBits, showDns, showInterfaceIds, childPrefix]);
+
+  useEffect(() => {
+    onStateChange?.(calculatorState);
+  }, [calculatorState, onStateChange]);
+
+  const handleCopyLink = () => {
+    navigator.clipboard.writeText(
+      buildPermalinkURL({ mode: 'ipv6', ipv4: EMPTY_CALCULATOR, ipv6: calculatorState, tools: EMPTY_TOOLS }, window.location)
+    );
+    setLinkCopied(true);
+    setTimeout(() => setLinkCopied(false), 2000);
   };
 
   return (
@@ -145,11 +225,14 @@ export default function IPv6SubnetCalculator() {
               value={ipAddress}
               onChange={(e) => setIpAddress(e.target.value)}
               className={`w-full rounded-md border ${
-                ipAddress && !isValidIPv6Address(ipAddress)
+                ipAddress && !parsedAddress.ok
                   ? 'border-red-300 focus:border-red-500'
                   : 'border-gray-300 focus:border-purple-500'
               } px-2 sm:px-4 py-2 focus:ring-1 focus:ring-purple-500 transition-colors text-sm sm:text-base`}
             />
+            {ipAddress && !parsedAddress.ok && (
+              <InputErrorHighlight text={ipAddress} error={parsedAddress.error} />
+            )}
           </div>
 
           {/* Prefix Length Input */}
@@ -174,7 +257,7 @@ export default function IPv6SubnetCalculator() {
                 value={prefixLength}
                 onChange={(e) => setPrefixLength(e.target.value)}
                 className={`flex-1 rounded-md border ${
-                  prefixLength && (isNaN(parseInt(prefixLength, 10)) || parseInt(prefixLength, 10) < 0 || parseInt(prefixLength, 10) > 128)
+                  prefixLength && !parsedPrefix.ok
                     ? 'border-red-300 focus:border-red-500'
                     : 'border-gray-300 focus:border-purple-500'
                 } px-2 sm:px-4 py-2 focus:ring-1 focus:ring-purple-500 transition-colors text-sm sm:text-base`}
@@ -190,6 +273,9 @@ export default function IPv6SubnetCalculator() {
                 ))}
               </select>
             </div>
+            {prefixLength && !parsedPrefix.ok && (
+              <InputErrorHighlight text={prefixLength} error={parsedPrefix.error} />
+            )}
           </div>
         </div>
 
@@ -204,14 +290,33 @@ export default function IPv6SubnetCalculator() {
           <div 
             className="absolute inset-y-0 left-0 bg-purple-500 transition-all duration-300"
             style={{ 
-              width: `${(parseInt(prefixLength || '0', 10) / 128) * 100}%`,
+              width: `${(networkBits / 128) * 100}%`,
             }}
           />
           <div className="absolute inset-0 flex items-center justify-center text-xs font-medium text-gray-900">
-            Network Bits: {prefixLength || '0'} / Interface ID Bits: {128 - parseInt(prefixLength || '0', 10)}
+            Network Bits: {networkBits} / Interface ID Bits: {128 - networkBits}
           </div>
         </div>
 
+        {results && (
+          <div className="bg-gray-50 p-3 sm:p-4 rounded-md">
+            <button
+              onClick={() => setShowBits(!showBits)}
+              className="w-full flex items-center justify-between text-gray-700 hover:text-gray-900"
+            >
+              <span className="text-xs sm:text-sm font-medium">
+                {showBits ? 'Hide' : 'Show'} Bit Map
+              </span>
+              {showBits ? (
+                <ChevronUpIcon className="h-4 w-4 sm:h-5 sm:w-5" />
+              ) : (
+                <ChevronDownIcon className="h-4 w-4 sm:h-5 sm:w-5" />
+              )}
+            </button>
+            {showBits && <BitMapView map={ipv6BitMap(ipAddress.trim(), results.prefixLength)} color="purple" />}
+          </div>
+        )}
+
         {/* Results Section */}
         <div className="space-y-4">
           <div className="flex items-center">
@@ -219,19 +324,25 @@ export default function IPv6SubnetCalculator() {
               <h2 className="text-lg sm:text-xl font-semibold text-gray-800">Network Information</h2>
             </div>
             <button
-              onClick={handleExportCSV}
+              onClick={handleCopyLink}
               disabled={!results}
-              className={`flex items-center gap-2 px-4 py-2 rounded-md text-sm font-medium transition-all ${
-                exportClicked
-                  ? 'bg-green-500 text-white transform scale-105'
+              className={`flex items-center gap-2 px-4 py-2 mr-2 rounded-md text-sm font-medium transition-all ${
+                linkCopied
+                  ? 'bg-green-500 text-white'
                   : results
-                    ? 'bg-purple-500 text-white hover:bg-purple-600'
+                    ? 'bg-white text-purple-600 border border-purple-500 hover:bg-purple-50'
                     : 'bg-gray-200 text-gray-400 cursor-not-allowed'
               }`}
             >
-              <ArrowDownTrayIcon className="h-4 w-4" />
-              Save as CSV
+              <LinkIcon className="h-4 w-4" />
+              {linkCopied ? 'Link Copied!' : 'Copy Link'}
             </button>
+            <ExportMenu
+              filename="ipv6-subnet-calculation"
+              getData={() => (results ? ipv6SubnetExportData(results) : null)}
+              disabled={!results}
+              color="purple"
+            />
           </div>
           
           <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4">
@@ -263,9 +374,180 @@ export default function IPv6SubnetCalculator() {
               label="Total Addresses"
               value={results?.totalAddresses}
               tooltipContent="Total number of addresses in the subnet (2^(128-prefix))"
+              onCopy={results ? () => copyToClipboard(results.addressCount.toString(), 'total') : undefined}
+              copied={copied === 'total'}
               color="indigo"
             />
           </div>
+
+          {/* Address Type Section */}
+          {classification && (
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4">
+              <ResultCard
+                label="Address Type"
+                value={`${classification.name} (${classification.rfc})`}
+                tooltipContent="Most specific IANA registry block containing the address"
+                color="pink"
+              />
+              <ResultCard
+                label="Scope"
+                value={formatScope(classification.scope)}
+                tooltipContent="How far the address is meaningful: interface, link, site, organization or global"
+                color="cyan"
+              />
+              <ResultCard
+                label="Reachability"
+                value={getReachability()}
+                tooltipContent="Whether routers may forward the address and whether it is reachable from the public Internet"
+                color="teal"
+              />
+              {classification.multicast && (
+                <ResultCard
+                  label="Multicast Flags and Scope"
+                  value={getMulticastDetails()}
+                  tooltipContent="Decoded flag (0RPT) and scope nibbles from the second byte of the multicast address"
+                  color="orange"
+                />
+              )}
+              {classification.unicastLayout && (
+                <>
+                  <ResultCard
+                    label="Routing Prefix"
+                    value={`${classification.unicastLayout.routingPrefix}/${classification.unicastLayout.routingPrefixLength}`}
+                    tooltipContent="Globally routed portion of the address, up to the prefix length (at most /64)"
+                    onCopy={() => copyToClipboard(`${classification.unicastLayout!.routingPrefix}/${classification.unicastLayout!.routingPrefixLength}`, 'routing')}
+                    copied={copied === 'routing'}
+                    color="green"
+                  />
+                  <ResultCard
+                    label="Subnet ID"
+                    value={classification.unicastLayout.subnetIdBits > 0
+                      ? `${classification.unicastLayout.subnetId} (${classification.unicastLayout.subnetIdBits} bits)`
+                      : 'None (prefix is /64 or longer)'}
+                    tooltipContent="Bits between the routing prefix and the 64-bit interface ID"
+                    color="indigo"
+                  />
+                  <ResultCard
+                    label="Interface ID"
+                    value={classification.unicastLayout.interfaceId}
+                    tooltipContent="Low 64 bits identifying the interface on the link"
+                    onCopy={() => copyToClipboard(classification.unicastLayout!.interfaceId, 'interface')}
+                    copied={copied === 'interface'}
+                    color="cyan"
+                  />
+                </>
+              )}
+            </div>
+          )}
+
+          {/* Addresses Section */}
+          {results && hostBlock && (
+            <div className="bg-gray-50 p-3 sm:p-4 rounded-md">
+              <button
+                onClick={() => setShowHosts(!showHosts)}
+                className="w-full flex items-center justify-between text-gray-700 hover:text-gray-900"
+              >
+                <span className="text-xs sm:text-sm font-medium">
+                  {showHosts ? 'Hide' : 'Show'} Addresses ({results.totalAddresses} addresses)
+                </span>
+                {showHosts ? (
+                  <ChevronUpIcon className="h-4 w-4 sm:h-5 sm:w-5" />
+                ) : (
+                  <ChevronDownIcon className="h-4 w-4 sm:h-5 sm:w-5" />
+                )}
+              </button>
+              {showHosts && (
+                <HostBrowser key={formatCIDR(hostBlock)} block={hostBlock} markers={hostMarkers} color="purple" />
+              )}
+            </div>
+          )}
+
+          {/* Child Prefix Section */}
+          {results && (
+            <div className="bg-gray-50 p-3 sm:p-4 rounded-md">
+              <button
+                onClick={() => setShowPrefixes(!showPrefixes)}
+                className="w-full flex items-center justify-between text-gray-700 hover:text-gray-900"
+              >
+                <span className="text-xs sm:text-sm font-medium">
+                  {showPrefixes ? 'Hide' : 'Show'} Child Prefixes ({results.networkAddress}/{results.prefixLength})
+                </span>
+                {showPrefixes ? (
+                  <ChevronUpIcon className="h-4 w-4 sm:h-5 sm:w-5" />
+                ) : (
+                  <ChevronDownIcon className="h-4 w-4 sm:h-5 sm:w-5" />
+                )}
+              </button>
+              {showPrefixes && (
+                <IPv6PrefixEnumerator
+                  results={results}
+                  prefixLength={results.prefixLength}
+                  initialTargetPrefix={childPrefix}
+                  onTargetPrefixChange={setChildPrefix}
+                />
+              )}
+            </div>
+          )}
+
+          {/* Config Generator Section */}
+          {results && (
+            <div className="bg-gray-50 p-3 sm:p-4 rounded-md">
+              <button
+                onClick={() => setShowConfig(!showConfig)}
+                className="w-full flex items-center justify-between text-gray-700 hover:text-gray-900"
+              >
+                <span className="text-xs sm:text-sm font-medium">
+                  {showConfig ? 'Hide' : 'Generate'} Config
+                </span>
+                {showConfig ? (
+                  <ChevronUpIcon className="h-4 w-4 sm:h-5 sm:w-5" />
+                ) : (
+                  <ChevronDownIcon className="h-4 w-4 sm:h-5 sm:w-5" />
+                )}
+              </button>
+              {showConfig && <ConfigGenerator network={configNetworkFromIPv6(results)} color="purple" />}
+            </div>
+          )}
+
+          {/* Reverse DNS Section */}
+          {results && (
+            <div className="bg-gray-50 p-3 sm:p-4 rounded-md">
+              <button
+                onClick={() => setShowDns(!showDns)}
+                className="w-full flex items-center justify-between text-gray-700 hover:text-gray-900"
+              >
+                <span className="text-xs sm:text-sm font-medium">
+                  {showDns ? 'Hide' : 'Show'} Reverse DNS
+                </span>
+                {showDns ? (
+                  <ChevronUpIcon className="h-4 w-4 sm:h-5 sm:w-5" />
+                ) : (
+                  <ChevronDownIcon className="h-4 w-4 sm:h-5 sm:w-5" />
+                )}
+              </button>
+              {showDns && <ReverseDnsPanel network={configNetworkFromIPv6(results)} color="purple" />}
+            </div>
+          )}
+
+          {/* Interface ID Section */}
+          {results && (
+            <div className="bg-gray-50 p-3 sm:p-4 rounded-md">
+              <button
+                onClick={() => setShowInterfaceIds(!showInterfaceIds)}
+                className="w-full flex items-center justify-between text-gray-700 hover:text-gray-900"
+              >
+                <span className="text-xs sm:text-sm font-medium">
+                  {showInterfaceIds ? 'Hide' : 'Show'} EUI-64 / SLAAC Interface IDs
+                </span>
+                {showInterfaceIds ? (
+                  <ChevronUpIcon className="h-4 w-4 sm:h-5 sm:w-5" />
+                ) : (
+                  <ChevronDownIcon className="h-4 w-4 sm:h-5 sm:w-5" />
+                )}
+              </button>
+              {showInterfaceIds && <InterfaceIdTool results={results} />}
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,29 @@
+import type { ParseError } from '../utils/addressParser';
+
+interface InputErrorHighlightProps {
+  text: string;
+  error: ParseError;
+}
+
+// Echoes the input under the field with the offending characters marked; an
+// empty span (something is missing) is shown as a caret at that position
+export default function InputErrorHighlight({ text, error }: InputErrorHighlightProps) {
+  const before = text.substring(0, error.start);
+  const marked = text.substring(error.start, error.end);
+  const after = text.substring(error.end);
+
+  return (
+    <div className="text-left text-xs sm:text-sm">
+      <p className="font-mono text-gray-700 whitespace-pre-wrap break-all">
+        {before}
+        {marked ? (
+          <mark className="bg-red-200 text-red-900 rounded-sm underline decoration-wavy decoration-red-500">{marked}</mark>
+        ) : (
+          <mark className="bg-transparent text-red-600 font-bold">^</mark>
+        )}
+        {after}
+      </p>
+      <p className="text-red-600">{error.message}</p>
+    </div>
+  );
+}
@@ -0,0 +1,258 @@
+import { useEffect, useMemo, useState } from 'react';
+import { formatIPv6, parseIPv6 } from '../utils/ipv6';
+import type { IPv6SubnetResults } from '../utils/ipv6';
+import {
+  LINK_LOCAL_PREFIX,
+  convertMACList,
+  detectEUI64,
+  formatInterfaceId,
+  formatMAC,
+  interfaceAddress,
+  macToInterfaceId,
+  parseMAC,
+  stableInterfaceId
+} from '../utils/eui64';
+import type { StableIdResult } from '../utils/eui64';
+import { eui64ExportData } from '../utils/export';
+import ExportMenu from './ExportMenu';
+
+interface InterfaceIdToolProps {
+  results: IPv6SubnetResults;
+}
+
+function ResultLine({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="flex flex-col sm:flex-row sm:items-baseline gap-1 sm:gap-3">
+      <span className="text-xs font-medium text-gray-500 sm:w-40 shrink-0">{label}</span>
+      <span className="font-mono text-xs sm:text-sm text-gray-800 break-all">{value}</span>
+    </div>
+  );
+}
+
+const inputClasses = 'w-full rounded-md border border-gray-300 px-2 py-1 text-sm font-mono focus:ring-1 focus:border-purple-500 focus:ring-purple-500';
+
+export default function InterfaceIdTool({ results }: InterfaceIdToolProps) {
+  const [macText, setMacText] = useState('');
+  const [addressText, setAddressText] = useState('');
+  const [secret, setSecret] = useState('');
+  const [interfaceName, setInterfaceName] = useState('eth0');
+  const [networkId, setNetworkId] = useState('');
+  const [dadCounter, setDadCounter] = useState('0');
+  const [stableId, setStableId] = useState<StableIdResult | null>(null);
+  const [stableError, setStableError] = useState<string | null>(null);
+  const [batchText, setBatchText] = useState('');
+
+  // SLAAC only works on a /64; a shorter prefix uses its first /64
+  const prefix = results.prefixLength <= 64 ? parseIPv6(results.networkAddress) : null;
+  const prefixLabel = prefix === null ? '' : `${formatIPv6(prefix)}/64`;
+
+  const mac = macText.trim() ? parseMAC(macText) : null;
+  const macError = macText.trim() && !mac
+    ? 'Enter a MAC address such as 00:1a:2b:3c:4d:5e, 00-1a-2b-3c-4d-5e or 001a.2b3c.4d5e'
+    : mac?.multicast ? 'Multicast MAC addresses cannot be used for interface IDs' : null;
+  const macInterfaceId = mac && !mac.multicast ? macToInterfaceId(mac.value) : null;
+
+  const address = addressText.trim() ? parseIPv6(addressText.trim()) : null;
+  const detection = address !== null ? detectEUI64(address) : null;
+
+  useEffect(() => {
+    setStableId(null);
+    setStableError(null);
+    if (prefix === null || !secret) return;
+
+    const counter = Number(dadCounter);
+    if (!/^\d+$/.test(dadCounter.trim()) || counter > 255) {
+      setStableError('DAD counter must be a whole number from 0 to 255');
+      return;
+    }
+
+    let cancelled = false;
+    stableInterfaceId({ prefix, interfaceName, networkId, dadCounter: counter, secret })
+      .then(result => {
+        if (!cancelled) setStableId(result);
+      })
+      .catch((error: unknown) => {
+        // crypto.subtle is only available in secure contexts (https or localhost)
+        if (!cancelled) setStableError(error instanceof Error ? error.message : 'Could not compute the interface ID');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [prefix, secret, interfaceName, networkId, dadCounter]);
+
+  const batchRows = useMemo(
+    () => (prefix === null ? [] : convertMACList(batchText, prefix)),
+    [batchText, prefix]
+  );
+  const batchErrors = batchRows.filter(row => row.error).length;
+
+  return (
+    <div className="mt-4 space-y-6 text-left">
+      {prefix === null ? (
+        <div className="text-red-600 text-sm font-medium p-3 bg-red-50 rounded-md border border-red-200">
+          SLAAC and stable interface IDs need a /64 or shorter prefix; /{results.prefixLength} leaves fewer than 64 interface ID bits.
+        </div>
+      ) : results.prefixLength < 64 && (
+        <p className="text-xs text-gray-500">
+          Addresses below use the first /64 of the network, <span className="font-mono">{prefixLabel}</span>.
+        </p>
+      )}
+
+      {prefix !== null && (
+        <div className="space-y-2">
+          <h3 className="text-sm font-medium text-gray-700">Modified EUI-64 from MAC</h3>
+          <input
+            type="text"
+            value={macText}
+            onChange={(e) => setMacText(e.target.value)}
+            placeholder="00:1a:2b:3c:4d:5e"
+            className={inputClasses}
+          />
+          {macError && <p className="text-xs text-red-600">{macError}</p>}
+          {mac && macInterfaceId !== null && (
+            <div className="space-y-1">
+              <ResultLine
+                label="MAC"
+                value={`${formatMAC(mac.value)} (${mac.universal ? 'universally' : 'locally'} administered)`}
+              />
+              <ResultLine label="Interface ID" value={`${formatInterfaceId(macInterfaceId)} (U/L bit flipped)`} />
+              <ResultLine label="SLAAC Address" value={formatIPv6(interfaceAddress(prefix, macInterfaceId))} />
+              <ResultLine label="Link-Local Address" value={formatIPv6(interfaceAddress(LINK_LOCAL_PREFIX, macInterfaceId))} />
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <h3 className="text-sm font-medium text-gray-700">Recover MAC from Address</h3>
+        <input
+          type="text"
+          value={addressText}
+          onChange={(e) => setAddressText(e.target.value)}
+          placeholder="fe80::21a:2bff:fe3c:4d5e"
+          className={inputClasses}
+        />
+        {addressText.trim() && address === null && <p className="text-xs text-red-600">Enter a valid IPv6 address</p>}
+        {address !== null && (detection ? (
+          <div className="space-y-1">
+            <ResultLine label="MAC" value={formatMAC(detection.mac)} />
+            <ResultLine
+              label="Administration"
+              value={detection.universal ? 'Universal (burned-in address)' : 'Local (U/L bit clear in the interface ID)'}
+            />
+          </div>
+        ) : (
+          <p className="text-xs text-gray-500">
+            The interface ID has no ff:fe in the middle, so it was not derived from a MAC (privacy, stable or manual ID).
+          </p>
+        ))}
+      </div>
+
+      {prefix !== null && (
+        <div className="space-y-2">
+          <h3 className="text-sm font-medium text-gray-700">Stable Opaque Interface ID (RFC 7217)</h3>
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-2 sm:gap-4">
+            <label className="space-y-1">
+              <span className="block text-xs font-medium text-gray-500">Secret Key</span>
+              <input type="password" value={secret} onChange={(e) => setSecret(e.target.value)} className={inputClasses} />
+            </label>
+            <label className="space-y-1">
+              <span className="block text-xs font-medium text-gray-500">Interface</span>
+              <input type="text" value={interfaceName} onChange={(e) => setInterfaceName(e.target.value)} className={inputClasses} />
+            </label>
+            <label className="space-y-1">
+              <span className="block text-xs font-medium text-gray-500">Network ID (optional)</span>
+              <input
+                type="text"
+                value={networkId}
+                onChange={(e) => setNetworkId(e.target.value)}
+                placeholder="e.g. SSID"
+                className={inputClasses}
+              />
+            </label>
+            <label className="space-y-1">
+              <span className="block text-xs font-medium text-gray-500">DAD Counter</span>
+              <input type="text" value={dadCounter} onChange={(e) => setDadCounter(e.target.value)} className={inputClasses} />
+            </label>
+          </div>
+          {stableError && <p className="text-xs text-red-600">{stableError}</p>}
+          {!secret && <p className="text-xs text-gray-500">Enter a secret key to generate an interface ID.</p>}
+          {stableId && (
+            <div className="space-y-1">
+              <ResultLine label="Interface ID" value={formatInterfaceId(stableId.interfaceId)} />
+              <ResultLine label="Address" value={formatIPv6(interfaceAddress(prefix, stableId.interfaceId))} />
+              {stableId.dadCounter.toString() !== dadCounter.trim() && (
+                <ResultLine label="DAD Counter Used" value={`${stableId.dadCounter} (skipped a reserved interface ID)`} />
+              )}
+            </div>
+          )}
+          <p className="text-xs text-gray-500">
+            SHA-256 over the prefix, interface, network ID, DAD counter and secret. The result is stable for this tool but
+            will not match an operating system's own implementation.
+          </p>
+        </div>
+      )}
+
+      {prefix !== null && (
+        <div className="space-y-2">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <h3 className="text-sm font-medium text-gray-700">Batch Convert MAC Addresses</h3>
+            <ExportMenu
+              filename={`eui64-${prefixLabel}`}
+              getData={() => eui64ExportData(batchRows)}
+              disabled={batchRows.length === 0}
+              disabledReason="Paste MAC addresses first"
+              color="purple"
+              size="sm"
+            />
+          </div>
+          <textarea
+            rows={5}
+            value={batchText}
+            onChange={(e) => setBatchText(e.target.value)}
+            placeholder={'One MAC per line, optionally followed by a label\n00:1a:2b:3c:4d:5e printer-2\n001a.2b3c.4d5f'}
+            className={`${inputClasses} text-xs sm:text-sm`}
+          />
+          {batchRows.length > 0 && (
+            <>
+              <p className="text-xs text-gray-500">
+                {batchRows.length} MAC address{batchRows.length === 1 ? '' : 'es'}
+                {batchErrors > 0 && <span className="text-red-600">, {batchErrors} with errors</span>}
+              </p>
+              <div className="overflow-x-auto max-h-96 bg-white rounded-md border border-gray-200">
+                <table className="min-w-full text-xs sm:text-sm">
+                  <thead className="bg-gray-50 sticky top-0">
+                    <tr className="text-left text-gray-500">
+                      <th className="px-2 py-1 font-medium">Line</th>
+                      <th className="px-2 py-1 font-medium">MAC</th>
+                      <th className="px-2 py-1 font-medium">Label</th>
+                      <th className="px-2 py-1 font-medium">Address</th>
+                      <th className="px-2 py-1 font-medium">Link-Local</th>
+                    </tr>
+                  </thead>
+                  <tbody className="font-mono">
+                    {batchRows.map(row => (
+                      <tr key={row.line} className="border-t border-gray-100">
+                        <td className="px-2 py-1 text-gray-500">{row.line}</td>
+                        <td className="px-2 py-1">{row.mac || row.input}</td>
+                        <td className="px-2 py-1 font-sans">{row.label}</td>
+                        {row.error ? (
+                          <td colSpan={2} className="px-2 py-1 font-sans text-red-600">{row.error}</td>
+                        ) : (
+                          <>
+                            <td className="px-2 py-1">{row.address}</td>
+                            <td className="px-2 py-1">{row.linkLocal}</td>
+                          </>
+                        )}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
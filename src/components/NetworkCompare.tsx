@@ -0,0 +1,235 @@
+import { useEffect, useMemo, useState } from 'react';
+import { InformationCircleIcon, ClipboardIcon } from '@heroicons/react/24/outline';
+import { Tooltip } from 'react-tooltip';
+import { blockEnd, blockSize, formatAddress, formatCIDR, rangeSize, rangeToBlocks } from '../utils/cidr';
+import type { AddressRange } from '../utils/cidr';
+import { groupDigits } from '../utils/ipv6';
+import { compareNetworks, formatRange, parseCompareInput } from '../utils/compare';
+import type { CompareInput, NetworkRelationship } from '../utils/compare';
+import type { ToolState } from '../utils/permalink';
+
+const RELATIONSHIPS: Record<NetworkRelationship, { label: string; describe: string; classes: string }> = {
+  identical: { label: 'Identical', describe: 'A and B cover exactly the same addresses', classes: 'bg-green-100 text-green-800' },
+  contains: { label: 'A contains B', describe: 'Every address in B is also in A', classes: 'bg-blue-100 text-blue-800' },
+  'contained-by': { label: 'A is contained by B', describe: 'Every address in A is also in B', classes: 'bg-blue-100 text-blue-800' },
+  partial: { label: 'Partially overlapping', describe: 'A and B share some addresses, and each has addresses the other lacks', classes: 'bg-red-100 text-red-800' },
+  'adjacent-mergeable': { label: 'Adjacent, mergeable', describe: 'A and B touch and together form a single prefix', classes: 'bg-green-100 text-green-800' },
+  'adjacent-not-mergeable': { label: 'Adjacent, not mergeable', describe: 'A and B touch, but together they do not form a single aligned prefix', classes: 'bg-amber-100 text-amber-800' },
+  disjoint: { label: 'Disjoint', describe: 'A and B share no addresses and there is a gap between them', classes: 'bg-gray-200 text-gray-700' }
+};
+
+const inputClasses = 'w-full rounded-md border px-2 sm:px-4 py-2 focus:ring-1 focus:ring-orange-500 transition-colors text-sm sm:text-base font-mono';
+
+// Label/value rows describing one side, taken from the calculator results
+// when the input is a single prefix
+function detailRows(input: CompareInput): [string, string][] {
+  const { details, range } = input;
+  if (details?.version === 4) {
+    const { results } = details;
+    return [
+      ['Network', `${results.networkAddress}/${results.maskBits}`],
+      ['Broadcast', results.broadcastAddress],
+      ['First Usable', results.firstHostIP || 'None'],
+      ['Last Usable', results.lastHostIP || 'None'],
+      ['Wildcard Mask', results.wildcardMask],
+      ['Total Addresses', groupDigits(results.totalAddresses)],
+      ['Usable Hosts', groupDigits(results.totalHosts)]
+    ];
+  }
+  if (details?.version === 6) {
+    const { results } = details;
+    return [
+      ['Network', `${results.networkAddress}/${results.prefixLength}`],
+      ['Last Address', results.lastAddress],
+      ['Total Addresses', groupDigits(results.addressCount)]
+    ];
+  }
+  return [
+    ['Range', formatRange(range)],
+    ['Total Addresses', groupDigits(rangeSize(range))],
+    ['CIDR Blocks', rangeToBlocks(range).map(formatCIDR).join(', ')]
+  ];
+}
+
+interface NetworkCompareProps {
+  initialState?: ToolState<'compare'>;
+  onStateChange?: (state: ToolState<'compare'>) => void;
+}
+
+export default function NetworkCompare({ initialState = {}, onStateChange }: NetworkCompareProps) {
+  const [textA, setTextA] = useState(initialState.a ?? '');
+  const [textB, setTextB] = useState(initialState.b ?? '');
+  const [copied, setCopied] = useState('');
+
+  useEffect(() => {
+    onStateChange?.({ a: textA, b: textB });
+  }, [textA, textB, onStateChange]);
+
+  const parsedA = useMemo(() => (textA.trim() ? parseCompareInput(textA) : { input: null, error: null }), [textA]);
+  const parsedB = useMemo(() => (textB.trim() ? parseCompareInput(textB) : { input: null, error: null }), [textB]);
+  const a = parsedA.input;
+  const b = parsedB.input;
+
+  const errors = [parsedA.error && `A: ${parsedA.error}`, parsedB.error && `B: ${parsedB.error}`].filter(
+    (error): error is string => !!error
+  );
+  const versionMismatch = a && b && a.range.version !== b.range.version;
+  if (versionMismatch) errors.push('Both networks must be the same IP version');
+
+  const comparison = useMemo(
+    () => (a && b && a.range.version === b.range.version ? compareNetworks(a.range, b.range) : null),
+    [a, b]
+  );
+
+  const copyToClipboard = (text: string, label: string) => {
+    navigator.clipboard.writeText(text);
+    setCopied(label);
+    setTimeout(() => setCopied(''), 2000);
+  };
+
+  const rangeCard = (title: string, id: string, range: AddressRange | null, empty: string) => {
+    const blocks = range ? rangeToBlocks(range).map(formatCIDR) : [];
+    return (
+      <div className="bg-orange-50 p-3 rounded-md space-y-1">
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-xs sm:text-sm font-medium text-gray-600">{title}</span>
+          {range && (
+            <button
+              onClick={() => copyToClipboard(blocks.join('\n'), id)}
+              className="p-1 rounded-md hover:bg-orange-100"
+              title={copied === id ? 'Copied!' : 'Copy as CIDR blocks'}
+            >
+              <ClipboardIcon className={`h-4 w-4 ${copied === id ? 'text-green-500' : 'text-gray-400'}`} />
+            </button>
+          )}
+        </div>
+        {range ? (
+          <>
+            <div className="text-sm sm:text-base font-semibold text-gray-900 font-mono break-all">{formatRange(range)}</div>
+            <div className="text-xs text-gray-500">{groupDigits(rangeSize(range))} addresses</div>
+            <div className="text-xs font-mono text-gray-700 break-all">{blocks.join(', ')}</div>
+          </>
+        ) : (
+          <div className="text-sm text-gray-500">{empty}</div>
+        )}
+      </div>
+    );
+  };
+
+  const rowsA = a ? detailRows(a) : [];
+  const rowsB = b ? detailRows(b) : [];
+  const labels = [...new Set([...rowsA, ...rowsB].map(([label]) => label))];
+  const valueOf = (rows: [string, string][], label: string) => rows.find(([key]) => key === label)?.[1] ?? '';
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-4 sm:p-6 md:p-8 w-full max-w-[95vw] mx-auto">
+      <div className="space-y-6 sm:space-y-8 text-left">
+        {/* Input Section */}
+        <div className="space-y-2">
+          <div className="flex items-center gap-2">
+            <span className="block text-sm font-medium text-gray-700">Networks</span>
+            <InformationCircleIcon
+              className="h-4 w-4 text-gray-400 cursor-help"
+              data-tooltip-id="compare-input-tooltip"
+            />
+            <Tooltip id="compare-input-tooltip" place="top">
+              A CIDR such as 10.1.0.0/20, a single address, or a start-end range. Both must be IPv4 or both IPv6.
+            </Tooltip>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 sm:gap-6">
+            <input
+              type="text"
+              aria-label="Network A"
+              placeholder="A, e.g., 10.1.0.0/20"
+              value={textA}
+              onChange={(e) => setTextA(e.target.value)}
+              className={`${inputClasses} ${parsedA.error ? 'border-red-300 focus:border-red-500' : 'border-gray-300 focus:border-orange-500'}`}
+            />
+            <input
+              type="text"
+              aria-label="Network B"
+              placeholder="B, e.g., 10.1.12.0/22"
+              value={textB}
+              onChange={(e) => setTextB(e.target.value)}
+              className={`${inputClasses} ${parsedB.error ? 'border-red-300 focus:border-red-500' : 'border-gray-300 focus:border-orange-500'}`}
+            />
+          </div>
+        </div>
+
+        {errors.length > 0 && (
+          <div className="text-red-600 text-sm font-medium p-3 bg-red-50 rounded-md border border-red-200">
+            <ul className="list-disc list-inside">
+              {errors.map(error => <li key={error}>{error}</li>)}
+            </ul>
+          </div>
+        )}
+
+        {/* Relationship Section */}
+        {comparison && (
+          <div className="space-y-4">
+            <h2 className="text-lg sm:text-xl font-semibold text-gray-800">Relationship</h2>
+            <div className="flex flex-wrap items-center gap-3">
+              <span className={`px-3 py-1 rounded-full text-sm font-semibold ${RELATIONSHIPS[comparison.relationship].classes}`}>
+                {RELATIONSHIPS[comparison.relationship].label}
+              </span>
+              <span className="text-sm text-gray-600">{RELATIONSHIPS[comparison.relationship].describe}</span>
+            </div>
+            {comparison.merged && comparison.relationship === 'adjacent-mergeable' && (
+              <p className="text-sm text-gray-600">
+                Together they can be advertised as <span className="font-mono font-semibold text-gray-900">{formatCIDR(comparison.merged)}</span>
+              </p>
+            )}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-2 sm:gap-4">
+              <div className="bg-orange-50 p-3 rounded-md space-y-1">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-xs sm:text-sm font-medium text-gray-600">Smallest Common Supernet</span>
+                  <button
+                    onClick={() => copyToClipboard(formatCIDR(comparison.supernet), 'supernet')}
+                    className="p-1 rounded-md hover:bg-orange-100"
+                    title={copied === 'supernet' ? 'Copied!' : 'Copy to clipboard'}
+                  >
+                    <ClipboardIcon className={`h-4 w-4 ${copied === 'supernet' ? 'text-green-500' : 'text-gray-400'}`} />
+                  </button>
+                </div>
+                <div className="text-sm sm:text-base font-semibold text-gray-900 font-mono break-all">{formatCIDR(comparison.supernet)}</div>
+                <div className="text-xs text-gray-500">
+                  {groupDigits(blockSize(comparison.supernet))} addresses, up to{' '}
+                  {formatAddress(comparison.supernet.version, blockEnd(comparison.supernet))}
+                </div>
+              </div>
+              {rangeCard('Intersection', 'intersection', comparison.intersection, 'No shared addresses')}
+              {rangeCard('Gap', 'gap', comparison.gap, comparison.intersection ? 'None, the networks overlap' : 'None, the networks touch')}
+            </div>
+          </div>
+        )}
+
+        {/* Side by Side Section */}
+        {(a || b) && (
+          <div className="space-y-4">
+            <h2 className="text-lg sm:text-xl font-semibold text-gray-800">Side by Side</h2>
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-xs sm:text-sm">
+                <thead>
+                  <tr className="border-b border-gray-200 text-left text-gray-500">
+                    <th className="py-2 pr-4 font-medium" />
+                    <th className="py-2 pr-4 font-medium">A</th>
+                    <th className="py-2 font-medium">B</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {labels.map(label => (
+                    <tr key={label} className="border-b border-gray-100">
+                      <td className="py-2 pr-4 text-gray-500 whitespace-nowrap">{label}</td>
+                      <td className="py-2 pr-4 font-mono text-gray-900 break-all">{valueOf(rowsA, label)}</td>
+                      <td className="py-2 font-mono text-gray-900 break-all">{valueOf(rowsB, label)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,231 @@
+import { useEffect, useMemo, useState } from 'react';
+import { InformationCircleIcon, ClipboardIcon, ArrowTopRightOnSquareIcon } from '@heroicons/react/24/outline';
+import { Tooltip } from 'react-tooltip';
+import {
+  blockToRange,
+  formatAddress,
+  formatCIDR,
+  mergeRanges,
+  parseAddress,
+  parseRange,
+  rangeSize,
+  rangeToBlocks
+} from '../utils/cidr';
+import type { CIDRBlock } from '../utils/cidr';
+import { groupDigits } from '../utils/ipv6';
+import { parsePrefixList } from '../utils/summarize';
+import type { ToolState } from '../utils/permalink';
+
+interface RangeConverterProps {
+  onOpenBlock: (block: CIDRBlock) => void;
+  initialState?: ToolState<'range'>;
+  onStateChange?: (state: ToolState<'range'>) => void;
+}
+
+export default function RangeConverter({ onOpenBlock, initialState = {}, onStateChange }: RangeConverterProps) {
+  const [startAddress, setStartAddress] = useState(initialState.start ?? '');
+  const [endAddress, setEndAddress] = useState(initialState.end ?? '');
+  const [prefixText, setPrefixText] = useState(initialState.prefixes ?? '');
+  const [copied, setCopied] = useState<string>('');
+
+  useEffect(() => {
+    onStateChange?.({ start: startAddress, end: endAddress, prefixes: prefixText });
+  }, [startAddress, endAddress, prefixText, onStateChange]);
+
+  const range = useMemo(() => parseRange(startAddress, endAddress), [startAddress, endAddress]);
+  const blocks = useMemo(() => (range ? rangeToBlocks(range) : []), [range]);
+
+  const parsedPrefixes = useMemo(() => parsePrefixList(prefixText), [prefixText]);
+  const mergedRanges = useMemo(
+    () => mergeRanges(parsedPrefixes.blocks.map(blockToRange)),
+    [parsedPrefixes]
+  );
+
+  const getRangeError = () => {
+    if (!startAddress || !endAddress) return null;
+    const start = parseAddress(startAddress);
+    const end = parseAddress(endAddress);
+    if (!start) return 'Invalid start address';
+    if (!end) return 'Invalid end address';
+    if (start.version !== end.version) return 'Start and end addresses must be the same IP version';
+    if (start.value > end.value) return 'Start address must not be greater than end address';
+    return null;
+  };
+
+  const copyToClipboard = (text: string, label: string) => {
+    navigator.clipboard.writeText(text);
+    setCopied(label);
+    setTimeout(() => setCopied(''), 2000);
+  };
+
+  const rangeError = getRangeError();
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-4 sm:p-6 md:p-8 w-full max-w-[95vw] mx-auto">
+      <div className="space-y-6 sm:space-y-8 text-left">
+        {/* Range to CIDR */}
+        <div className="space-y-4">
+          <h2 className="text-lg sm:text-xl font-semibold text-gray-800">Range to CIDR</h2>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 sm:gap-6">
+            <div className="space-y-2">
+              <div className="flex items-center gap-2">
+                <label htmlFor="rangeStart" className="block text-sm font-medium text-gray-700">
+                  Start Address
+                </label>
+                <InformationCircleIcon
+                  className="h-4 w-4 text-gray-400 cursor-help"
+                  data-tooltip-id="range-start-tooltip"
+                />
+                <Tooltip id="range-start-tooltip" place="top">
+                  First address of the range, IPv4 or IPv6
+                </Tooltip>
+              </div>
+              <input
+                type="text"
+                id="rangeStart"
+                placeholder="e.g., 203.0.113.17"
+                value={startAddress}
+                onChange={(e) => setStartAddress(e.target.value)}
+                className={`w-full rounded-md border ${
+                  startAddress && !parseAddress(startAddress)
+                    ? 'border-red-300 focus:border-red-500'
+                    : 'border-gray-300 focus:border-amber-500'
+                } px-2 sm:px-4 py-2 focus:ring-1 focus:ring-amber-500 transition-colors text-sm sm:text-base`}
+              />
+            </div>
+            <div className="space-y-2">
+              <div className="flex items-center gap-2">
+                <label htmlFor="rangeEnd" className="block text-sm font-medium text-gray-700">
+                  End Address
+                </label>
+                <InformationCircleIcon
+                  className="h-4 w-4 text-gray-400 cursor-help"
+                  data-tooltip-id="range-end-tooltip"
+                />
+                <Tooltip id="range-end-tooltip" place="top">
+                  Last address of the range (inclusive)
+                </Tooltip>
+              </div>
+              <input
+                type="text"
+                id="rangeEnd"
+                placeholder="e.g., 203.0.113.200"
+                value={endAddress}
+                onChange={(e) => setEndAddress(e.target.value)}
+                className={`w-full rounded-md border ${
+                  endAddress && !parseAddress(endAddress)
+                    ? 'border-red-300 focus:border-red-500'
+                    : 'border-gray-300 focus:border-amber-500'
+                } px-2 sm:px-4 py-2 focus:ring-1 focus:ring-amber-500 transition-colors text-sm sm:text-base`}
+              />
+            </div>
+          </div>
+
+          {rangeError && (
+            <div className="text-red-600 text-sm font-medium p-4 bg-red-50 rounded-md border border-red-200">
+              {rangeError}
+            </div>
+          )}
+
+          <div className="flex items-center">
+            <p className="flex-1 text-xs sm:text-sm text-gray-500 break-all">
+              {range
+                ? `${groupDigits(rangeSize(range))} addresses in ${blocks.length} CIDR blocks`
+                : 'Enter a start and end address to see the covering CIDR blocks'}
+            </p>
+            <button
+              onClick={() => copyToClipboard(blocks.map(formatCIDR).join('\n'), 'blocks')}
+              disabled={blocks.length === 0}
+              className={`flex items-center gap-2 px-4 py-2 rounded-md text-sm font-medium transition-all ${
+                copied === 'blocks'
+                  ? 'bg-green-500 text-white'
+                  : blocks.length > 0
+                    ? 'bg-amber-500 text-white hover:bg-amber-600'
+                    : 'bg-gray-200 text-gray-400 cursor-not-allowed'
+              }`}
+            >
+              <ClipboardIcon className="h-4 w-4" />
+              {copied === 'blocks' ? 'Copied!' : 'Copy'}
+            </button>
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-2">
+            {blocks.map(block => (
+              <button
+                key={formatCIDR(block)}
+                onClick={() => onOpenBlock(block)}
+                className="flex items-center justify-between gap-2 bg-amber-50 hover:bg-amber-100 hover:shadow-md p-3 rounded-md text-left transition-all"
+                title="Open in calculator"
+              >
+                <span className="text-sm font-semibold text-gray-900 font-mono break-all">{formatCIDR(block)}</span>
+                <ArrowTopRightOnSquareIcon className="h-4 w-4 text-amber-500 flex-shrink-0" />
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* CIDR to Range */}
+        <div className="space-y-4">
+          <h2 className="text-lg sm:text-xl font-semibold text-gray-800">CIDR to Range</h2>
+          <div className="space-y-2">
+            <div className="flex items-center gap-2">
+              <label htmlFor="cidrList" className="block text-sm font-medium text-gray-700">
+                CIDR Blocks
+              </label>
+              <InformationCircleIcon
+                className="h-4 w-4 text-gray-400 cursor-help"
+                data-tooltip-id="cidr-list-tooltip"
+              />
+              <Tooltip id="cidr-list-tooltip" place="top">
+                Adjacent and overlapping blocks are merged into contiguous ranges
+              </Tooltip>
+            </div>
+            <textarea
+              id="cidrList"
+              rows={5}
+              placeholder={'e.g.,\n203.0.113.17/32\n203.0.113.18/31\n203.0.113.20/30'}
+              value={prefixText}
+              onChange={(e) => setPrefixText(e.target.value)}
+              className="w-full rounded-md border border-gray-300 focus:border-amber-500 px-2 sm:px-4 py-2 focus:ring-1 focus:ring-amber-500 transition-colors text-sm sm:text-base font-mono"
+            />
+          </div>
+
+          {parsedPrefixes.errors.length > 0 && (
+            <div className="text-red-600 text-sm font-medium p-4 bg-red-50 rounded-md border border-red-200">
+              <ul className="list-disc list-inside">
+                {parsedPrefixes.errors.map((error, index) => (
+                  <li key={index}>{error}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-xs sm:text-sm text-left">
+              <thead className="bg-gray-50 text-gray-500">
+                <tr>
+                  <th className="px-3 py-2 font-medium">Start</th>
+                  <th className="px-3 py-2 font-medium">End</th>
+                  <th className="px-3 py-2 font-medium">Addresses</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100 font-mono text-gray-700">
+                {mergedRanges.map((merged, index) => (
+                  <tr key={index} className="hover:bg-amber-50">
+                    <td className="px-3 py-2 break-all">{formatAddress(merged.version, merged.start)}</td>
+                    <td className="px-3 py-2 break-all">{formatAddress(merged.version, merged.end)}</td>
+                    <td className="px-3 py-2 break-all">{groupDigits(rangeSize(merged))}</td>
+                  </tr>
+                ))}
+                {mergedRanges.length === 0 && (
+                  <tr>
+                    <td colSpan={3} className="px-3 py-4 text-center font-sans text-gray-400">-</td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,244 @@
+import { useEffect, useMemo, useState } from 'react';
+import { ClipboardIcon } from '@heroicons/react/24/outline';
+import { blockEnd, makeBlock, parseAddress } from '../utils/cidr';
+import { suggestAddresses } from '../utils/configTemplates';
+import type { ConfigNetwork } from '../utils/configTemplates';
+import {
+  classlessDelegation,
+  dateSerial,
+  parseNameservers,
+  ptrName,
+  renderZoneFile,
+  reverseZones,
+  validateZoneOptions
+} from '../utils/reverseDns';
+import type { ClasslessStyle } from '../utils/reverseDns';
+
+interface ReverseDnsPanelProps {
+  network: ConfigNetwork;
+  // Addresses to write PTR records for; empty when the host list is too
+  // large to generate
+  hosts?: string[];
+  color?: 'blue' | 'purple';
+}
+
+function CopyBlock({ text }: { text: string }) {
+  const [copied, setCopied] = useState(false);
+
+  const copy = () => {
+    navigator.clipboard.writeText(text);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="relative">
+      <pre className="bg-gray-900 text-gray-100 text-xs sm:text-sm font-mono p-4 rounded-md overflow-x-auto max-h-96">
+        {text}
+      </pre>
+      <button
+        onClick={copy}
+        className="absolute top-2 right-2 p-1 rounded-md bg-gray-700 hover:bg-gray-600"
+        title={copied ? 'Copied!' : 'Copy to clipboard'}
+      >
+        <ClipboardIcon className={`h-4 w-4 ${copied ? 'text-green-400' : 'text-gray-300'}`} />
+      </button>
+    </div>
+  );
+}
+
+export default function ReverseDnsPanel({ network, hosts = [], color = 'blue' }: ReverseDnsPanelProps) {
+  const { version, networkAddress, prefixLength } = network;
+  const [style, setStyle] = useState<ClasslessStyle>('range');
+  const [lookup, setLookup] = useState('');
+  const [zoneIndex, setZoneIndex] = useState(0);
+  const [nameserverText, setNameserverText] = useState('ns1.example.com, ns2.example.com');
+  const [hostmaster, setHostmaster] = useState('hostmaster@example.com');
+  const [ttl, setTtl] = useState('3600');
+  const [hostnameTemplate, setHostnameTemplate] = useState('host-{{ip}}.example.com');
+
+  const block = useMemo(
+    () => makeBlock(version, parseAddress(networkAddress)?.value ?? 0n, prefixLength),
+    [version, networkAddress, prefixLength]
+  );
+
+  useEffect(() => {
+    setLookup(suggestAddresses({ version, networkAddress, prefixLength }).host);
+    setZoneIndex(0);
+  }, [version, networkAddress, prefixLength]);
+
+  const zones = useMemo(() => reverseZones(block, style), [block, style]);
+  const nameservers = useMemo(() => parseNameservers(nameserverText), [nameserverText]);
+  const delegation = useMemo(() => classlessDelegation(block, nameservers, style), [block, nameservers, style]);
+  const zone = zones[Math.min(zoneIndex, zones.length - 1)];
+
+  const lookupAddress = parseAddress(lookup.trim());
+  let lookupError: string | null = null;
+  if (lookup.trim() && (!lookupAddress || lookupAddress.version !== version)) {
+    lookupError = `Enter a valid IPv${version} address`;
+  }
+  const lookupOutside = lookupAddress !== null && lookupError === null &&
+    !zones.some(candidate => lookupAddress.value >= candidate.block.start && lookupAddress.value <= blockEnd(candidate.block));
+
+  const zoneOptions = {
+    zone,
+    network: block,
+    nameservers,
+    hostmaster,
+    ttl: /^\d+$/.test(ttl.trim()) ? Number(ttl.trim()) : NaN,
+    serial: dateSerial(new Date()),
+    hostnameTemplate,
+    hosts
+  };
+  const errors = validateZoneOptions(zoneOptions);
+  const zoneFile = errors.length === 0 ? renderZoneFile(zoneOptions) : '';
+
+  const focusClasses = color === 'blue'
+    ? 'focus:border-blue-500 focus:ring-blue-500'
+    : 'focus:border-purple-500 focus:ring-purple-500';
+  const inputClasses = `w-full rounded-md border border-gray-300 px-2 py-1 text-sm focus:ring-1 ${focusClasses}`;
+
+  return (
+    <div className="mt-4 space-y-4 text-left">
+      <div className="space-y-2">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <h3 className="text-sm font-medium text-gray-700">
+            Reverse Zone{zones.length > 1 ? `s (${zones.length})` : ''}
+          </h3>
+          {delegation && (
+            <label className="flex items-center gap-2 text-xs text-gray-500">
+              Child zone naming
+              <select
+                value={style}
+                onChange={(e) => setStyle(e.target.value as ClasslessStyle)}
+                className={`${inputClasses} w-auto bg-white text-gray-700`}
+              >
+                <option value="range">First-last (64-127)</option>
+                <option value="prefix">First/prefix (64/26)</option>
+              </select>
+            </label>
+          )}
+        </div>
+        <ul className="flex flex-wrap gap-2">
+          {zones.map(candidate => (
+            <li key={candidate.name} className="font-mono text-xs sm:text-sm bg-white border border-gray-200 rounded-md px-2 py-1">
+              {candidate.name}
+            </li>
+          ))}
+        </ul>
+        {prefixLength % (version === 4 ? 8 : 4) !== 0 && !delegation && (
+          <p className="text-xs text-gray-500">
+            /{prefixLength} is not on a{version === 4 ? 'n octet' : ' nibble'} boundary, so it is covered by
+            {zones.length > 1 ? ' each of these zones' : ' this zone'}.
+          </p>
+        )}
+      </div>
+
+      {delegation && (
+        <div className="space-y-2">
+          <h3 className="text-sm font-medium text-gray-700">RFC 2317 Classless Delegation</h3>
+          <p className="text-xs text-gray-500">
+            Add these records to <span className="font-mono">{delegation.parent}</span> to delegate{' '}
+            <span className="font-mono">{delegation.child}</span> to your name servers.
+          </p>
+          <CopyBlock text={[`$ORIGIN ${delegation.parent}.`, ...delegation.records].join('\n')} />
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <h3 className="text-sm font-medium text-gray-700">PTR Name</h3>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 sm:gap-4 items-center">
+          <input
+            type="text"
+            value={lookup}
+            onChange={(e) => setLookup(e.target.value)}
+            placeholder={`IPv${version} address`}
+            className={`${inputClasses} font-mono`}
+          />
+          <div className="font-mono text-xs sm:text-sm text-gray-800 break-all">
+            {lookupAddress && !lookupError ? ptrName(version, lookupAddress.value) : '-'}
+          </div>
+        </div>
+        {lookupError && <p className="text-xs text-red-600">{lookupError}</p>}
+        {lookupOutside && (
+          <p className="text-xs text-amber-700">This address is outside the zones listed above.</p>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <h3 className="text-sm font-medium text-gray-700">Zone File Skeleton</h3>
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2 sm:gap-4">
+          {zones.length > 1 && (
+            <label className="space-y-1">
+              <span className="block text-xs font-medium text-gray-500">Zone</span>
+              <select
+                value={Math.min(zoneIndex, zones.length - 1)}
+                onChange={(e) => setZoneIndex(Number(e.target.value))}
+                className={`${inputClasses} bg-white text-gray-700 font-mono`}
+              >
+                {zones.map((candidate, index) => (
+                  <option key={candidate.name} value={index}>{candidate.name}</option>
+                ))}
+              </select>
+            </label>
+          )}
+          <label className="space-y-1">
+            <span className="block text-xs font-medium text-gray-500">Name Servers</span>
+            <input
+              type="text"
+              value={nameserverText}
+              onChange={(e) => setNameserverText(e.target.value)}
+              className={`${inputClasses} font-mono`}
+            />
+          </label>
+          <label className="space-y-1">
+            <span className="block text-xs font-medium text-gray-500">Hostmaster Email</span>
+            <input
+              type="text"
+              value={hostmaster}
+              onChange={(e) => setHostmaster(e.target.value)}
+              className={`${inputClasses} font-mono`}
+            />
+          </label>
+          <label className="space-y-1">
+            <span className="block text-xs font-medium text-gray-500">TTL (seconds)</span>
+            <input
+              type="text"
+              value={ttl}
+              onChange={(e) => setTtl(e.target.value)}
+              className={`${inputClasses} font-mono`}
+            />
+          </label>
+          <label className="space-y-1 sm:col-span-2">
+            <span className="block text-xs font-medium text-gray-500">
+              Hostname Template (leave empty for no PTR records)
+            </span>
+            <input
+              type="text"
+              value={hostnameTemplate}
+              onChange={(e) => setHostnameTemplate(e.target.value)}
+              placeholder="host-{{ip}}.example.com"
+              className={`${inputClasses} font-mono`}
+            />
+          </label>
+        </div>
+        <p className="text-xs text-gray-500">
+          Template placeholders: <span className="font-mono">{'{{ip}}'}</span> (address with dashes),{' '}
+          {version === 4 && <><span className="font-mono">{'{{a}} {{b}} {{c}} {{d}}'}</span> (octets), </>}
+          <span className="font-mono">{'{{index}}'}</span> (offset in the network).
+          {hostnameTemplate.trim() && hosts.length === 0 && ' PTR records are only generated when the host list is available.'}
+        </p>
+
+        {errors.length > 0 && (
+          <div className="text-red-600 text-sm font-medium p-3 bg-red-50 rounded-md border border-red-200">
+            <ul className="list-disc list-inside">
+              {errors.map(error => <li key={error}>{error}</li>)}
+            </ul>
+          </div>
+        )}
+
+        {zoneFile && <CopyBlock text={zoneFile} />}
+      </div>
+    </div>
+  );
+}
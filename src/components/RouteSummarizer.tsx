@@ -0,0 +1,150 @@
+import { useEffect, useMemo, useState } from 'react';
+import { InformationCircleIcon, ClipboardIcon } from '@heroicons/react/24/outline';
+import { Tooltip } from 'react-tooltip';
+import { formatCIDR } from '../utils/cidr';
+import { groupDigits } from '../utils/ipv6';
+import { parsePrefixList, summarizePrefixes } from '../utils/summarize';
+import type { ToolState } from '../utils/permalink';
+
+interface RouteSummarizerProps {
+  initialState?: ToolState<'summarize'>;
+  onStateChange?: (state: ToolState<'summarize'>) => void;
+}
+
+export default function RouteSummarizer({ initialState = {}, onStateChange }: RouteSummarizerProps) {
+  const [prefixText, setPrefixText] = useState(initialState.prefixes ?? '');
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    onStateChange?.({ prefixes: prefixText });
+  }, [prefixText, onStateChange]);
+
+  const parsed = useMemo(() => parsePrefixList(prefixText), [prefixText]);
+  const summary = useMemo(
+    () => (parsed.blocks.length > 0 ? summarizePrefixes(parsed.blocks) : null),
+    [parsed]
+  );
+
+  const copyAggregates = () => {
+    if (!summary) return;
+    navigator.clipboard.writeText(summary.aggregates.map(formatCIDR).join('\n'));
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-4 sm:p-6 md:p-8 w-full max-w-[95vw] mx-auto">
+      <div className="space-y-6 sm:space-y-8 text-left">
+        {/* Input Section */}
+        <div className="space-y-2">
+          <div className="flex items-center gap-2">
+            <label htmlFor="prefixList" className="block text-sm font-medium text-gray-700">
+              Prefixes
+            </label>
+            <InformationCircleIcon
+              className="h-4 w-4 text-gray-400 cursor-help"
+              data-tooltip-id="prefix-list-tooltip"
+            />
+            <Tooltip id="prefix-list-tooltip" place="top">
+              Paste IPv4 or IPv6 CIDRs, one per line or separated by commas
+            </Tooltip>
+          </div>
+          <textarea
+            id="prefixList"
+            rows={8}
+            placeholder={'e.g.,\n10.1.0.0/24\n10.1.1.0/24\n10.1.2.0/23\n2001:db8:0:10::/64'}
+            value={prefixText}
+            onChange={(e) => setPrefixText(e.target.value)}
+            className="w-full rounded-md border border-gray-300 focus:border-indigo-500 px-2 sm:px-4 py-2 focus:ring-1 focus:ring-indigo-500 transition-colors text-sm sm:text-base font-mono"
+          />
+          <p className="text-xs text-gray-500">
+            {parsed.blocks.length.toLocaleString()} valid prefixes
+          </p>
+        </div>
+
+        {parsed.errors.length > 0 && (
+          <div className="text-red-600 text-sm font-medium p-4 bg-red-50 rounded-md border border-red-200">
+            <ul className="list-disc list-inside">
+              {parsed.errors.map((error, index) => (
+                <li key={index}>{error}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {/* Exact Aggregates */}
+        <div className="space-y-4">
+          <div className="flex items-center">
+            <div className="flex-1">
+              <h2 className="text-lg sm:text-xl font-semibold text-gray-800">Exact Aggregates</h2>
+              <p className="text-xs sm:text-sm text-gray-500">
+                The fewest prefixes that cover exactly the input addresses and nothing else
+              </p>
+            </div>
+            <button
+              onClick={copyAggregates}
+              disabled={!summary}
+              className={`flex items-center gap-2 px-4 py-2 rounded-md text-sm font-medium transition-all ${
+                copied
+                  ? 'bg-green-500 text-white'
+                  : summary
+                    ? 'bg-indigo-500 text-white hover:bg-indigo-600'
+                    : 'bg-gray-200 text-gray-400 cursor-not-allowed'
+              }`}
+            >
+              <ClipboardIcon className="h-4 w-4" />
+              {copied ? 'Copied!' : 'Copy'}
+            </button>
+          </div>
+          <div className="bg-indigo-50 p-3 sm:p-4 rounded-md font-mono text-sm text-gray-900 max-h-96 overflow-y-auto">
+            {summary ? (
+              summary.aggregates.map((block, index) => (
+                <div key={index}>{formatCIDR(block)}</div>
+              ))
+            ) : (
+              <span className="text-gray-400">-</span>
+            )}
+          </div>
+          {summary && (
+            <p className="text-xs sm:text-sm text-gray-500">
+              {parsed.blocks.length.toLocaleString()} prefixes summarized into {summary.aggregates.length.toLocaleString()}
+            </p>
+          )}
+        </div>
+
+        {/* Single Supernet */}
+        <div className="space-y-4">
+          <div>
+            <h2 className="text-lg sm:text-xl font-semibold text-gray-800">Single Covering Supernet</h2>
+            <p className="text-xs sm:text-sm text-gray-500">
+              The smallest one-line summary per address family, and what it would wrongly attract
+            </p>
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4">
+            {summary && summary.supernets.map(supernet => (
+              <div key={supernet.version} className="bg-orange-50 p-3 sm:p-4 rounded-md">
+                <p className="text-xs sm:text-sm font-medium text-gray-500">IPv{supernet.version} Supernet</p>
+                <p className="text-sm sm:text-lg font-semibold text-gray-900 break-all font-mono">
+                  {formatCIDR(supernet.supernet)}
+                </p>
+                <p className="text-xs sm:text-sm text-gray-600 mt-1 break-all">
+                  Covers {groupDigits(supernet.coveredAddresses)} requested addresses
+                </p>
+                <p className={`text-xs sm:text-sm mt-1 break-all ${
+                  supernet.extraAddresses > 0n ? 'text-orange-700 font-medium' : 'text-green-700'
+                }`}>
+                  {supernet.extraAddresses > 0n
+                    ? `Attracts ${groupDigits(supernet.extraAddresses)} extra addresses`
+                    : 'Exact summary, no extra addresses'}
+                </p>
+              </div>
+            ))}
+            {!summary && (
+              <div className="bg-orange-50 p-3 sm:p-4 rounded-md text-gray-400">-</div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,17 +1,39 @@
 import { useState, useEffect, useMemo } from 'react';
 import { 
   calculateSubnet, 
-  isValidIPAddress, 
-  isValidSubnetMask, 
   convertCIDRToMask,
-  convertMaskToCIDR,
   determineIPClass, 
   getAllHostAddresses 
 } from '../utils/subnet';
 import type { SubnetResults } from '../utils/subnet';
-import { InformationCircleIcon, ClipboardIcon, ChevronDownIcon, ChevronUpIcon, ArrowDownTrayIcon } from '@heroicons/react/24/outline';
+import { InformationCircleIcon, ClipboardIcon, ChevronDownIcon, ChevronUpIcon, ExclamationTriangleIcon, LinkIcon } from '@heroicons/react/24/outline';
 import { Tooltip } from 'react-tooltip';
-import { generateCSV, downloadCSV } from '../utils/csvExport';
+import { subnetExportData } from '../utils/export';
+import { classifyIPv4 } from '../utils/specialPurpose';
+import { parseIPv4Strict, parseMaskStrict } from '../utils/addressParser';
+import {
+  ADDRESS_POLICIES,
+  CLASSIC_POLICY,
+  checkPolicyPrefix,
+  customPolicy,
+  getAddressPolicy,
+  parseCustomReservations
+} from '../utils/addressPolicy';
+import { buildPermalinkURL, EMPTY_CALCULATOR, EMPTY_TOOLS } from '../utils/permalink';
+import type { CalculatorState, CalculatorView } from '../utils/permalink';
+import type { AddressCategory } from '../utils/specialPurpose';
+import SubnetSplitter from './SubnetSplitter';
+import InputErrorHighlight from './InputErrorHighlight';
+import ExportMenu from './ExportMenu';
+import ConfigGenerator from './ConfigGenerator';
+import BitMapView from './BitMapView';
+import ReverseDnsPanel from './ReverseDnsPanel';
+import HostBrowser from './HostBrowser';
+import { ipv4BitMap } from '../utils/bitMap';
+import { configNetworkFromSubnet } from '../utils/configTemplates';
+import { formatCIDR, makeBlock, parseAddress } from '../utils/cidr';
+import { groupDigits } from '../utils/ipv6';
+import { policyMarkers } from '../utils/hostBrowser';
 
 interface ResultCardProps {
   label: string;
@@ -76,20 +98,43 @@ function ResultCard({ label, value, tooltipContent, onCopy, copied, color = 'cya
   );
 }
 
-export default function SubnetCalculator() {
-  const [ipAddress, setIpAddress] = useState('');
-  const [subnetMask, setSubnetMask] = useState('');
+interface SubnetCalculatorProps {
+  initialState?: CalculatorState;
+  onStateChange?: (state: CalculatorState) => void;
+}
+
+export default function SubnetCalculator({ initialState = EMPTY_CALCULATOR, onStateChange }: SubnetCalculatorProps) {
+  const [ipAddress, setIpAddress] = useState(initialState.address);
+  const [subnetMask, setSubnetMask] = useState(initialState.mask);
   const [results, setResults] = useState<SubnetResults | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [ipClass, setIpClass] = useState<string>('');
   const [copied, setCopied] = useState<string>('');
-  const [showAllHosts, setShowAllHosts] = useState(false);
+  const [showAllHosts, setShowAllHosts] = useState(initialState.views.includes('hosts'));
+  // Only small subnets get a materialized list, used for the PTR records in
+  // the zone file; the host browser generates rows on demand
   const [hostAddresses, setHostAddresses] = useState<string[]>([]);
-  const [exportClicked, setExportClicked] = useState(false);
+  const [showSplit, setShowSplit] = useState(initialState.views.includes('split'));
+  const [showConfig, setShowConfig] = useState(initialState.views.includes('config'));
+  const [showBits, setShowBits] = useState(initialState.views.includes('bits'));
+  const [showDns, setShowDns] = useState(initialState.views.includes('dns'));
+  const [splitPrefix, setSplitPrefix] = useState(initialState.splitPrefix);
+  const [linkCopied, setLinkCopied] = useState(false);
+  const [policyId, setPolicyId] = useState(initialState.policy ?? CLASSIC_POLICY.id);
+  const [customReservations, setCustomReservations] = useState(initialState.reservations ?? 'network, broadcast, gateway = first usable');
+
+  const parsedCustom = useMemo(() => parseCustomReservations(customReservations), [customReservations]);
+  const policy = useMemo(
+    () => policyId === 'custom' ? customPolicy(parsedCustom.reservations) : getAddressPolicy(policyId) ?? CLASSIC_POLICY,
+    [policyId, parsedCustom]
+  );
+
+  const parsedAddress = useMemo(() => parseIPv4Strict(ipAddress), [ipAddress]);
+  const parsedMask = useMemo(() => parseMaskStrict(subnetMask), [subnetMask]);
 
   useEffect(() => {
     if (ipAddress) {
-      if (isValidIPAddress(ipAddress)) {
+      if (parsedAddress.ok) {
         setIpClass(determineIPClass(ipAddress));
       } else {
         setIpClass('');
@@ -97,28 +142,28 @@ export default function SubnetCalculator() {
     } else {
       setIpClass('');
     }
-  }, [ipAddress]);
+  }, [ipAddress, parsedAddress]);
 
   useEffect(() => {
     if (ipAddress && subnetMask) {
-      if (!isValidIPAddress(ipAddress)) {
-        setError('Invalid IP address format');
+      if (!parsedAddress.ok) {
+        setError(`Invalid IP address: ${parsedAddress.error.message}`);
         setResults(null);
         return;
       }
 
-      if (!isValidSubnetMask(subnetMask)) {
-        setError('Invalid subnet mask format');
+      if (!parsedMask.ok) {
+        setError(`Invalid subnet mask: ${parsedMask.error.message}`);
         setResults(null);
         return;
       }
 
       setError(null);
-      const result = calculateSubnet(ipAddress, subnetMask);
+      const result = calculateSubnet(ipAddress, subnetMask, policy);
       if (result) {
         setResults(result);
-        if (result.totalHosts <= 1024) {
-          setHostAddresses(getAllHostAddresses(result.firstHostIP, result.lastHostIP));
+        if (result.totalAddresses <= 1024) {
+          setHostAddresses(getAllHostAddresses(result.networkAddress, result.broadcastAddress));
         } else {
           setHostAddresses([]);
         }
@@ -130,7 +175,47 @@ export default function SubnetCalculator() {
       setError(null);
       setHostAddresses([]);
     }
-  }, [ipAddress, subnetMask]);
+  }, [ipAddress, subnetMask, parsedAddress, parsedMask, policy]);
+
+  const reservedLabels = useMemo(
+    () => new Map((results?.reservedAddresses ?? []).map(reserved => [reserved.address, reserved.label])),
+    [results]
+  );
+  // Reserved addresses such as the network and broadcast do not get PTR records
+  const ptrHosts = useMemo(
+    () => hostAddresses.filter(address => !reservedLabels.has(address)),
+    [hostAddresses, reservedLabels]
+  );
+  const hostBlock = useMemo(() => {
+    const network = results ? parseAddress(results.networkAddress) : null;
+    return results && network ? makeBlock(4, network.value, results.maskBits) : null;
+  }, [results]);
+  const hostMarkers = useMemo(
+    () => (hostBlock && results ? policyMarkers(hostBlock, results.reservedAddresses) : []),
+    [hostBlock, results]
+  );
+  const policyWarning = results ? checkPolicyPrefix(policy, results.maskBits) : null;
+
+  const calculatorState = useMemo<CalculatorState>(() => {
+    const views: CalculatorView[] = [];
+    if (showAllHosts) views.push('hosts');
+    if (showSplit) views.push('split');
+    if (showConfig) views.push('config');
+    if (showBits) views.push('bits');
+    if (showDns) views.push('dns');
+    return {
+      address: ipAddress,
+      mask: subnetMask,
+      views,
+      splitPrefix,
+      policy: policyId,
+      reservations: policyId === 'custom' ? customReservations : undefined
+    };
+  }, [ipAddress, subnetMask, showAllHosts, showSplit, showConfig, showBits, showDns, splitPrefix, policyId, customReservations]);
+
+  useEffect(() => {
+    onStateChange?.(calculatorState);
+  }, [calculatorState, onStateChange]);
 
   const handleCIDRChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
     if (e.target.value) {
@@ -145,13 +230,12 @@ export default function SubnetCalculator() {
     setTimeout(() => setCopied(''), 2000);
   };
 
-  const handleExportCSV = () => {
-    if (results) {
-      setExportClicked(true);
-      const csv = generateCSV(results);
-      downloadCSV(csv, `subnet-calculation-${new Date().toISOString()}.csv`);
-      setTimeout(() => setExportClicked(false), 1000);
-    }
+  const handleCopyLink = () => {
+    navigator.clipboard.writeText(
+      buildPermalinkURL({ mode: 'ipv4', ipv4: calculatorState, ipv6: EMPTY_CALCULATOR, tools: EMPTY_TOOLS }, window.location)
+    );
+    setLinkCopied(true);
+    setTimeout(() => setLinkCopied(false), 2000);
   };
 
   const getClassColor = (ipClass: string) => {
@@ -165,20 +249,37 @@ export default function SubnetCalculator() {
     }
   };
 
+  const getCategoryColor = (category: AddressCategory) => {
+    switch (category) {
+      case 'private': return 'bg-green-100 text-green-800';
+      case 'shared': return 'bg-teal-100 text-teal-800';
+      case 'loopback':
+      case 'link-local': return 'bg-cyan-100 text-cyan-800';
+      case 'documentation':
+      case 'benchmarking': return 'bg-indigo-100 text-indigo-800';
+      case 'multicast': return 'bg-yellow-100 text-yellow-800';
+      case 'reserved':
+      case 'broadcast':
+      case 'this-network': return 'bg-red-100 text-red-800';
+      default: return 'bg-gray-100 text-gray-800';
+    }
+  };
+
+  const classification = useMemo(() => {
+    if (!parsedAddress.ok) return null;
+    return results
+      ? classifyIPv4(results.networkAddress, `/${results.maskBits}`)
+      : classifyIPv4(ipAddress);
+  }, [ipAddress, parsedAddress, results]);
+
   const getHostRange = () => {
     if (!results) return '-';
+    if (!results.firstHostIP) return 'No usable addresses';
+    if (results.firstHostIP === results.lastHostIP) return results.firstHostIP;
     return `${results.firstHostIP} - ${results.lastHostIP}`;
   };
 
-  const getMaskBits = () => {
-    if (subnetMask) {
-      const maskBits = subnetMask.startsWith('/') 
-        ? parseInt(subnetMask.substring(1), 10)
-        : convertMaskToCIDR(subnetMask);
-      return maskBits;
-    }
-    return 0;
-  };
+  const getMaskBits = () => parsedMask.ok ? parsedMask.value : 0;
 
   return (
     <div className="bg-white rounded-lg shadow-lg p-4 sm:p-6 md:p-8 w-full max-w-[95vw] mx-auto">
@@ -207,7 +308,7 @@ export default function SubnetCalculator() {
                 value={ipAddress}
                 onChange={(e) => setIpAddress(e.target.value)}
                 className={`flex-1 rounded-md border ${
-                  ipAddress && !isValidIPAddress(ipAddress) 
+                  ipAddress && !parsedAddress.ok 
                     ? 'border-red-300 focus:border-red-500' 
                     : 'border-gray-300 focus:border-blue-500'
                 } px-2 sm:px-4 py-2 focus:ring-1 focus:ring-blue-500 transition-colors text-sm sm:text-base`}
@@ -218,6 +319,42 @@ export default function SubnetCalculator() {
                 </div>
               )}
             </div>
+            {ipAddress && !parsedAddress.ok && (
+              <InputErrorHighlight text={ipAddress} error={parsedAddress.error} />
+            )}
+            {classification && (
+              <div className="flex flex-wrap items-center gap-2">
+                {classification.categories.map(category => (
+                  <div
+                    key={category.block}
+                    className={`${getCategoryColor(category.category)} px-2 sm:px-3 py-1 rounded-md font-medium text-xs sm:text-sm whitespace-nowrap cursor-help`}
+                    data-tooltip-id={`category-${category.block}`}
+                  >
+                    {category.name}
+                    <Tooltip id={`category-${category.block}`} place="top">
+                      {category.block} ({category.rfc})
+                    </Tooltip>
+                  </div>
+                ))}
+                {classification.categories.length === 0 && (
+                  classification.contained.length === 0 && classification.straddled.length === 0 ? (
+                    <div className="bg-blue-100 text-blue-800 px-2 sm:px-3 py-1 rounded-md font-medium text-xs sm:text-sm whitespace-nowrap">
+                      Global Unicast
+                    </div>
+                  ) : (
+                    <div className="bg-amber-100 text-amber-800 px-2 sm:px-3 py-1 rounded-md font-medium text-xs sm:text-sm whitespace-nowrap">
+                      Mixed Categories
+                    </div>
+                  )
+                )}
+                <p className="text-xs text-gray-500">
+                  Routable: {classification.routable ? 'Yes' : 'No'}
+                  {' · '}Forwardable: {classification.forwardable ? 'Yes' : 'No'}
+                  {' · '}Globally reachable: {classification.globallyReachable ? 'Yes' : 'No'}
+                  {' · '}Reserved by protocol: {classification.reservedByProtocol ? 'Yes' : 'No'}
+                </p>
+              </div>
+            )}
           </div>
 
           {/* Subnet Mask Input */}
@@ -242,7 +379,7 @@ export default function SubnetCalculator() {
                 value={subnetMask}
                 onChange={(e) => setSubnetMask(e.target.value)}
                 className={`flex-1 rounded-md border ${
-                  subnetMask && !isValidSubnetMask(subnetMask)
+                  subnetMask && !parsedMask.ok
                     ? 'border-red-300 focus:border-red-500'
                     : 'border-gray-300 focus:border-blue-500'
                 } px-2 sm:px-4 py-2 focus:ring-1 focus:ring-blue-500 transition-colors text-sm sm:text-base`}
@@ -258,6 +395,61 @@ export default function SubnetCalculator() {
                 ))}
               </select>
             </div>
+            {subnetMask && !parsedMask.ok && (
+              <InputErrorHighlight text={subnetMask} error={parsedMask.error} />
+            )}
+          </div>
+
+          {/* Address Policy */}
+          <div className="space-y-2 md:col-span-2">
+            <div className="flex items-center gap-2">
+              <label htmlFor="addressPolicy" className="block text-sm font-medium text-gray-700">
+                Address Policy
+              </label>
+              <InformationCircleIcon
+                className="h-4 w-4 text-gray-400 cursor-help"
+                data-tooltip-id="policy-tooltip"
+              />
+              <Tooltip id="policy-tooltip" place="top">
+                Which addresses of the subnet are reserved and cannot be assigned to hosts
+              </Tooltip>
+            </div>
+            <div className="flex flex-col sm:flex-row sm:items-center gap-2 sm:gap-4">
+              <select
+                id="addressPolicy"
+                value={policyId}
+                onChange={(e) => setPolicyId(e.target.value)}
+                className="sm:w-64 rounded-md border border-gray-300 px-2 sm:px-4 py-2 focus:border-blue-500 focus:ring-1 focus:ring-blue-500 bg-white text-gray-700 text-sm sm:text-base"
+              >
+                {ADDRESS_POLICIES.map(candidate => (
+                  <option key={candidate.id} value={candidate.id}>{candidate.label}</option>
+                ))}
+                <option value="custom">Custom</option>
+              </select>
+              <p className="text-xs sm:text-sm text-gray-500 text-left">{policy.description}</p>
+            </div>
+            {policyId === 'custom' && (
+              <div className="space-y-1 text-left">
+                <input
+                  type="text"
+                  value={customReservations}
+                  onChange={(e) => setCustomReservations(e.target.value)}
+                  placeholder="e.g., network, broadcast, gateway = first usable, dhcp = 2, -2"
+                  className={`w-full rounded-md border ${
+                    parsedCustom.errors.length > 0
+                      ? 'border-red-300 focus:border-red-500'
+                      : 'border-gray-300 focus:border-blue-500'
+                  } px-2 sm:px-4 py-2 focus:ring-1 focus:ring-blue-500 transition-colors text-sm font-mono`}
+                />
+                <p className="text-xs text-gray-500">
+                  Comma separated positions, optionally labelled: network, broadcast, first usable, last usable,
+                  an offset from the network address (2) or back from the broadcast address (-2)
+                </p>
+                {parsedCustom.errors.map(message => (
+                  <p key={message} className="text-xs text-red-600">{message}</p>
+                ))}
+              </div>
+            )}
           </div>
         </div>
 
@@ -267,6 +459,45 @@ export default function SubnetCalculator() {
           </div>
         )}
 
+        {policyWarning && (
+          <div className="flex items-start gap-2 text-amber-800 text-sm p-4 bg-amber-50 rounded-md border border-amber-200 text-left">
+            <ExclamationTriangleIcon className="h-5 w-5 flex-shrink-0" />
+            <p className="font-medium">{policyWarning}</p>
+          </div>
+        )}
+
+        {results && classification && (classification.contained.length > 0 || classification.straddled.length > 0) && (
+          <div className="flex items-start gap-2 text-amber-800 text-sm p-4 bg-amber-50 rounded-md border border-amber-200 text-left">
+            <ExclamationTriangleIcon className="h-5 w-5 flex-shrink-0" />
+            <div className="space-y-2">
+              {classification.contained.length > 0 && (
+                <div>
+                  <p className="font-medium">
+                    {results.networkAddress}/{results.maskBits} contains these special-purpose blocks:
+                  </p>
+                  <ul className="list-disc list-inside">
+                    {classification.contained.map(category => (
+                      <li key={category.block}>{category.block} {category.name} ({category.rfc})</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              {classification.straddled.length > 0 && (
+                <div>
+                  <p className="font-medium">
+                    {results.networkAddress}/{results.maskBits} only partially overlaps these special-purpose blocks:
+                  </p>
+                  <ul className="list-disc list-inside">
+                    {classification.straddled.map(category => (
+                      <li key={category.block}>{category.block} {category.name} ({category.rfc})</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
         {/* Network Visualization - Always visible */}
         <div className="relative h-4 bg-gray-100 rounded-full overflow-hidden">
           <div 
@@ -280,6 +511,25 @@ export default function SubnetCalculator() {
           </div>
         </div>
 
+        {results && (
+          <div className="bg-gray-50 p-3 sm:p-4 rounded-md">
+            <button
+              onClick={() => setShowBits(!showBits)}
+              className="w-full flex items-center justify-between text-gray-700 hover:text-gray-900"
+            >
+              <span className="text-xs sm:text-sm font-medium">
+                {showBits ? 'Hide' : 'Show'} Bit Map
+              </span>
+              {showBits ? (
+                <ChevronUpIcon className="h-4 w-4 sm:h-5 sm:w-5" />
+              ) : (
+                <ChevronDownIcon className="h-4 w-4 sm:h-5 sm:w-5" />
+              )}
+            </button>
+            {showBits && <BitMapView map={ipv4BitMap(ipAddress.trim(), results.maskBits)} />}
+          </div>
+        )}
+
         {/* Results Section */}
         <div className="space-y-4 sm:space-y-6">
           <div className="flex items-center">
@@ -287,19 +537,24 @@ export default function SubnetCalculator() {
               <h2 className="text-lg sm:text-xl font-semibold text-gray-800">Network Information</h2>
             </div>
             <button
-              onClick={handleExportCSV}
+              onClick={handleCopyLink}
               disabled={!results}
-              className={`flex items-center gap-2 px-4 py-2 rounded-md text-sm font-medium transition-all ${
-                exportClicked
-                  ? 'bg-green-500 text-white transform scale-105'
+              className={`flex items-center gap-2 px-4 py-2 mr-2 rounded-md text-sm font-medium transition-all ${
+                linkCopied
+                  ? 'bg-green-500 text-white'
                   : results
-                    ? 'bg-blue-500 text-white hover:bg-blue-600'
+                    ? 'bg-white text-blue-600 border border-blue-500 hover:bg-blue-50'
                     : 'bg-gray-200 text-gray-400 cursor-not-allowed'
               }`}
             >
-              <ArrowDownTrayIcon className="h-4 w-4" />
-              Save as CSV
+              <LinkIcon className="h-4 w-4" />
+              {linkCopied ? 'Link Copied!' : 'Copy Link'}
             </button>
+            <ExportMenu
+              filename="subnet-calculation"
+              getData={() => (results ? subnetExportData(results) : null)}
+              disabled={!results}
+            />
           </div>
 
           <div className="grid grid-cols-1 gap-3 sm:gap-4">
@@ -338,9 +593,11 @@ export default function SubnetCalculator() {
                 color="indigo"
               />
               <ResultCard
-                label="Total Hosts"
-                value={results?.totalHosts.toLocaleString()}
-                tooltipContent="Total number of usable host addresses in the subnet"
+                label="Usable Hosts"
+                value={results
+                  ? `${results.totalHosts.toLocaleString()} of ${results.totalAddresses.toLocaleString()}`
+                  : undefined}
+                tooltipContent="Number of addresses left for hosts after the policy's reserved addresses"
                 color="pink"
               />
               <ResultCard
@@ -412,15 +669,34 @@ export default function SubnetCalculator() {
               </div>
             </div>
 
+            {/* Reserved Addresses */}
+            {results && results.reservedAddresses.length > 0 && (
+              <div className="bg-amber-50 p-3 sm:p-4 rounded-md text-left">
+                <p className="text-xs sm:text-sm font-medium text-amber-800 mb-2">
+                  Reserved Addresses ({results.reservedAddresses.length})
+                </p>
+                <div className="flex flex-wrap gap-2">
+                  {results.reservedAddresses.map(reserved => (
+                    <div
+                      key={reserved.address}
+                      className="bg-amber-100 text-amber-800 px-2 sm:px-3 py-1 rounded-md text-xs sm:text-sm"
+                    >
+                      <span className="font-mono">{reserved.address}</span> {reserved.label}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* All Host Addresses Section */}
-            {results && hostAddresses.length > 0 && (
+            {results && hostBlock && (
               <div className="bg-gray-50 p-3 sm:p-4 rounded-md">
                 <button
                   onClick={() => setShowAllHosts(!showAllHosts)}
                   className="w-full flex items-center justify-between text-gray-700 hover:text-gray-900"
                 >
                   <span className="text-xs sm:text-sm font-medium">
-                    {showAllHosts ? 'Hide' : 'Show'} All Host Addresses ({hostAddresses.length} addresses)
+                    {showAllHosts ? 'Hide' : 'Show'} All Addresses ({groupDigits(results.totalAddresses)} addresses, {results.reservedAddresses.length} reserved)
                   </span>
                   {showAllHosts ? (
                     <ChevronUpIcon className="h-4 w-4 sm:h-5 sm:w-5" />
@@ -428,20 +704,73 @@ export default function SubnetCalculator() {
                     <ChevronDownIcon className="h-4 w-4 sm:h-5 sm:w-5" />
                   )}
                 </button>
-                {showAllHosts && (
-                  <div className="mt-4 grid grid-cols-1 sm:grid-cols-2 md:grid-cols-4 gap-2 max-h-96 overflow-y-auto">
-                    {hostAddresses.map((address, index) => (
-                      <div key={index} className="text-xs sm:text-sm text-gray-600 font-mono">
-                        {address}
-                      </div>
-                    ))}
-                  </div>
+                {showAllHosts && <HostBrowser key={formatCIDR(hostBlock)} block={hostBlock} markers={hostMarkers} />}
+              </div>
+            )}
+
+            {/* Subnet Split Section */}
+            {results && (
+              <div className="bg-gray-50 p-3 sm:p-4 rounded-md">
+                <button
+                  onClick={() => setShowSplit(!showSplit)}
+                  className="w-full flex items-center justify-between text-gray-700 hover:text-gray-900"
+                >
+                  <span className="text-xs sm:text-sm font-medium">
+                    {showSplit ? 'Hide' : 'Show'} Subnet Split ({results.networkAddress}/{results.maskBits})
+                  </span>
+                  {showSplit ? (
+                    <ChevronUpIcon className="h-4 w-4 sm:h-5 sm:w-5" />
+                  ) : (
+                    <ChevronDownIcon className="h-4 w-4 sm:h-5 sm:w-5" />
+                  )}
+                </button>
+                {showSplit && (
+                  <SubnetSplitter
+                    results={results}
+                    initialTargetBits={splitPrefix}
+                    onTargetBitsChange={setSplitPrefix}
+                  />
                 )}
               </div>
             )}
-            {results && results.totalHosts > 1024 && (
-              <div className="text-xs sm:text-sm text-gray-500 italic">
-                Host list is only available for subnets with 1024 or fewer addresses
+
+            {/* Config Generator Section */}
+            {results && (
+              <div className="bg-gray-50 p-3 sm:p-4 rounded-md">
+                <button
+                  onClick={() => setShowConfig(!showConfig)}
+                  className="w-full flex items-center justify-between text-gray-700 hover:text-gray-900"
+                >
+                  <span className="text-xs sm:text-sm font-medium">
+                    {showConfig ? 'Hide' : 'Generate'} Config
+                  </span>
+                  {showConfig ? (
+                    <ChevronUpIcon className="h-4 w-4 sm:h-5 sm:w-5" />
+                  ) : (
+                    <ChevronDownIcon className="h-4 w-4 sm:h-5 sm:w-5" />
+                  )}
+                </button>
+                {showConfig && <ConfigGenerator network={configNetworkFromSubnet(results)} />}
+              </div>
+            )}
+
+            {/* Reverse DNS Section */}
+            {results && (
+              <div className="bg-gray-50 p-3 sm:p-4 rounded-md">
+                <button
+                  onClick={() => setShowDns(!showDns)}
+                  className="w-full flex items-center justify-between text-gray-700 hover:text-gray-900"
+                >
+                  <span className="text-xs sm:text-sm font-medium">
+                    {showDns ? 'Hide' : 'Show'} Reverse DNS
+                  </span>
+                  {showDns ? (
+                    <ChevronUpIcon className="h-4 w-4 sm:h-5 sm:w-5" />
+                  ) : (
+                    <ChevronDownIcon className="h-4 w-4 sm:h-5 sm:w-5" />
+                  )}
+                </button>
+                {showDns && <ReverseDnsPanel network={configNetworkFromSubnet(results)} hosts={ptrHosts} />}
               </div>
             )}
           </div>
@@ -0,0 +1,238 @@
+import { useState, useEffect, useMemo } from 'react';
+import { ChevronLeftIcon, ChevronRightIcon } from '@heroicons/react/24/outline';
+import type { SubnetResults } from '../utils/subnet';
+import {
+  getSplitCount,
+  getSplitSubnets,
+  prefixForSubnetCount,
+  findSplitIndex
+} from '../utils/split';
+import { splitExportData } from '../utils/export';
+import ExportMenu from './ExportMenu';
+
+const PAGE_SIZE = 64;
+const MAX_EXPORT_ROWS = 65536;
+
+interface SubnetSplitterProps {
+  results: SubnetResults;
+  initialTargetBits?: number | null;
+  onTargetBitsChange?: (targetBits: number | null) => void;
+}
+
+export default function SubnetSplitter({ results, initialTargetBits = null, onTargetBitsChange }: SubnetSplitterProps) {
+  const [splitBy, setSplitBy] = useState<'prefix' | 'count'>('prefix');
+  const [splitValue, setSplitValue] = useState(initialTargetBits === null ? '' : initialTargetBits.toString());
+  const [page, setPage] = useState(0);
+  const [highlighted, setHighlighted] = useState<number | null>(null);
+  const [jumpIndex, setJumpIndex] = useState('');
+  const [jumpIP, setJumpIP] = useState('');
+  const [jumpError, setJumpError] = useState<string | null>(null);
+
+  const parentBits = results.maskBits;
+
+  const targetBits = useMemo(() => {
+    const value = parseInt(splitValue, 10);
+    if (!/^\d+$/.test(splitValue.trim()) || isNaN(value)) return null;
+    if (splitBy === 'count') return prefixForSubnetCount(parentBits, value);
+    return value >= parentBits && value <= 32 ? value : null;
+  }, [splitBy, splitValue, parentBits]);
+
+  const count = targetBits === null ? 0 : getSplitCount(parentBits, targetBits);
+  const pageCount = Math.ceil(count / PAGE_SIZE);
+
+  useEffect(() => {
+    onTargetBitsChange?.(targetBits);
+  }, [targetBits, onTargetBitsChange]);
+
+  useEffect(() => {
+    setPage(0);
+    setHighlighted(null);
+    setJumpError(null);
+  }, [results.networkAddress, parentBits, targetBits]);
+
+  const subnets = useMemo(() => {
+    if (targetBits === null) return [];
+    return getSplitSubnets(results.networkAddress, parentBits, targetBits, page * PAGE_SIZE, PAGE_SIZE);
+  }, [results.networkAddress, parentBits, targetBits, page]);
+
+  const goToIndex = (index: number) => {
+    setPage(Math.floor(index / PAGE_SIZE));
+    setHighlighted(index);
+    setJumpError(null);
+  };
+
+  const handleJumpToIndex = () => {
+    const index = parseInt(jumpIndex, 10);
+    if (!/^\d+$/.test(jumpIndex.trim()) || index >= count) {
+      setJumpError(`Subnet index must be between 0 and ${(count - 1).toLocaleString()}`);
+      return;
+    }
+    goToIndex(index);
+  };
+
+  const handleJumpToIP = () => {
+    if (targetBits === null) return;
+    const index = findSplitIndex(results.networkAddress, parentBits, targetBits, jumpIP.trim());
+    if (index === null) {
+      setJumpError(`${jumpIP} is not an address inside ${results.networkAddress}/${parentBits}`);
+      return;
+    }
+    goToIndex(index);
+  };
+
+  const getExportData = (all: boolean) => {
+    if (targetBits === null) return null;
+    const rows = all
+      ? getSplitSubnets(results.networkAddress, parentBits, targetBits, 0, count)
+      : subnets;
+    return splitExportData(rows, targetBits);
+  };
+
+  const splitError = splitValue && targetBits === null
+    ? splitBy === 'prefix'
+      ? `Target prefix must be between /${parentBits} and /32`
+      : `Subnet count must be between 1 and ${getSplitCount(parentBits, 32).toLocaleString()}`
+    : null;
+
+  return (
+    <div className="mt-4 space-y-4">
+      <div className="flex flex-wrap items-center gap-2 sm:gap-4">
+        <select
+          className="rounded-md border border-gray-300 px-2 sm:px-4 py-2 focus:border-blue-500 focus:ring-1 focus:ring-blue-500 bg-white text-gray-700 text-sm"
+          value={splitBy}
+          onChange={(e) => {
+            setSplitBy(e.target.value as 'prefix' | 'count');
+            setSplitValue('');
+          }}
+        >
+          <option value="prefix">Target prefix</option>
+          <option value="count">Subnet count</option>
+        </select>
+        <input
+          type="text"
+          placeholder={splitBy === 'prefix' ? `e.g., ${Math.min(parentBits + 2, 32)}` : 'e.g., 4'}
+          value={splitValue}
+          onChange={(e) => setSplitValue(e.target.value)}
+          className={`w-32 rounded-md border ${
+            splitError ? 'border-red-300 focus:border-red-500' : 'border-gray-300 focus:border-blue-500'
+          } px-2 sm:px-4 py-2 focus:ring-1 focus:ring-blue-500 transition-colors text-sm`}
+        />
+        {targetBits !== null && (
+          <span className="text-xs sm:text-sm text-gray-600">
+            {count.toLocaleString()} × /{targetBits} subnets
+          </span>
+        )}
+      </div>
+
+      {splitError && (
+        <div className="text-red-600 text-sm font-medium p-3 bg-red-50 rounded-md border border-red-200">
+          {splitError}
+        </div>
+      )}
+
+      {targetBits !== null && (
+        <>
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              type="text"
+              placeholder="Subnet #"
+              value={jumpIndex}
+              onChange={(e) => setJumpIndex(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleJumpToIndex()}
+              className="w-28 rounded-md border border-gray-300 px-2 py-1 text-sm focus:border-blue-500 focus:ring-1 focus:ring-blue-500"
+            />
+            <button
+              onClick={handleJumpToIndex}
+              className="px-3 py-1 rounded-md text-sm font-medium bg-gray-200 text-gray-700 hover:bg-gray-300"
+            >
+              Go
+            </button>
+            <input
+              type="text"
+              placeholder="Find IP, e.g., 172.16.5.9"
+              value={jumpIP}
+              onChange={(e) => setJumpIP(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleJumpToIP()}
+              className="w-48 rounded-md border border-gray-300 px-2 py-1 text-sm focus:border-blue-500 focus:ring-1 focus:ring-blue-500"
+            />
+            <button
+              onClick={handleJumpToIP}
+              className="px-3 py-1 rounded-md text-sm font-medium bg-gray-200 text-gray-700 hover:bg-gray-300"
+            >
+              Find
+            </button>
+            <div className="flex-1" />
+            <ExportMenu
+              label="Page"
+              filename={`subnet-split-${results.networkAddress}-${parentBits}-to-${targetBits}-page-${page + 1}`}
+              getData={() => getExportData(false)}
+              size="sm"
+            />
+            <ExportMenu
+              label="All"
+              filename={`subnet-split-${results.networkAddress}-${parentBits}-to-${targetBits}`}
+              getData={() => getExportData(true)}
+              disabled={count > MAX_EXPORT_ROWS}
+              disabledReason={`Full export is limited to ${MAX_EXPORT_ROWS.toLocaleString()} subnets`}
+              size="sm"
+            />
+          </div>
+
+          {jumpError && (
+            <div className="text-red-600 text-sm font-medium p-3 bg-red-50 rounded-md border border-red-200">
+              {jumpError}
+            </div>
+          )}
+
+          <div className="overflow-x-auto max-h-96 overflow-y-auto">
+            <table className="min-w-full text-xs sm:text-sm text-left">
+              <thead className="bg-gray-100 text-gray-500 sticky top-0">
+                <tr>
+                  <th className="px-3 py-2 font-medium">#</th>
+                  <th className="px-3 py-2 font-medium">Network</th>
+                  <th className="px-3 py-2 font-medium">Broadcast</th>
+                  <th className="px-3 py-2 font-medium">Host Range</th>
+                  <th className="px-3 py-2 font-medium">Usable</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100 font-mono text-gray-700">
+                {subnets.map(subnet => (
+                  <tr
+                    key={subnet.index}
+                    className={subnet.index === highlighted ? 'bg-yellow-100' : 'hover:bg-blue-50'}
+                  >
+                    <td className="px-3 py-1">{subnet.index.toLocaleString()}</td>
+                    <td className="px-3 py-1">{subnet.networkAddress}/{targetBits}</td>
+                    <td className="px-3 py-1">{subnet.broadcastAddress}</td>
+                    <td className="px-3 py-1">{subnet.firstHostIP ? `${subnet.firstHostIP} - ${subnet.lastHostIP}` : '-'}</td>
+                    <td className="px-3 py-1">{subnet.totalHosts.toLocaleString()}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex items-center justify-center gap-4 text-xs sm:text-sm text-gray-600">
+            <button
+              onClick={() => setPage(page - 1)}
+              disabled={page === 0}
+              className="p-1 rounded-md hover:bg-gray-200 disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              <ChevronLeftIcon className="h-4 w-4" />
+            </button>
+            <span>
+              Page {(page + 1).toLocaleString()} of {pageCount.toLocaleString()}
+            </span>
+            <button
+              onClick={() => setPage(page + 1)}
+              disabled={page >= pageCount - 1}
+              className="p-1 rounded-md hover:bg-gray-200 disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              <ChevronRightIcon className="h-4 w-4" />
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,221 @@
+import { useEffect, useMemo, useState } from 'react';
+import { InformationCircleIcon, ClipboardIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import { Tooltip } from 'react-tooltip';
+import { parseIPv6 } from '../utils/ipv6';
+import { isValidIPAddress } from '../utils/subnet';
+import {
+  LOCAL_USE_NAT64_PREFIX,
+  WELL_KNOWN_NAT64_PREFIX,
+  decodeTransitionAddress,
+  formatNat64Prefix,
+  ipv4TransitionForms,
+  parseNat64Prefix
+} from '../utils/transition';
+import type { Nat64Prefix } from '../utils/transition';
+import type { ToolState } from '../utils/permalink';
+
+type Nat64Choice = 'well-known' | 'local-use' | 'custom';
+
+const NAT64_CHOICES: Nat64Choice[] = ['well-known', 'local-use', 'custom'];
+
+const inputClasses = 'w-full rounded-md border px-2 sm:px-4 py-2 focus:ring-1 focus:ring-cyan-500 transition-colors text-sm sm:text-base font-mono';
+
+interface TransitionTranslatorProps {
+  initialState?: ToolState<'transition'>;
+  onStateChange?: (state: ToolState<'transition'>) => void;
+}
+
+export default function TransitionTranslator({ initialState = {}, onStateChange }: TransitionTranslatorProps) {
+  const [ipv4Text, setIPv4Text] = useState(initialState.ipv4 ?? '');
+  const [ipv6Text, setIPv6Text] = useState(initialState.ipv6 ?? '');
+  const [nat64Choice, setNat64Choice] = useState<Nat64Choice>(
+    () => NAT64_CHOICES.find(choice => choice === initialState.nat64) ?? 'well-known'
+  );
+  const [customPrefix, setCustomPrefix] = useState(initialState.prefix ?? '');
+  const [copied, setCopied] = useState('');
+
+  useEffect(() => {
+    onStateChange?.({
+      ipv4: ipv4Text,
+      ipv6: ipv6Text,
+      nat64: nat64Choice === 'well-known' ? undefined : nat64Choice,
+      prefix: nat64Choice === 'custom' ? customPrefix : undefined
+    });
+  }, [ipv4Text, ipv6Text, nat64Choice, customPrefix, onStateChange]);
+
+  const custom = useMemo(
+    () => (customPrefix.trim() ? parseNat64Prefix(customPrefix) : { prefix: null, error: null }),
+    [customPrefix]
+  );
+
+  let nat64: Nat64Prefix | null = WELL_KNOWN_NAT64_PREFIX;
+  if (nat64Choice === 'local-use') nat64 = LOCAL_USE_NAT64_PREFIX;
+  if (nat64Choice === 'custom') nat64 = custom.prefix;
+
+  const ipv4 = ipv4Text.trim();
+  const ipv4Valid = isValidIPAddress(ipv4);
+  const forms = useMemo(
+    () => (ipv4Valid ? ipv4TransitionForms(ipv4, nat64 ?? WELL_KNOWN_NAT64_PREFIX) : []),
+    [ipv4, ipv4Valid, nat64]
+  );
+  // Without a usable custom prefix the NAT64 row would be misleading
+  const shownForms = nat64 ? forms : forms.filter(form => form.mechanism !== 'nat64');
+
+  const ipv6Value = ipv6Text.trim() ? parseIPv6(ipv6Text.trim()) : null;
+  const decoded = useMemo(() => {
+    if (ipv6Value === null) return [];
+    // The well-known and local-use prefixes are always recognised; a custom
+    // prefix is checked as well when one is configured
+    const prefixes = [WELL_KNOWN_NAT64_PREFIX, LOCAL_USE_NAT64_PREFIX];
+    const extra = custom.prefix;
+    if (extra && !prefixes.some(prefix => prefix.value === extra.value && prefix.length === extra.length)) {
+      prefixes.push(extra);
+    }
+    return decodeTransitionAddress(ipv6Value, prefixes);
+  }, [ipv6Value, custom.prefix]);
+
+  const copyToClipboard = (text: string, label: string) => {
+    navigator.clipboard.writeText(text);
+    setCopied(label);
+    setTimeout(() => setCopied(''), 2000);
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-4 sm:p-6 md:p-8 w-full max-w-[95vw] mx-auto">
+      <div className="space-y-6 sm:space-y-8 text-left">
+        {/* NAT64 prefix */}
+        <div className="space-y-2">
+          <div className="flex items-center gap-2">
+            <label htmlFor="nat64Prefix" className="block text-sm font-medium text-gray-700">
+              NAT64 Prefix
+            </label>
+            <InformationCircleIcon
+              className="h-4 w-4 text-gray-400 cursor-help"
+              data-tooltip-id="nat64-prefix-tooltip"
+            />
+            <Tooltip id="nat64-prefix-tooltip" place="top">
+              RFC 6052 allows /32, /40, /48, /56, /64 and /96 prefixes; bits 64-71 of the address stay zero
+            </Tooltip>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2 sm:gap-4">
+            <select
+              id="nat64Prefix"
+              value={nat64Choice}
+              onChange={(e) => setNat64Choice(e.target.value as Nat64Choice)}
+              className="w-full rounded-md border border-gray-300 focus:border-cyan-500 px-2 sm:px-4 py-2 focus:ring-1 focus:ring-cyan-500 transition-colors text-sm sm:text-base bg-white text-gray-700"
+            >
+              <option value="well-known">Well-known {formatNat64Prefix(WELL_KNOWN_NAT64_PREFIX)} (RFC 6052)</option>
+              <option value="local-use">Local-use {formatNat64Prefix(LOCAL_USE_NAT64_PREFIX)} (RFC 8215)</option>
+              <option value="custom">Custom network-specific prefix</option>
+            </select>
+            {nat64Choice === 'custom' && (
+              <input
+                type="text"
+                placeholder="e.g., 2001:db8:122::/48"
+                value={customPrefix}
+                onChange={(e) => setCustomPrefix(e.target.value)}
+                className={`${inputClasses} ${custom.error ? 'border-red-300 focus:border-red-500' : 'border-gray-300 focus:border-cyan-500'}`}
+              />
+            )}
+          </div>
+          {nat64Choice === 'custom' && custom.error && (
+            <p className="text-xs text-red-600">{custom.error}</p>
+          )}
+        </div>
+
+        {/* IPv4 to IPv6 */}
+        <div className="space-y-4">
+          <h2 className="text-lg sm:text-xl font-semibold text-gray-800">IPv4 to IPv6</h2>
+          <input
+            type="text"
+            placeholder="e.g., 192.0.2.1"
+            value={ipv4Text}
+            onChange={(e) => setIPv4Text(e.target.value)}
+            className={`${inputClasses} ${ipv4 && !ipv4Valid ? 'border-red-300 focus:border-red-500' : 'border-gray-300 focus:border-cyan-500'}`}
+          />
+          {ipv4 && !ipv4Valid && (
+            <div className="text-red-600 text-sm font-medium p-3 bg-red-50 rounded-md border border-red-200">
+              Invalid IPv4 address
+            </div>
+          )}
+          {shownForms.length > 0 && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2 sm:gap-4">
+              {shownForms.map(form => (
+                <div key={form.mechanism} className="bg-cyan-50 p-3 rounded-md space-y-1">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-xs sm:text-sm font-medium text-gray-600">
+                      {form.name} <span className="text-gray-400">{form.rfc}</span>
+                    </span>
+                    <button
+                      onClick={() => copyToClipboard(form.address, form.mechanism)}
+                      className="p-1 rounded-md hover:bg-cyan-100"
+                      title={copied === form.mechanism ? 'Copied!' : 'Copy to clipboard'}
+                    >
+                      <ClipboardIcon className={`h-4 w-4 ${copied === form.mechanism ? 'text-green-500' : 'text-gray-400'}`} />
+                    </button>
+                  </div>
+                  <div className="text-sm sm:text-base font-semibold text-gray-900 font-mono break-all">{form.address}</div>
+                  {form.note && (
+                    <p className={`text-xs flex items-start gap-1 ${form.mechanism === 'nat64' ? 'text-amber-700' : 'text-gray-500'}`}>
+                      {form.mechanism === 'nat64' && <ExclamationTriangleIcon className="h-4 w-4 flex-shrink-0" />}
+                      {form.note}
+                    </p>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* IPv6 to IPv4 */}
+        <div className="space-y-4">
+          <h2 className="text-lg sm:text-xl font-semibold text-gray-800">IPv6 to IPv4</h2>
+          <input
+            type="text"
+            placeholder="e.g., 2002:c000:201::1, 64:ff9b::c000:201 or 2001:0:4136:e378:8000:63bf:3fff:fdd2"
+            value={ipv6Text}
+            onChange={(e) => setIPv6Text(e.target.value)}
+            className={`${inputClasses} ${ipv6Text.trim() && ipv6Value === null ? 'border-red-300 focus:border-red-500' : 'border-gray-300 focus:border-cyan-500'}`}
+          />
+          {ipv6Text.trim() && ipv6Value === null && (
+            <div className="text-red-600 text-sm font-medium p-3 bg-red-50 rounded-md border border-red-200">
+              Invalid IPv6 address
+            </div>
+          )}
+          {ipv6Value !== null && decoded.length === 0 && (
+            <p className="text-xs sm:text-sm text-gray-500">
+              No embedded IPv4 address: the address is not IPv4-mapped, IPv4-compatible, 6to4, Teredo or under a known NAT64 prefix.
+            </p>
+          )}
+          {decoded.map(found => (
+            <div key={found.name} className="bg-cyan-50 p-3 rounded-md space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-xs sm:text-sm font-medium text-gray-600">
+                  {found.name} <span className="text-gray-400">{found.rfc}</span>
+                </span>
+                <button
+                  onClick={() => copyToClipboard(found.ipv4, found.name)}
+                  className="p-1 rounded-md hover:bg-cyan-100"
+                  title={copied === found.name ? 'Copied!' : 'Copy to clipboard'}
+                >
+                  <ClipboardIcon className={`h-4 w-4 ${copied === found.name ? 'text-green-500' : 'text-gray-400'}`} />
+                </button>
+              </div>
+              <div className="text-sm sm:text-base font-semibold text-gray-900 font-mono">{found.ipv4}</div>
+              {found.fields.length > 0 && (
+                <dl className="grid grid-cols-1 sm:grid-cols-2 gap-x-4 gap-y-1 text-xs sm:text-sm">
+                  {found.fields.map(([label, value]) => (
+                    <div key={label} className="flex gap-2">
+                      <dt className="text-gray-500">{label}:</dt>
+                      <dd className="font-mono text-gray-800 break-all">{value}</dd>
+                    </div>
+                  ))}
+                </dl>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,200 @@
+import { useEffect, useMemo, useState } from 'react';
+import { InformationCircleIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import { Tooltip } from 'react-tooltip';
+import { formatAddress, parseCIDR } from '../utils/cidr';
+import { parseHostRequirements, planVLSM } from '../utils/vlsm';
+import type { ToolState } from '../utils/permalink';
+
+const EXAMPLE_REQUIREMENTS = 'users: 300\nvoice: 120\nmgmt: 25\np2p links: 4 x 2';
+
+interface VLSMPlannerProps {
+  initialState?: ToolState<'vlsm'>;
+  onStateChange?: (state: ToolState<'vlsm'>) => void;
+}
+
+export default function VLSMPlanner({ initialState = {}, onStateChange }: VLSMPlannerProps) {
+  const [parentNetwork, setParentNetwork] = useState(initialState.network ?? '');
+  const [requirementsText, setRequirementsText] = useState(initialState.hosts ?? '');
+
+  useEffect(() => {
+    onStateChange?.({ network: parentNetwork, hosts: requirementsText });
+  }, [parentNetwork, requirementsText, onStateChange]);
+
+  // parseCIDR rejects extra segments such as 10.0.0.0/22/5; the prefix is required
+  const parentBlock = useMemo(() => {
+    const block = parentNetwork.includes('/') ? parseCIDR(parentNetwork) : null;
+    return block?.version === 4 ? block : null;
+  }, [parentNetwork]);
+  const parentValid = parentBlock !== null;
+
+  const parsed = useMemo(() => parseHostRequirements(requirementsText), [requirementsText]);
+
+  const plan = useMemo(() => {
+    if (!parentBlock || parsed.requirements.length === 0) return null;
+    return planVLSM(formatAddress(4, parentBlock.start), `/${parentBlock.prefixLength}`, parsed.requirements);
+  }, [parentBlock, parsed]);
+
+  const error = parentNetwork && !parentValid
+    ? 'Invalid parent network (use CIDR notation, e.g., 10.20.0.0/22)'
+    : parsed.errors.length > 0
+      ? parsed.errors.join('\n')
+      : null;
+
+  const usedAddresses = plan
+    ? plan.allocations.reduce((sum, a) => sum + Math.pow(2, 32 - a.maskBits), 0)
+    : 0;
+  const parentSize = plan ? Math.pow(2, 32 - plan.parent.maskBits) : 0;
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-4 sm:p-6 md:p-8 w-full max-w-[95vw] mx-auto">
+      <div className="space-y-6 sm:space-y-8">
+        {/* Input Section */}
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 sm:gap-6 text-left">
+          <div className="space-y-2">
+            <div className="flex items-center gap-2">
+              <label htmlFor="parentNetwork" className="block text-sm font-medium text-gray-700">
+                Parent Network
+              </label>
+              <InformationCircleIcon
+                className="h-4 w-4 text-gray-400 cursor-help"
+                data-tooltip-id="parent-network-tooltip"
+              />
+              <Tooltip id="parent-network-tooltip" place="top">
+                The block to carve subnets from, in CIDR notation (e.g., 10.20.0.0/22)
+              </Tooltip>
+            </div>
+            <input
+              type="text"
+              id="parentNetwork"
+              placeholder="e.g., 10.20.0.0/22"
+              value={parentNetwork}
+              onChange={(e) => setParentNetwork(e.target.value)}
+              className={`w-full rounded-md border ${
+                parentNetwork && !parentValid
+                  ? 'border-red-300 focus:border-red-500'
+                  : 'border-gray-300 focus:border-blue-500'
+              } px-2 sm:px-4 py-2 focus:ring-1 focus:ring-blue-500 transition-colors text-sm sm:text-base`}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center gap-2">
+              <label htmlFor="hostRequirements" className="block text-sm font-medium text-gray-700">
+                Host Requirements
+              </label>
+              <InformationCircleIcon
+                className="h-4 w-4 text-gray-400 cursor-help"
+                data-tooltip-id="requirements-tooltip"
+              />
+              <Tooltip id="requirements-tooltip" place="top">
+                One subnet per line as "name: hosts", or "name: count x hosts" for repeated subnets
+              </Tooltip>
+            </div>
+            <textarea
+              id="hostRequirements"
+              rows={5}
+              placeholder={EXAMPLE_REQUIREMENTS}
+              value={requirementsText}
+              onChange={(e) => setRequirementsText(e.target.value)}
+              className="w-full rounded-md border border-gray-300 focus:border-blue-500 px-2 sm:px-4 py-2 focus:ring-1 focus:ring-blue-500 transition-colors text-sm sm:text-base font-mono"
+            />
+          </div>
+        </div>
+
+        {error && (
+          <div className="text-red-600 text-sm font-medium p-4 bg-red-50 rounded-md border border-red-200 whitespace-pre-line text-left">
+            {error}
+          </div>
+        )}
+
+        {/* Utilization */}
+        <div className="relative h-4 bg-gray-100 rounded-full overflow-hidden">
+          <div
+            className="absolute inset-y-0 left-0 bg-blue-500 transition-all duration-300"
+            style={{ width: `${parentSize ? (usedAddresses / parentSize) * 100 : 0}%` }}
+          />
+          <div className="absolute inset-0 flex items-center justify-center text-xs font-medium text-gray-900">
+            Allocated: {usedAddresses.toLocaleString()} / {parentSize.toLocaleString()} addresses
+          </div>
+        </div>
+
+        {plan && plan.unallocated.length > 0 && (
+          <div className="flex items-start gap-2 text-amber-800 text-sm p-4 bg-amber-50 rounded-md border border-amber-200 text-left">
+            <ExclamationTriangleIcon className="h-5 w-5 flex-shrink-0" />
+            <div>
+              <p className="font-medium">Requirements that do not fit in {plan.parent.networkAddress}/{plan.parent.maskBits}:</p>
+              <ul className="list-disc list-inside">
+                {plan.unallocated.map((requirement, index) => (
+                  <li key={index}>{requirement.name} ({requirement.hosts.toLocaleString()} hosts)</li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        )}
+
+        {/* Allocations */}
+        <div className="space-y-4">
+          <h2 className="text-lg sm:text-xl font-semibold text-gray-800">Allocations</h2>
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-xs sm:text-sm text-left">
+              <thead className="bg-gray-50 text-gray-500">
+                <tr>
+                  <th className="px-3 py-2 font-medium">Name</th>
+                  <th className="px-3 py-2 font-medium">Needed</th>
+                  <th className="px-3 py-2 font-medium">Network</th>
+                  <th className="px-3 py-2 font-medium">Mask</th>
+                  <th className="px-3 py-2 font-medium">Usable Range</th>
+                  <th className="px-3 py-2 font-medium">Broadcast</th>
+                  <th className="px-3 py-2 font-medium">Usable</th>
+                  <th className="px-3 py-2 font-medium">Wasted</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100 font-mono text-gray-700">
+                {plan && plan.allocations.map((allocation, index) => (
+                  <tr key={index} className="hover:bg-blue-50">
+                    <td className="px-3 py-2 font-sans font-medium text-gray-900">{allocation.name}</td>
+                    <td className="px-3 py-2">{allocation.requiredHosts.toLocaleString()}</td>
+                    <td className="px-3 py-2">{allocation.networkAddress}/{allocation.maskBits}</td>
+                    <td className="px-3 py-2">{allocation.subnetMask}</td>
+                    <td className="px-3 py-2">{allocation.firstHostIP} - {allocation.lastHostIP}</td>
+                    <td className="px-3 py-2">{allocation.broadcastAddress}</td>
+                    <td className="px-3 py-2">{allocation.usableHosts.toLocaleString()}</td>
+                    <td className="px-3 py-2">{allocation.wastedAddresses.toLocaleString()}</td>
+                  </tr>
+                ))}
+                {(!plan || plan.allocations.length === 0) && (
+                  <tr>
+                    <td colSpan={8} className="px-3 py-4 text-center font-sans text-gray-400">-</td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        {/* Free Space */}
+        {plan && (
+          <div className="space-y-4">
+            <h2 className="text-lg sm:text-xl font-semibold text-gray-800">Free Blocks</h2>
+            {plan.freeBlocks.length > 0 ? (
+              <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-2">
+                {plan.freeBlocks.map((block, index) => (
+                  <div key={index} className="bg-green-50 p-3 rounded-md text-left">
+                    <p className="text-sm font-semibold text-gray-900 font-mono">
+                      {block.networkAddress}/{block.maskBits}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {block.networkAddress} - {block.lastAddress} ({block.size.toLocaleString()} addresses)
+                    </p>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-xs sm:text-sm text-gray-500 italic">The parent network is fully allocated</p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,303 @@
+import { useEffect, useMemo, useState } from 'react';
+import { InformationCircleIcon, ClipboardIcon, CheckCircleIcon, XCircleIcon } from '@heroicons/react/24/outline';
+import { Tooltip } from 'react-tooltip';
+import { groupDigits } from '../utils/ipv6';
+import {
+  contiguousPrefix,
+  formatWildcardEntry,
+  listMatches,
+  matchCount,
+  matchesWildcard,
+  minimalWildcardCover,
+  parseCoverInput,
+  parseIPv4Value,
+  parseWildcardEntry,
+  renderAclLines
+} from '../utils/wildcard';
+import type { AclAction, AclStyle } from '../utils/wildcard';
+import type { ToolState } from '../utils/permalink';
+
+const PAGE_SIZE = 256;
+
+const inputClasses = 'w-full rounded-md border border-gray-300 focus:border-rose-500 px-2 sm:px-4 py-2 focus:ring-1 focus:ring-rose-500 transition-colors text-sm sm:text-base font-mono';
+const selectClasses = 'rounded-md border border-gray-300 focus:border-rose-500 px-2 py-1 focus:ring-1 focus:ring-rose-500 text-sm bg-white text-gray-700';
+
+interface WildcardToolProps {
+  initialState?: ToolState<'wildcard'>;
+  onStateChange?: (state: ToolState<'wildcard'>) => void;
+}
+
+export default function WildcardTool({ initialState = {}, onStateChange }: WildcardToolProps) {
+  const [addressText, setAddressText] = useState(initialState.address ?? '');
+  const [wildcardText, setWildcardText] = useState(initialState.wildcard ?? '');
+  const [testText, setTestText] = useState(initialState.test ?? '');
+  const [page, setPage] = useState(0);
+  const [coverText, setCoverText] = useState(initialState.cover ?? '');
+  const [action, setAction] = useState<AclAction>(initialState.action === 'deny' ? 'deny' : 'permit');
+  const [style, setStyle] = useState<AclStyle>(initialState.style === 'extended' ? 'extended' : 'standard');
+  const [aclName, setAclName] = useState(initialState.name ?? '');
+  const [copied, setCopied] = useState('');
+
+  useEffect(() => {
+    onStateChange?.({
+      address: addressText,
+      wildcard: wildcardText,
+      test: testText,
+      cover: coverText,
+      action: action === 'permit' ? undefined : action,
+      style: style === 'standard' ? undefined : style,
+      name: aclName
+    });
+  }, [addressText, wildcardText, testText, coverText, action, style, aclName, onStateChange]);
+
+  const parsed = useMemo(
+    () => (addressText.trim() && wildcardText.trim() ? parseWildcardEntry(addressText, wildcardText) : { entry: null, errors: [] }),
+    [addressText, wildcardText]
+  );
+  const entry = parsed.entry;
+  const total = entry ? matchCount(entry) : 0;
+  const pageCount = Math.ceil(total / PAGE_SIZE);
+  const currentPage = Math.min(page, Math.max(pageCount - 1, 0));
+  const matches = useMemo(
+    () => (entry ? listMatches(entry, currentPage * PAGE_SIZE, PAGE_SIZE) : []),
+    [entry, currentPage]
+  );
+  const prefix = entry ? contiguousPrefix(entry) : null;
+
+  const testValue = testText.trim() ? parseIPv4Value(testText) : null;
+
+  const coverInput = useMemo(() => parseCoverInput(coverText), [coverText]);
+  const cover = useMemo(
+    () => (coverInput.ranges.length > 0 ? minimalWildcardCover(coverInput.ranges) : null),
+    [coverInput]
+  );
+  const aclText = cover ? renderAclLines(cover.entries, action, style, aclName) : '';
+
+  const copyToClipboard = (text: string, label: string) => {
+    navigator.clipboard.writeText(text);
+    setCopied(label);
+    setTimeout(() => setCopied(''), 2000);
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-4 sm:p-6 md:p-8 w-full max-w-[95vw] mx-auto">
+      <div className="space-y-6 sm:space-y-8 text-left">
+        {/* Address / wildcard entry */}
+        <div className="space-y-4">
+          <h2 className="text-lg sm:text-xl font-semibold text-gray-800">Match an Address and Wildcard</h2>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 sm:gap-6">
+            <div className="space-y-2">
+              <label htmlFor="wildcardAddress" className="block text-sm font-medium text-gray-700">
+                Address
+              </label>
+              <input
+                type="text"
+                id="wildcardAddress"
+                placeholder="e.g., 10.0.0.1"
+                value={addressText}
+                onChange={(e) => {
+                  setAddressText(e.target.value);
+                  setPage(0);
+                }}
+                className={inputClasses}
+              />
+            </div>
+            <div className="space-y-2">
+              <div className="flex items-center gap-2">
+                <label htmlFor="wildcardMask" className="block text-sm font-medium text-gray-700">
+                  Wildcard
+                </label>
+                <InformationCircleIcon
+                  className="h-4 w-4 text-gray-400 cursor-help"
+                  data-tooltip-id="wildcard-mask-tooltip"
+                />
+                <Tooltip id="wildcard-mask-tooltip" place="top">
+                  1 bits are ignored when matching; they need not be contiguous (0.0.255.0 matches any third octet)
+                </Tooltip>
+              </div>
+              <input
+                type="text"
+                id="wildcardMask"
+                placeholder="e.g., 0.0.255.0"
+                value={wildcardText}
+                onChange={(e) => {
+                  setWildcardText(e.target.value);
+                  setPage(0);
+                }}
+                className={inputClasses}
+              />
+            </div>
+          </div>
+
+          {parsed.errors.length > 0 && (
+            <div className="text-red-600 text-sm font-medium p-3 bg-red-50 rounded-md border border-red-200">
+              <ul className="list-disc list-inside">
+                {parsed.errors.map(error => <li key={error}>{error}</li>)}
+              </ul>
+            </div>
+          )}
+
+          {entry && (
+            <>
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 sm:gap-4">
+                <div className="bg-rose-50 p-3 rounded-md">
+                  <div className="text-xs sm:text-sm font-medium text-gray-600">ACL Entry</div>
+                  <div className="text-sm sm:text-base font-semibold text-gray-900 font-mono break-all">{formatWildcardEntry(entry)}</div>
+                </div>
+                <div className="bg-rose-50 p-3 rounded-md">
+                  <div className="text-xs sm:text-sm font-medium text-gray-600">Matching Addresses</div>
+                  <div className="text-sm sm:text-base font-semibold text-gray-900">{groupDigits(total)}</div>
+                </div>
+                <div className="bg-rose-50 p-3 rounded-md">
+                  <div className="text-xs sm:text-sm font-medium text-gray-600">Equivalent Prefix</div>
+                  <div className="text-sm sm:text-base font-semibold text-gray-900 font-mono">
+                    {prefix === null ? 'None (non-contiguous)' : `/${prefix}`}
+                  </div>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <label htmlFor="wildcardTest" className="block text-sm font-medium text-gray-700">
+                  Test Address
+                </label>
+                <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+                  <input
+                    type="text"
+                    id="wildcardTest"
+                    placeholder="e.g., 10.0.42.1"
+                    value={testText}
+                    onChange={(e) => setTestText(e.target.value)}
+                    className={`${inputClasses} sm:flex-1`}
+                  />
+                  {testText.trim() && testValue === null && (
+                    <span className="text-sm text-red-600">Invalid IPv4 address</span>
+                  )}
+                  {testValue !== null && (matchesWildcard(entry, testValue) ? (
+                    <span className="flex items-center gap-1 text-sm font-medium text-green-700">
+                      <CheckCircleIcon className="h-5 w-5" /> Matches
+                    </span>
+                  ) : (
+                    <span className="flex items-center gap-1 text-sm font-medium text-red-600">
+                      <XCircleIcon className="h-5 w-5" /> Does not match
+                    </span>
+                  ))}
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <span className="text-sm font-medium text-gray-700">
+                    Matches {groupDigits(currentPage * PAGE_SIZE + 1)}-{groupDigits(currentPage * PAGE_SIZE + matches.length)} of {groupDigits(total)}
+                  </span>
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={() => setPage(currentPage - 1)}
+                      disabled={currentPage === 0}
+                      className="px-3 py-1 rounded-md text-sm font-medium bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      Previous
+                    </button>
+                    <button
+                      onClick={() => setPage(currentPage + 1)}
+                      disabled={currentPage >= pageCount - 1}
+                      className="px-3 py-1 rounded-md text-sm font-medium bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      Next
+                    </button>
+                    <button
+                      onClick={() => copyToClipboard(matches.join('\n'), 'matches')}
+                      className="p-1 rounded-md hover:bg-gray-100"
+                      title={copied === 'matches' ? 'Copied!' : 'Copy this page'}
+                    >
+                      <ClipboardIcon className={`h-4 w-4 ${copied === 'matches' ? 'text-green-500' : 'text-gray-400'}`} />
+                    </button>
+                  </div>
+                </div>
+                <div className="grid grid-cols-2 sm:grid-cols-4 md:grid-cols-6 gap-1 max-h-64 overflow-y-auto bg-gray-50 p-2 rounded-md">
+                  {matches.map(match => (
+                    <span key={match} className="font-mono text-xs sm:text-sm text-gray-700">{match}</span>
+                  ))}
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+
+        {/* Minimal cover */}
+        <div className="space-y-4">
+          <h2 className="text-lg sm:text-xl font-semibold text-gray-800">Build Wildcard Entries</h2>
+          <div className="space-y-2">
+            <div className="flex items-center gap-2">
+              <label htmlFor="coverInput" className="block text-sm font-medium text-gray-700">
+                Range or Subnets
+              </label>
+              <InformationCircleIcon
+                className="h-4 w-4 text-gray-400 cursor-help"
+                data-tooltip-id="cover-input-tooltip"
+              />
+              <Tooltip id="cover-input-tooltip" place="top">
+                A start-end range, or subnets separated by new lines, commas or spaces
+              </Tooltip>
+            </div>
+            <textarea
+              id="coverInput"
+              rows={5}
+              placeholder={'e.g.,\n10.0.0.5 - 10.0.0.20\nor\n10.1.0.0/24\n10.3.0.0/24'}
+              value={coverText}
+              onChange={(e) => setCoverText(e.target.value)}
+              className={inputClasses}
+            />
+          </div>
+
+          {coverInput.errors.length > 0 && (
+            <div className="text-red-600 text-sm font-medium p-3 bg-red-50 rounded-md border border-red-200">
+              <ul className="list-disc list-inside">
+                {coverInput.errors.map(error => <li key={error}>{error}</li>)}
+              </ul>
+            </div>
+          )}
+
+          <div className="flex flex-wrap items-center gap-3">
+            <select value={action} onChange={(e) => setAction(e.target.value as AclAction)} className={selectClasses}>
+              <option value="permit">permit</option>
+              <option value="deny">deny</option>
+            </select>
+            <select value={style} onChange={(e) => setStyle(e.target.value as AclStyle)} className={selectClasses}>
+              <option value="standard">Standard ACL</option>
+              <option value="extended">Extended ACL (to any)</option>
+            </select>
+            <input
+              type="text"
+              placeholder="ACL name (optional)"
+              value={aclName}
+              onChange={(e) => setAclName(e.target.value)}
+              className={`${selectClasses} font-mono`}
+            />
+          </div>
+
+          {cover && (
+            <>
+              <p className="text-xs sm:text-sm text-gray-500">
+                {cover.entries.length} wildcard {cover.entries.length === 1 ? 'entry' : 'entries'} instead of {cover.blockCount} CIDR{' '}
+                {cover.blockCount === 1 ? 'block' : 'blocks'}
+                {cover.truncated && ' (the input is too large or fragmented to minimize exactly, so the result may not be minimal)'}
+              </p>
+              <div className="relative">
+                <pre className="bg-gray-900 text-gray-100 text-xs sm:text-sm font-mono p-4 rounded-md overflow-x-auto max-h-96">
+                  {aclText}
+                </pre>
+                <button
+                  onClick={() => copyToClipboard(aclText, 'acl')}
+                  className="absolute top-2 right-2 p-1 rounded-md bg-gray-700 hover:bg-gray-600"
+                  title={copied === 'acl' ? 'Copied!' : 'Copy to clipboard'}
+                >
+                  <ClipboardIcon className={`h-4 w-4 ${copied === 'acl' ? 'text-green-400' : 'text-gray-300'}`} />
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
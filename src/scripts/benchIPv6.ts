@@ -0,0 +1,208 @@
+// Times calculateIPv6Subnet on a bulk list against the string-based version
+// it replaced. Run with `npm run bench:ipv6`.
+import { calculateIPv6Subnet, formatIPv6 } from '../utils/ipv6';
+
+const ADDRESS_COUNT = 100000;
+const ROUNDS = 5;
+
+// The string implementation as it was before the bigint rewrite, kept
+// verbatim as the baseline: addresses go through 128-character binary
+// strings, and callers validated the text separately first
+
+interface LegacyResults {
+  networkAddress: string;
+  lastAddress: string;
+  totalAddresses: string;
+}
+
+function legacyIsValidIPv6Address(address: string): boolean {
+  try {
+    if (address === '') return false;
+
+    // Remove any leading/trailing whitespace
+    address = address.trim();
+
+    // Check for proper use of ::
+    const doubleColonCount = (address.match(/::/g) || []).length;
+    if (doubleColonCount > 1) return false;
+
+    // Split the address into its segments
+    const segments = address.split(':');
+
+    // Handle ::
+    if (doubleColonCount === 1) {
+      const parts = address.split('::');
+      const before = parts[0] ? parts[0].split(':') : [];
+      const after = parts[1] ? parts[1].split(':') : [];
+
+      if (before.length + after.length > 7) return false;
+    } else {
+      // Without ::, we should have exactly 8 segments
+      if (segments.length !== 8) return false;
+    }
+
+    // Validate each segment
+    return segments.every(segment => {
+      if (segment === '') return true; // Allow empty segments for ::
+      if (segment.length > 4) return false;
+      return /^[0-9A-Fa-f]{1,4}$/.test(segment);
+    });
+  } catch {
+    return false;
+  }
+}
+
+function legacyExpandIPv6Address(address: string): string {
+  // Handle empty or invalid input
+  if (!address) return '';
+
+  // Split on :: to handle compressed sections
+  const parts = address.split('::');
+
+  if (parts.length > 2) return ''; // Invalid if more than one ::
+
+  let before = parts[0] ? parts[0].split(':') : [];
+  let after = parts[1] ? parts[1].split(':') : [];
+
+  // Expand each section to 4 digits
+  before = before.map(x => x.padStart(4, '0'));
+  after = after.map(x => x.padStart(4, '0'));
+
+  // Calculate how many zero sections we need
+  const missing = 8 - (before.length + after.length);
+  const zeros = Array(missing).fill('0000');
+
+  // Combine all parts
+  const full = [...before, ...zeros, ...after];
+
+  return full.join(':');
+}
+
+function legacyCalculateIPv6Subnet(address: string, prefixLength: number): LegacyResults | null {
+  try {
+    // Expand the address to its full form
+    const expandedAddress = legacyExpandIPv6Address(address);
+    if (!expandedAddress) return null;
+
+    // Convert to binary
+    let binary = '';
+    expandedAddress.split(':').forEach(hex => {
+      binary += parseInt(hex, 16).toString(2).padStart(16, '0');
+    });
+
+    // Apply network mask
+    const networkBinary = binary.substring(0, prefixLength) + '0'.repeat(128 - prefixLength);
+    const lastBinary = binary.substring(0, prefixLength) + '1'.repeat(128 - prefixLength);
+
+    // Convert back to hex
+    const networkAddress = [];
+    const lastAddress = [];
+    for (let i = 0; i < 128; i += 16) {
+      networkAddress.push(parseInt(networkBinary.substr(i, 16), 2).toString(16).padStart(4, '0'));
+      lastAddress.push(parseInt(lastBinary.substr(i, 16), 2).toString(16).padStart(4, '0'));
+    }
+
+    // Calculate total addresses
+    const totalBits = 128 - prefixLength;
+    const totalAddresses = totalBits === 0 ? '1' : `2^${totalBits}`;
+
+    return {
+      networkAddress: legacyCompress(networkAddress.join(':')),
+      lastAddress: legacyCompress(lastAddress.join(':')),
+      totalAddresses
+    };
+  } catch {
+    return null;
+  }
+}
+
+function legacyCompress(address: string): string {
+  // Find the longest sequence of zero segments
+  const segments = address.split(':');
+  let longestZeroStart = -1;
+  let longestZeroLength = 0;
+  let currentZeroStart = -1;
+  let currentZeroLength = 0;
+
+  for (let i = 0; i < segments.length; i++) {
+    if (segments[i] === '0000') {
+      if (currentZeroStart === -1) currentZeroStart = i;
+      currentZeroLength++;
+
+      if (currentZeroLength > longestZeroLength) {
+        longestZeroStart = currentZeroStart;
+        longestZeroLength = currentZeroLength;
+      }
+    } else {
+      currentZeroStart = -1;
+      currentZeroLength = 0;
+    }
+  }
+
+  // Compress the longest zero sequence if it's at least 2 segments long
+  if (longestZeroLength >= 2) {
+    const before = segments.slice(0, longestZeroStart).map(s => parseInt(s, 16).toString(16));
+    const after = segments.slice(longestZeroStart + longestZeroLength).map(s => parseInt(s, 16).toString(16));
+    return [...before, '', ...after].join(':');
+  }
+
+  // Just remove leading zeros from each segment
+  return segments.map(s => parseInt(s, 16).toString(16)).join(':');
+}
+
+// A fixed seed keeps runs comparable: a small linear congruential generator
+let seed = 1;
+function random(limit: number): number {
+  seed = (seed * 1103515245 + 12345) % 2147483648;
+  return seed % limit;
+}
+
+const inputs = Array.from({ length: ADDRESS_COUNT }, () => {
+  let value = 0n;
+  for (let word = 0; word < 8; word++) value = (value << 16n) | BigInt(random(4) === 0 ? 0 : random(65536));
+  return { address: formatIPv6(value), prefixLength: random(129) };
+});
+
+function time(run: () => void): number {
+  let best = Infinity;
+  for (let round = 0; round < ROUNDS; round++) {
+    const start = performance.now();
+    run();
+    best = Math.min(best, performance.now() - start);
+  }
+  return best;
+}
+
+// The old compression dropped a colon when the zero run was at either end
+// ("b100:" for b100::, "" for ::); restore it so the results can be compared
+function repairLegacy(address: string | undefined): string | undefined {
+  if (address === '') return '::';
+  if (address?.endsWith(':') && !address.endsWith('::')) return `${address}:`;
+  if (address?.startsWith(':') && !address.startsWith('::')) return `:${address}`;
+  return address;
+}
+
+// Both versions must agree before their speed means anything
+for (const { address, prefixLength } of inputs.slice(0, 1000)) {
+  const legacy = legacyCalculateIPv6Subnet(address, prefixLength);
+  const current = calculateIPv6Subnet(address, prefixLength);
+  if (
+    repairLegacy(legacy?.networkAddress) !== current?.networkAddress ||
+    repairLegacy(legacy?.lastAddress) !== current?.lastAddress
+  ) {
+    throw new Error(`${address}/${prefixLength}: results differ`);
+  }
+}
+
+const legacyTime = time(() => {
+  for (const { address, prefixLength } of inputs) {
+    if (legacyIsValidIPv6Address(address)) legacyCalculateIPv6Subnet(address, prefixLength);
+  }
+});
+const currentTime = time(() => {
+  for (const { address, prefixLength } of inputs) calculateIPv6Subnet(address, prefixLength);
+});
+
+console.log(`${ADDRESS_COUNT} addresses, best of ${ROUNDS} rounds`);
+console.log(`string version: ${legacyTime.toFixed(1)} ms`);
+console.log(`bigint version: ${currentTime.toFixed(1)} ms (${(legacyTime / currentTime).toFixed(2)}x)`);
@@ -0,0 +1,38 @@
+// Regression checks for the wildcard cover. Run with `npm run check:wildcard`;
+// throws on the first failing case.
+import { matchesWildcard, minimalWildcardCover, parseCoverInput, formatWildcardEntry } from '../utils/wildcard';
+
+interface CoverCheck {
+  input: string;
+  // Size of the smallest exact cover
+  entries: number;
+}
+
+const CHECKS: CoverCheck[] = [
+  { input: '10.0.0.0/24', entries: 1 },
+  { input: '10.1.0.0/24 10.3.0.0/24', entries: 1 },
+  { input: '10.0.0.5 - 10.0.0.20', entries: 5 },
+  // A /24 among /25s only merges with them once everything is cut to /25s:
+  // 10.0.0.0 0.0.3.127 plus 10.0.1.0 0.0.0.255
+  { input: '10.0.0.0/25 10.0.1.0/24 10.0.2.0/25 10.0.3.0/25', entries: 2 }
+];
+
+for (const check of CHECKS) {
+  const { ranges } = parseCoverInput(check.input);
+  const cover = minimalWildcardCover(ranges);
+  const described = `${check.input}: ${cover.entries.map(formatWildcardEntry).join(', ')}`;
+
+  if (cover.entries.length !== check.entries) {
+    throw new Error(`${described} has ${cover.entries.length} entries, expected ${check.entries}`);
+  }
+
+  const low = Number(ranges.reduce((min, range) => (range.start < min ? range.start : min), ranges[0].start));
+  const high = Number(ranges.reduce((max, range) => (range.end > max ? range.end : max), ranges[0].end));
+  for (let address = low - 256; address <= high + 256; address++) {
+    const wanted = ranges.some(range => BigInt(address) >= range.start && BigInt(address) <= range.end);
+    if (cover.entries.some(entry => matchesWildcard(entry, address)) !== wanted) {
+      throw new Error(`${described} ${wanted ? 'misses' : 'also matches'} address ${address}`);
+    }
+  }
+  console.log(`ok  ${described}`);
+}
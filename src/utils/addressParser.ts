@@ -0,0 +1,254 @@
+export type ParseErrorCode =
+  | 'empty'
+  | 'whitespace'
+  | 'invalid-character'
+  | 'octet-count'
+  | 'empty-octet'
+  | 'leading-zero'
+  | 'octet-range'
+  | 'group-count'
+  | 'group-length'
+  | 'empty-group'
+  | 'multiple-double-colon'
+  | 'misplaced-colon'
+  | 'misplaced-ipv4'
+  | 'prefix-format'
+  | 'prefix-range'
+  | 'non-contiguous-mask';
+
+// `start`/`end` index into the original input (end exclusive) so callers can
+// highlight the offending characters; an empty span marks a missing piece
+export interface ParseError {
+  code: ParseErrorCode;
+  message: string;
+  start: number;
+  end: number;
+}
+
+export type ParseResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; error: ParseError };
+
+function fail<T>(code: ParseErrorCode, message: string, start: number, end: number): ParseResult<T> {
+  return { ok: false, error: { code, message, start, end } };
+}
+
+const ORDINALS = ['first', 'second', 'third', 'fourth', 'fifth', 'sixth', 'seventh', 'eighth', 'ninth'];
+
+function ordinal(index: number): string {
+  return ORDINALS[index] ?? `#${index + 1}`;
+}
+
+// Surrounding whitespace is tolerated; anything inside the address is not
+function trimmedBounds(text: string): [number, number] {
+  let start = 0;
+  let end = text.length;
+  while (start < end && /\s/.test(text[start])) start++;
+  while (end > start && /\s/.test(text[end - 1])) end--;
+  return [start, end];
+}
+
+function findInvalidCharacter(text: string, start: number, end: number, allowed: RegExp): ParseResult<never> | null {
+  for (let i = start; i < end; i++) {
+    const char = text[i];
+    if (allowed.test(char)) continue;
+    if (/\s/.test(char)) {
+      return fail('whitespace', `unexpected whitespace at position ${i + 1}`, i, i + 1);
+    }
+    return fail('invalid-character', `unexpected character '${char}' at position ${i + 1}`, i, i + 1);
+  }
+  return null;
+}
+
+function octetSpans(text: string, start: number, end: number): [number, number][] {
+  const spans: [number, number][] = [];
+  let octetStart = start;
+  for (let i = start; i <= end; i++) {
+    if (i === end || text[i] === '.') {
+      spans.push([octetStart, i]);
+      octetStart = i + 1;
+    }
+  }
+  return spans;
+}
+
+function parseIPv4Range(text: string, start: number, end: number): ParseResult<number> {
+  const invalid = findInvalidCharacter(text, start, end, /[0-9.]/);
+  if (invalid) return invalid;
+
+  const octets = octetSpans(text, start, end);
+  if (octets.length !== 4) {
+    const [errorStart, errorEnd] = octets.length > 4 ? [octets[4][0] - 1, end] : [end, end];
+    return fail('octet-count', `expected 4 octets but found ${octets.length}`, errorStart, errorEnd);
+  }
+
+  let value = 0;
+  for (let index = 0; index < 4; index++) {
+    const [octetStart, octetEnd] = octets[index];
+    const digits = text.substring(octetStart, octetEnd);
+
+    if (digits.length === 0) {
+      return fail('empty-octet', `octet ${index + 1} is empty`, octetStart, octetEnd);
+    }
+    if (digits.length > 1 && digits[0] === '0') {
+      return fail('leading-zero', `octet ${index + 1} has leading zeros, which are ambiguous (octal or decimal)`, octetStart, octetEnd);
+    }
+
+    const octet = parseInt(digits, 10);
+    if (octet > 255) {
+      return fail('octet-range', `octet ${index + 1} exceeds 255`, octetStart, octetEnd);
+    }
+    value = value * 256 + octet;
+  }
+
+  return { ok: true, value };
+}
+
+function parsePrefixRange(text: string, start: number, end: number, maxLength: number): ParseResult<number> {
+  if (start === end) return fail('empty', 'prefix length is missing', start, end);
+
+  const invalid = findInvalidCharacter(text, start, end, /[0-9]/);
+  if (invalid) return invalid;
+
+  const digits = text.substring(start, end);
+  if (digits.length > 1 && digits[0] === '0') {
+    return fail('prefix-format', 'prefix length has leading zeros', start, end);
+  }
+
+  const value = parseInt(digits, 10);
+  if (value > maxLength) {
+    return fail('prefix-range', `prefix length exceeds ${maxLength}`, start, end);
+  }
+  return { ok: true, value };
+}
+
+export function parseIPv4Strict(text: string): ParseResult<number> {
+  const [start, end] = trimmedBounds(text);
+  if (start === end) return fail('empty', 'address is empty', 0, text.length);
+  return parseIPv4Range(text, start, end);
+}
+
+export function parsePrefixLengthStrict(text: string, maxLength: number): ParseResult<number> {
+  const [start, end] = trimmedBounds(text);
+  return parsePrefixRange(text, start, end, maxLength);
+}
+
+// Accepts "/24" or a dotted mask such as 255.255.255.0; yields the prefix length
+export function parseMaskStrict(text: string): ParseResult<number> {
+  const [start, end] = trimmedBounds(text);
+  if (start === end) return fail('empty', 'mask is empty', 0, text.length);
+
+  if (text[start] === '/') {
+    return parsePrefixRange(text, start + 1, end, 32);
+  }
+
+  const parsed = parseIPv4Range(text, start, end);
+  if (!parsed.ok) return parsed;
+
+  const bits = parsed.value.toString(2).padStart(32, '0');
+  const firstZero = bits.indexOf('0');
+  const strayOne = firstZero === -1 ? -1 : bits.indexOf('1', firstZero);
+  if (strayOne !== -1) {
+    const [octetStart, octetEnd] = octetSpans(text, start, end)[Math.floor(strayOne / 8)];
+    return fail('non-contiguous-mask', `non-contiguous mask bit at position ${strayOne + 1}`, octetStart, octetEnd);
+  }
+
+  return { ok: true, value: firstZero === -1 ? 32 : firstZero };
+}
+
+interface Group {
+  start: number;
+  end: number;
+}
+
+export function parseIPv6Strict(text: string): ParseResult<bigint> {
+  const [start, end] = trimmedBounds(text);
+  if (start === end) return fail('empty', 'address is empty', 0, text.length);
+
+  const invalid = findInvalidCharacter(text, start, end, /[0-9A-Fa-f:.]/);
+  if (invalid) return invalid;
+
+  const body = text.substring(start, end);
+  const tripleColon = body.indexOf(':::');
+  if (tripleColon !== -1) {
+    return fail('misplaced-colon', `':::' is not valid at position ${start + tripleColon + 1}`, start + tripleColon, start + tripleColon + 3);
+  }
+
+  const firstDouble = body.indexOf('::');
+  const secondDouble = firstDouble === -1 ? -1 : body.indexOf('::', firstDouble + 2);
+  if (secondDouble !== -1) {
+    return fail('multiple-double-colon', "more than one '::'", start + secondDouble, start + secondDouble + 2);
+  }
+
+  if (body[0] === ':' && firstDouble !== 0) {
+    return fail('misplaced-colon', "address cannot start with a single ':'", start, start + 1);
+  }
+  if (body[body.length - 1] === ':' && firstDouble !== body.length - 2) {
+    return fail('misplaced-colon', "address cannot end with a single ':'", end - 1, end);
+  }
+
+  const splitGroups = (from: number, to: number): Group[] => {
+    if (from === to) return [];
+    const groups: Group[] = [];
+    let groupStart = from;
+    for (let i = from; i <= to; i++) {
+      if (i === to || text[i] === ':') {
+        groups.push({ start: groupStart, end: i });
+        groupStart = i + 1;
+      }
+    }
+    return groups;
+  };
+
+  const head = firstDouble === -1 ? splitGroups(start, end) : splitGroups(start, start + firstDouble);
+  const tail = firstDouble === -1 ? [] : splitGroups(start + firstDouble + 2, end);
+  const all = [...head, ...tail];
+
+  let hex = '';
+  let tailHex = '';
+  let groupCount = 0;
+
+  for (let index = 0; index < all.length; index++) {
+    const group = all[index];
+    const isLast = group.end === end;
+    const content = text.substring(group.start, group.end);
+
+    if (content.length === 0) {
+      return fail('empty-group', `group ${index + 1} is empty`, group.start, group.end);
+    }
+
+    let groupHex: string;
+    if (content.includes('.')) {
+      if (!isLast) {
+        return fail('misplaced-ipv4', 'an embedded IPv4 address is only allowed in the last 32 bits', group.start, group.end);
+      }
+      const ipv4 = parseIPv4Range(text, group.start, group.end);
+      if (!ipv4.ok) return ipv4;
+      groupHex = ipv4.value.toString(16).padStart(8, '0');
+      groupCount += 2;
+    } else {
+      if (content.length > 4) {
+        return fail('group-length', `${ordinal(index)} group has more than 4 hex digits`, group.start, group.end);
+      }
+      groupHex = content.padStart(4, '0');
+      groupCount += 1;
+    }
+
+    if (index < head.length) {
+      hex += groupHex;
+    } else {
+      tailHex += groupHex;
+    }
+  }
+
+  if (firstDouble === -1 && groupCount !== 8) {
+    const [errorStart, errorEnd] = groupCount > 8 ? [all[8]?.start ?? end, end] : [end, end];
+    return fail('group-count', `expected 8 groups but found ${groupCount}`, errorStart, errorEnd);
+  }
+  if (firstDouble !== -1 && groupCount > 7) {
+    return fail('group-count', `too many groups to use '::' (found ${groupCount}, at most 7 allowed)`, start + firstDouble, start + firstDouble + 2);
+  }
+
+  const full = hex + '0'.repeat(32 - hex.length - tailHex.length) + tailHex;
+  return { ok: true, value: BigInt(`0x${full}`) };
+}
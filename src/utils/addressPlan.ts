@@ -0,0 +1,468 @@
+import { calculateSubnet, convertCIDRToMask } from './subnet';
+import { calculateIPv6Subnet } from './ipv6';
+import { parseIPv4Strict, parseIPv6Strict, parseMaskStrict, parsePrefixLengthStrict } from './addressParser';
+import { addressBits, blockEnd, blockSize, formatCIDR, parseAddress, parseCIDR, rangeToBlocks } from './cidr';
+import type { AddressRange, CIDRBlock } from './cidr';
+import { createId } from './id';
+import { parseCSV } from './csv';
+
+export interface PlanDetails {
+  name: string;
+  vlan: string;
+  site: string;
+  owner: string;
+  notes: string;
+}
+
+// Allocations are stored flat with a parent link, which keeps updates simple
+// and maps one-to-one onto CSV rows. A null parent marks a root block.
+export interface PlanAllocation extends PlanDetails {
+  id: string;
+  parentId: string | null;
+  cidr: string;
+}
+
+export interface AddressPlan {
+  name: string;
+  allocations: PlanAllocation[];
+  updatedAt: number;
+}
+
+export interface PlanUsage {
+  total: bigint;
+  used: bigint;
+  free: bigint;
+  freeBlocks: CIDRBlock[];
+}
+
+export interface FlatAllocation {
+  allocation: PlanAllocation;
+  depth: number;
+  parentCidr: string;
+}
+
+type PlanResult = { plan: AddressPlan | null; error: string | null };
+
+export const EMPTY_DETAILS: PlanDetails = { name: '', vlan: '', site: '', owner: '', notes: '' };
+
+const PLAN_STORAGE_KEY = 'subnet-calculator:plan';
+const PLAN_FILE_FORMAT = 'subnet-calculator-plan';
+const PLAN_FILE_VERSION = 1;
+
+// Parses "network/prefix" (or an IPv4 network with a dotted mask) and insists
+// on the network address itself, since an allocation written with host bits
+// set is almost always a typo
+export function parsePlanBlock(text: string): { block: CIDRBlock | null; error: string | null } {
+  const trimmed = text.trim();
+  const slash = trimmed.indexOf('/');
+  if (slash === -1) return { block: null, error: 'Enter a network with its prefix length, e.g. 10.0.0.0/16' };
+
+  const addressText = trimmed.substring(0, slash);
+  const maskText = trimmed.substring(slash + 1);
+  let network: string;
+  let prefixLength: number;
+
+  if (addressText.includes(':')) {
+    const address = parseIPv6Strict(addressText);
+    if (!address.ok) return { block: null, error: `Invalid IPv6 address: ${address.error.message}` };
+    const prefix = parsePrefixLengthStrict(maskText, 128);
+    if (!prefix.ok) return { block: null, error: `Invalid prefix length: ${prefix.error.message}` };
+    const results = calculateIPv6Subnet(addressText, prefix.value);
+    if (!results) return { block: null, error: 'Error calculating subnet' };
+    network = results.networkAddress;
+    prefixLength = results.prefixLength;
+  } else {
+    const address = parseIPv4Strict(addressText);
+    if (!address.ok) return { block: null, error: `Invalid IPv4 address: ${address.error.message}` };
+    const mask = maskText.includes('.') ? parseMaskStrict(maskText) : parsePrefixLengthStrict(maskText, 32);
+    if (!mask.ok) return { block: null, error: `Invalid subnet mask: ${mask.error.message}` };
+    const results = calculateSubnet(addressText.trim(), convertCIDRToMask(mask.value));
+    if (!results) return { block: null, error: 'Error calculating subnet' };
+    network = results.networkAddress;
+    prefixLength = results.maskBits;
+  }
+
+  const block = parseCIDR(`${network}/${prefixLength}`);
+  if (!block) return { block: null, error: 'Error calculating subnet' };
+  if (parseAddress(addressText)?.value !== block.start) {
+    return { block: null, error: `${trimmed} has host bits set; the network is ${formatCIDR(block)}` };
+  }
+  return { block, error: null };
+}
+
+export function allocationBlock(allocation: PlanAllocation): CIDRBlock {
+  const block = parseCIDR(allocation.cidr);
+  // Stored CIDRs are written by formatCIDR and checked on load, so this only
+  // trips on a plan that was built by hand
+  if (!block) throw new Error(`Allocation ${allocation.id} has an invalid network: ${allocation.cidr}`);
+  return block;
+}
+
+// Children of every allocation (null for the roots), sorted by start address
+type ChildIndex = Map<string | null, PlanAllocation[]>;
+
+// Plans are replaced rather than changed on every edit, so the index can be
+// cached per plan object; rendering the tree then stays linear in its size
+const childIndexes = new WeakMap<AddressPlan, ChildIndex>();
+
+function childIndex(plan: AddressPlan): ChildIndex {
+  const cached = childIndexes.get(plan);
+  if (cached) return cached;
+
+  const index: ChildIndex = new Map();
+  const blocks = new Map(plan.allocations.map(allocation => [allocation.id, allocationBlock(allocation)]));
+  const blockOf = (allocation: PlanAllocation) => blocks.get(allocation.id) ?? allocationBlock(allocation);
+  for (const allocation of plan.allocations) {
+    const siblings = index.get(allocation.parentId);
+    if (siblings) {
+      siblings.push(allocation);
+    } else {
+      index.set(allocation.parentId, [allocation]);
+    }
+  }
+  index.forEach(siblings => siblings.sort((a, b) => {
+    const blockA = blockOf(a);
+    const blockB = blockOf(b);
+    if (blockA.version !== blockB.version) return blockA.version - blockB.version;
+    return blockA.start < blockB.start ? -1 : blockA.start > blockB.start ? 1 : 0;
+  }));
+
+  childIndexes.set(plan, index);
+  return index;
+}
+
+export function getChildren(plan: AddressPlan, parentId: string | null): PlanAllocation[] {
+  return childIndex(plan).get(parentId) ?? [];
+}
+
+function overlaps(a: CIDRBlock, b: CIDRBlock): boolean {
+  return a.version === b.version && a.start <= blockEnd(b) && b.start <= blockEnd(a);
+}
+
+function checkVlan(vlan: string): string | null {
+  const trimmed = vlan.trim();
+  if (!trimmed) return null;
+  const id = parseInt(trimmed, 10);
+  return /^\d{1,4}$/.test(trimmed) && id >= 1 && id <= 4094 ? null : `VLAN must be a number from 1 to 4094`;
+}
+
+// A block must sit inside its parent, be smaller than it, and not overlap
+// any sibling. Since CIDR blocks only nest, overlapping a sibling means
+// containing it or being contained by it.
+export function checkAllocation(plan: AddressPlan, parentId: string | null, block: CIDRBlock): string | null {
+  const cidr = formatCIDR(block);
+  const parent = parentId === null ? null : plan.allocations.find(allocation => allocation.id === parentId);
+  if (parent === undefined) return 'Parent allocation no longer exists';
+
+  if (parent) {
+    const parentBlock = allocationBlock(parent);
+    if (parentBlock.version !== block.version) {
+      return `${cidr} is IPv${block.version} but ${parent.cidr} is IPv${parentBlock.version}`;
+    }
+    if (block.start < parentBlock.start || blockEnd(block) > blockEnd(parentBlock)) {
+      return `${cidr} is outside its parent ${parent.cidr}`;
+    }
+    if (block.prefixLength <= parentBlock.prefixLength) {
+      return `${cidr} must be smaller than its parent ${parent.cidr}`;
+    }
+  }
+
+  // A plain scan: the plan is about to be replaced, so indexing it would not pay
+  const sibling = plan.allocations.find(other => other.parentId === parentId && overlaps(allocationBlock(other), block));
+  if (sibling) {
+    const label = sibling.name ? `${sibling.cidr} (${sibling.name})` : sibling.cidr;
+    return sibling.cidr === cidr ? `${cidr} is already allocated` : `${cidr} overlaps ${label}`;
+  }
+  return null;
+}
+
+export function createPlan(name: string, rootText: string, timestamp: number): PlanResult {
+  const empty: AddressPlan = { name: name.trim() || 'Address plan', allocations: [], updatedAt: timestamp };
+  return addAllocation(empty, null, rootText, EMPTY_DETAILS, timestamp);
+}
+
+export function addAllocation(
+  plan: AddressPlan,
+  parentId: string | null,
+  cidrText: string,
+  details: PlanDetails,
+  timestamp: number
+): PlanResult {
+  const { block, error } = parsePlanBlock(cidrText);
+  if (!block) return { plan: null, error };
+
+  const problem = checkAllocation(plan, parentId, block) ?? checkVlan(details.vlan);
+  if (problem) return { plan: null, error: problem };
+
+  const allocation: PlanAllocation = { ...details, id: createId(), parentId, cidr: formatCIDR(block) };
+  return { plan: { ...plan, allocations: [...plan.allocations, allocation], updatedAt: timestamp }, error: null };
+}
+
+export function updateAllocationDetails(plan: AddressPlan, id: string, details: PlanDetails, timestamp: number): PlanResult {
+  const error = checkVlan(details.vlan);
+  if (error) return { plan: null, error };
+  return {
+    plan: {
+      ...plan,
+      allocations: plan.allocations.map(allocation => allocation.id === id ? { ...allocation, ...details } : allocation),
+      updatedAt: timestamp
+    },
+    error: null
+  };
+}
+
+// Removing an allocation releases its whole subtree
+export function removeAllocation(plan: AddressPlan, id: string, timestamp: number): AddressPlan {
+  const removed = new Set([id]);
+  let grew = true;
+  while (grew) {
+    grew = false;
+    for (const allocation of plan.allocations) {
+      if (allocation.parentId !== null && removed.has(allocation.parentId) && !removed.has(allocation.id)) {
+        removed.add(allocation.id);
+        grew = true;
+      }
+    }
+  }
+  return { ...plan, allocations: plan.allocations.filter(allocation => !removed.has(allocation.id)), updatedAt: timestamp };
+}
+
+function freeRanges(plan: AddressPlan, allocation: PlanAllocation): AddressRange[] {
+  const block = allocationBlock(allocation);
+  const ranges: AddressRange[] = [];
+  let cursor = block.start;
+
+  for (const child of getChildren(plan, allocation.id)) {
+    const childBlock = allocationBlock(child);
+    if (childBlock.start > cursor) ranges.push({ version: block.version, start: cursor, end: childBlock.start - 1n });
+    cursor = blockEnd(childBlock) + 1n;
+  }
+  if (cursor <= blockEnd(block)) ranges.push({ version: block.version, start: cursor, end: blockEnd(block) });
+  return ranges;
+}
+
+export function getUsage(plan: AddressPlan, allocation: PlanAllocation): PlanUsage {
+  const total = blockSize(allocationBlock(allocation));
+  const used = getChildren(plan, allocation.id).reduce((sum, child) => sum + blockSize(allocationBlock(child)), 0n);
+  return {
+    total,
+    used,
+    free: total - used,
+    freeBlocks: freeRanges(plan, allocation).flatMap(rangeToBlocks)
+  };
+}
+
+// First-fit: the lowest aligned block of the requested size in the free space
+// of the parent, or null when none is left
+export function suggestNextFree(plan: AddressPlan, parentId: string, prefixLength: number): string | null {
+  const parent = plan.allocations.find(allocation => allocation.id === parentId);
+  if (!parent) return null;
+
+  const parentBlock = allocationBlock(parent);
+  if (prefixLength <= parentBlock.prefixLength || prefixLength > addressBits(parentBlock.version)) return null;
+
+  const size = 1n << BigInt(addressBits(parentBlock.version) - prefixLength);
+  for (const range of freeRanges(plan, parent)) {
+    const start = (range.start + size - 1n) / size * size;
+    if (start + size - 1n <= range.end) {
+      return formatCIDR({ version: parentBlock.version, start, prefixLength });
+    }
+  }
+  return null;
+}
+
+// Depth-first in address order, the order the tree and the exports use
+export function flattenPlan(plan: AddressPlan): FlatAllocation[] {
+  const flat: FlatAllocation[] = [];
+  const visit = (parentId: string | null, parentCidr: string, depth: number) => {
+    for (const allocation of getChildren(plan, parentId)) {
+      flat.push({ allocation, depth, parentCidr });
+      visit(allocation.id, allocation.cidr, depth + 1);
+    }
+  };
+  visit(null, '', 0);
+  return flat;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+function readDetails(value: Record<string, unknown>): PlanDetails {
+  const text = (field: unknown) => typeof field === 'string' ? field : typeof field === 'number' ? field.toString() : '';
+  return {
+    name: text(value.name),
+    vlan: text(value.vlan),
+    site: text(value.site),
+    owner: text(value.owner),
+    notes: text(value.notes)
+  };
+}
+
+function isPlanAllocation(value: unknown): value is PlanAllocation {
+  return isRecord(value)
+    && typeof value.id === 'string'
+    && (value.parentId === null || typeof value.parentId === 'string')
+    && typeof value.cidr === 'string'
+    && parseCIDR(value.cidr) !== null
+    && ['name', 'vlan', 'site', 'owner', 'notes'].every(field => typeof value[field] === 'string');
+}
+
+function isAddressPlan(value: unknown): value is AddressPlan {
+  return isRecord(value)
+    && typeof value.name === 'string'
+    && typeof value.updatedAt === 'number'
+    && Array.isArray(value.allocations)
+    && value.allocations.every(isPlanAllocation);
+}
+
+export function loadPlan(): AddressPlan | null {
+  try {
+    const parsed: unknown = JSON.parse(localStorage.getItem(PLAN_STORAGE_KEY) ?? 'null');
+    return isAddressPlan(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+export function savePlan(plan: AddressPlan | null) {
+  try {
+    if (plan) {
+      localStorage.setItem(PLAN_STORAGE_KEY, JSON.stringify(plan));
+    } else {
+      localStorage.removeItem(PLAN_STORAGE_KEY);
+    }
+  } catch {
+    // Storage can be full or disabled (private browsing); the plan can still
+    // be exported
+  }
+}
+
+interface PlanFileNode extends PlanDetails {
+  cidr: string;
+  children: PlanFileNode[];
+}
+
+// The file nests children under their parent, which reads naturally and
+// makes the hierarchy impossible to get inconsistent by hand. Page links
+// carry it without indentation.
+export function exportPlanJSON(plan: AddressPlan, indent = 2): string {
+  const toNode = (allocation: PlanAllocation): PlanFileNode => ({
+    cidr: allocation.cidr,
+    name: allocation.name,
+    vlan: allocation.vlan,
+    site: allocation.site,
+    owner: allocation.owner,
+    notes: allocation.notes,
+    children: getChildren(plan, allocation.id).map(toNode)
+  });
+
+  return JSON.stringify({
+    format: PLAN_FILE_FORMAT,
+    version: PLAN_FILE_VERSION,
+    plan: { name: plan.name, allocations: getChildren(plan, null).map(toNode) }
+  }, null, indent);
+}
+
+// Every allocation goes through addAllocation again, so an imported file is
+// held to the same rules as allocations made in the editor
+export function importPlanJSON(text: string, timestamp: number): PlanResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { plan: null, error: 'File is not valid JSON' };
+  }
+
+  if (!isRecord(parsed) || parsed.format !== PLAN_FILE_FORMAT || !isRecord(parsed.plan)) {
+    return { plan: null, error: 'File is not an exported address plan' };
+  }
+  if (parsed.version !== PLAN_FILE_VERSION) {
+    return { plan: null, error: `Unsupported address plan file version: ${String(parsed.version)}` };
+  }
+
+  const { name, allocations } = parsed.plan;
+  if (!Array.isArray(allocations)) return { plan: null, error: 'Address plan is missing its allocations' };
+
+  let plan: AddressPlan = { name: typeof name === 'string' ? name : 'Imported plan', allocations: [], updatedAt: timestamp };
+  const addNodes = (nodes: unknown[], parentId: string | null): string | null => {
+    for (const node of nodes) {
+      if (!isRecord(node) || typeof node.cidr !== 'string') return 'Allocation is missing its cidr';
+      const result = addAllocation(plan, parentId, node.cidr, readDetails(node), timestamp);
+      if (!result.plan) return result.error;
+      plan = result.plan;
+
+      const id = plan.allocations[plan.allocations.length - 1].id;
+      const error = addNodes(Array.isArray(node.children) ? node.children : [], id);
+      if (error) return error;
+    }
+    return null;
+  };
+
+  const error = addNodes(allocations, null);
+  return error ? { plan: null, error } : { plan, error: null };
+}
+
+const CSV_COLUMNS: Record<string, keyof PlanDetails | 'cidr'> = {
+  network: 'cidr',
+  cidr: 'cidr',
+  name: 'name',
+  vlan: 'vlan',
+  site: 'site',
+  owner: 'owner',
+  notes: 'notes'
+};
+
+interface CSVPlanRow {
+  line: number;
+  cidrText: string;
+  details: PlanDetails;
+  block: CIDRBlock;
+}
+
+// The CSV needs a header row with at least a Network (or CIDR) column; other
+// columns such as the exported Parent are ignored. The hierarchy is rebuilt
+// from the networks themselves: each row goes under the smallest allocation
+// that contains it.
+export function importPlanCSV(text: string, timestamp: number): PlanResult {
+  const [header, ...body] = parseCSV(text);
+  if (!header) return { plan: null, error: 'File is empty' };
+
+  const fields = header.map(column => CSV_COLUMNS[column.trim().toLowerCase()]);
+  const cidrColumn = fields.indexOf('cidr');
+  if (cidrColumn === -1) return { plan: null, error: 'CSV needs a Network column' };
+
+  const rows: CSVPlanRow[] = [];
+  for (const [index, values] of body.entries()) {
+    const details: PlanDetails = { ...EMPTY_DETAILS };
+    fields.forEach((field, column) => {
+      if (field && field !== 'cidr') details[field] = (values[column] ?? '').trim();
+    });
+    const cidrText = values[cidrColumn] ?? '';
+    const { block, error } = parsePlanBlock(cidrText);
+    if (!block) return { plan: null, error: `Line ${index + 2}: ${error}` };
+    rows.push({ line: index + 2, cidrText, details, block });
+  }
+  rows.sort((a, b) => a.block.prefixLength - b.block.prefixLength || a.line - b.line);
+
+  let plan: AddressPlan = { name: 'Imported plan', allocations: [], updatedAt: timestamp };
+  for (const { block, ...row } of rows) {
+    let parent: PlanAllocation | null = null;
+    for (const allocation of plan.allocations) {
+      const candidate = allocationBlock(allocation);
+      if (candidate.prefixLength < block.prefixLength && overlaps(candidate, block)
+        && (!parent || candidate.prefixLength > allocationBlock(parent).prefixLength)) {
+        parent = allocation;
+      }
+    }
+
+    const result = addAllocation(plan, parent?.id ?? null, row.cidrText, row.details, timestamp);
+    if (!result.plan) return { plan: null, error: `Line ${row.line}: ${result.error}` };
+    plan = result.plan;
+  }
+  return { plan, error: null };
+}
+
+export function percentOf(part: bigint, total: bigint): number {
+  return total === 0n ? 0 : Number(part * 10000n / total) / 100;
+}
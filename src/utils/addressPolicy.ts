@@ -0,0 +1,169 @@
+export type AddressPolicyId = 'classic' | 'rfc3021' | 'aws' | 'azure' | 'gcp' | 'custom';
+
+// position counts from the network address (0 = network) when non-negative
+// and back from the end of the block (-1 = broadcast) when negative
+export interface PolicyReservation {
+  position: number;
+  label: string;
+}
+
+export interface AddressPolicy {
+  id: AddressPolicyId;
+  label: string;
+  description: string;
+  reservations: PolicyReservation[];
+  // RFC 3021: a /31 has no network or broadcast address, both are hosts
+  pointToPoint: boolean;
+  // Prefix lengths the platform accepts for a subnet, when it restricts them
+  minPrefix?: number;
+  maxPrefix?: number;
+}
+
+export interface ReservedOffset {
+  offset: number;
+  label: string;
+}
+
+const NETWORK: PolicyReservation = { position: 0, label: 'Network' };
+const BROADCAST: PolicyReservation = { position: -1, label: 'Broadcast' };
+
+export const ADDRESS_POLICIES: AddressPolicy[] = [
+  {
+    id: 'classic',
+    label: 'Classic',
+    description: 'Network and broadcast addresses are reserved',
+    reservations: [NETWORK, BROADCAST],
+    pointToPoint: false
+  },
+  {
+    id: 'rfc3021',
+    label: 'RFC 3021 point-to-point',
+    description: 'As classic, but both addresses of a /31 are usable',
+    reservations: [NETWORK, BROADCAST],
+    pointToPoint: true
+  },
+  {
+    id: 'aws',
+    label: 'AWS VPC',
+    description: 'AWS reserves the first four addresses and the last address of every subnet',
+    reservations: [
+      NETWORK,
+      { position: 1, label: 'VPC router' },
+      { position: 2, label: 'Amazon DNS' },
+      { position: 3, label: 'Reserved for future use' },
+      BROADCAST
+    ],
+    pointToPoint: false,
+    minPrefix: 16,
+    maxPrefix: 28
+  },
+  {
+    id: 'azure',
+    label: 'Azure VNet',
+    description: 'Azure reserves the first four addresses and the last address of every subnet',
+    reservations: [
+      NETWORK,
+      { position: 1, label: 'Default gateway' },
+      { position: 2, label: 'Azure DNS' },
+      { position: 3, label: 'Azure DNS' },
+      BROADCAST
+    ],
+    pointToPoint: false,
+    minPrefix: 2,
+    maxPrefix: 29
+  },
+  {
+    id: 'gcp',
+    label: 'GCP VPC',
+    description: 'Google Cloud reserves the first two and the last two addresses of every subnet',
+    reservations: [
+      NETWORK,
+      { position: 1, label: 'Default gateway' },
+      { position: -2, label: 'Reserved for future use' },
+      BROADCAST
+    ],
+    pointToPoint: false,
+    minPrefix: 4,
+    maxPrefix: 29
+  }
+];
+
+export const CLASSIC_POLICY = ADDRESS_POLICIES[0];
+
+export function getAddressPolicy(id: string): AddressPolicy | undefined {
+  return ADDRESS_POLICIES.find(policy => policy.id === id);
+}
+
+const NAMED_POSITIONS: Record<string, number> = {
+  network: 0,
+  broadcast: -1,
+  first: 1,
+  'first usable': 1,
+  last: -2,
+  'last usable': -2
+};
+
+// Parses entries such as "network, broadcast, gateway = first usable, dhcp = +2,
+// -3" separated by commas or new lines. A position is a name from
+// NAMED_POSITIONS or an offset: non-negative counts from the network address,
+// negative back from the broadcast address.
+export function parseCustomReservations(text: string): { reservations: PolicyReservation[]; errors: string[] } {
+  const reservations: PolicyReservation[] = [];
+  const errors: string[] = [];
+
+  for (const entry of text.split(/[,;\n]/).map(part => part.trim()).filter(Boolean)) {
+    const [labelPart, positionPart] = entry.includes('=') ? entry.split('=', 2) : ['', entry];
+    const positionText = positionPart.trim().toLowerCase().replace(/\s+/g, ' ');
+    const named = NAMED_POSITIONS[positionText];
+    const position = named ?? (/^[+-]?\d+$/.test(positionText) ? parseInt(positionText, 10) : NaN);
+
+    if (isNaN(position)) {
+      errors.push(`Unknown position "${positionPart.trim()}" in "${entry}"`);
+      continue;
+    }
+    const label = labelPart.trim() || (named === undefined ? 'Reserved' : positionText.replace(/^\w/, c => c.toUpperCase()));
+    reservations.push({ position, label });
+  }
+
+  return { reservations, errors };
+}
+
+export function customPolicy(reservations: PolicyReservation[]): AddressPolicy {
+  return {
+    id: 'custom',
+    label: 'Custom',
+    description: 'Reserved addresses as configured',
+    reservations,
+    pointToPoint: false
+  };
+}
+
+// Resolves a policy to the reserved offsets inside a block of `size`
+// addresses, ordered and without duplicates. A /32 is a host route and never
+// has reserved addresses.
+export function resolveReservations(policy: AddressPolicy, size: number): ReservedOffset[] {
+  if (size <= 1 || (size === 2 && policy.pointToPoint)) return [];
+
+  const byOffset = new Map<number, string>();
+  for (const reservation of policy.reservations) {
+    const offset = reservation.position >= 0 ? reservation.position : size + reservation.position;
+    if (offset < 0 || offset >= size) continue;
+    const existing = byOffset.get(offset);
+    byOffset.set(offset, existing && existing !== reservation.label ? `${existing} / ${reservation.label}` : reservation.label);
+  }
+
+  return [...byOffset.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([offset, label]) => ({ offset, label }));
+}
+
+export function checkPolicyPrefix(policy: AddressPolicy, prefixLength: number): string | null {
+  const { minPrefix, maxPrefix } = policy;
+  if (minPrefix !== undefined && prefixLength < minPrefix) {
+    return `${policy.label} subnets cannot be larger than /${minPrefix}`;
+  }
+  if (maxPrefix !== undefined && prefixLength > maxPrefix) {
+    return `${policy.label} subnets cannot be smaller than /${maxPrefix}`;
+  }
+  return null;
+}
@@ -0,0 +1,101 @@
+import { convertCIDRToMask, ipToNumber, numberToIP } from './subnet';
+import { expandIPv6Address, formatIPv6, groupDigits, lastAddressOf, networkOf, parseIPv6, prefixMask } from './ipv6';
+import type { IPVersion } from './cidr';
+
+export interface BitRow {
+  label: string;
+  // Dotted quad for IPv4, the fully expanded form for IPv6
+  text: string;
+  bits: number[];
+}
+
+export type BitRole = 'network' | 'borrowed' | 'host';
+
+export interface BitMap {
+  version: IPVersion;
+  prefixLength: number;
+  // The classful network length for IPv4 class A, B and C addresses; bits
+  // between it and prefixLength are the borrowed subnet bits
+  classfulPrefix: number | null;
+  rows: BitRow[];
+}
+
+function numberBits(value: number): number[] {
+  return value.toString(2).padStart(32, '0').split('').map(Number);
+}
+
+// One hex digit of the expanded form becomes four bits, so the bits always
+// line up with the nibbles shown above them
+function expandedBits(expanded: string): number[] {
+  return expanded
+    .replace(/:/g, '')
+    .split('')
+    .flatMap(nibble => parseInt(nibble, 16).toString(2).padStart(4, '0').split('').map(Number));
+}
+
+export function classfulPrefix(address: string): number | null {
+  const firstOctet = ipToNumber(address) >>> 24;
+  if (firstOctet < 128) return 8;
+  if (firstOctet < 192) return 16;
+  if (firstOctet < 224) return 24;
+  return null;
+}
+
+export function ipv4BitMap(address: string, prefixLength: number): BitMap {
+  const addressValue = ipToNumber(address);
+  const mask = convertCIDRToMask(prefixLength);
+  const maskValue = ipToNumber(mask);
+  const network = (addressValue & maskValue) >>> 0;
+  const broadcast = (network | (~maskValue >>> 0)) >>> 0;
+
+  return {
+    version: 4,
+    prefixLength,
+    classfulPrefix: classfulPrefix(address),
+    rows: [
+      { label: 'Address', text: numberToIP(addressValue), bits: numberBits(addressValue) },
+      { label: 'Mask', text: mask, bits: numberBits(maskValue) },
+      { label: 'Network', text: numberToIP(network), bits: numberBits(network) },
+      { label: 'Broadcast', text: numberToIP(broadcast), bits: numberBits(broadcast) }
+    ]
+  };
+}
+
+export function ipv6BitMap(address: string, prefixLength: number): BitMap {
+  const value = parseIPv6(address) ?? 0n;
+  const rows = [
+    { label: 'Address', expanded: expandIPv6Address(address) },
+    { label: 'Mask', expanded: expandIPv6Address(formatIPv6(prefixMask(prefixLength))) },
+    { label: 'Network', expanded: expandIPv6Address(formatIPv6(networkOf(value, prefixLength))) },
+    { label: 'Last', expanded: expandIPv6Address(formatIPv6(lastAddressOf(value, prefixLength))) }
+  ];
+
+  return {
+    version: 6,
+    prefixLength,
+    classfulPrefix: null,
+    rows: rows.map(({ label, expanded }) => ({ label, text: expanded, bits: expandedBits(expanded) }))
+  };
+}
+
+export function bitRole(map: BitMap, index: number): BitRole {
+  if (index >= map.prefixLength) return 'host';
+  return map.classfulPrefix !== null && index >= map.classfulPrefix ? 'borrowed' : 'network';
+}
+
+// Describes bit `index` (0 = most significant) the way it is usually taught:
+// its weight within the octet or nibble it belongs to, and within the address
+export function describeBit(version: IPVersion, index: number): string {
+  const total = version === 4 ? 32 : 128;
+  const power = total - 1 - index;
+  const overall = `2^${power}`;
+
+  if (version === 4) {
+    const octet = Math.floor(index / 8);
+    return `Bit ${index + 1}, octet ${octet + 1}: value ${2 ** (7 - (index % 8))} in the octet, ${overall} = ${groupDigits(2 ** power)} in the address`;
+  }
+  const group = Math.floor(index / 16);
+  const nibble = Math.floor(index / 4);
+  return `Bit ${index + 1}, hextet ${group + 1}, nibble ${nibble + 1}: value ${2 ** (3 - (index % 4))} in the nibble, ` +
+    `${2 ** (15 - (index % 16))} in the hextet, ${overall} in the address`;
+}
@@ -0,0 +1,355 @@
+import { calculateSubnet, convertCIDRToMask, ipToNumber } from './subnet';
+import { calculateIPv6Subnet, parseIPv6 } from './ipv6';
+import { parseIPv4Strict, parseIPv6Strict, parseMaskStrict, parsePrefixLengthStrict } from './addressParser';
+import { addressBits, parseAddress } from './cidr';
+import type { IPVersion } from './cidr';
+import { CLASSIC_POLICY } from './addressPolicy';
+import type { AddressPolicy } from './addressPolicy';
+
+// One input line. Rows that failed keep their line and input so the table can
+// show the error in place; every other field is empty for them.
+export interface BulkRow {
+  line: number;
+  input: string;
+  label: string;
+  error: string | null;
+  version: IPVersion | null;
+  address: string;
+  addressValue: bigint;
+  prefixLength: number;
+  mask: string;
+  network: string;
+  networkValue: bigint;
+  lastAddress: string;
+  firstUsable: string;
+  lastUsable: string;
+  usable: bigint;
+  addressCount: bigint;
+  addressType: string;
+  // Number of rows (this one included) that fall in the same network
+  groupSize: number;
+  // Lowercased input, label and network, so filtering does not rebuild them
+  searchText: string;
+}
+
+export interface BulkGroup {
+  network: string;
+  version: IPVersion;
+  networkValue: bigint;
+  prefixLength: number;
+  rows: BulkRow[];
+}
+
+export interface BulkResult {
+  rows: BulkRow[];
+  groups: BulkGroup[];
+  errorCount: number;
+}
+
+export type BulkSortKey = 'line' | 'address' | 'network' | 'prefix' | 'usable' | 'type' | 'group' | 'label';
+export type SortDirection = 'asc' | 'desc';
+
+export interface BulkFilter {
+  query: string;
+  status: 'all' | 'valid' | 'errors';
+  version: 'all' | '4' | '6';
+}
+
+// A field that looks like an address: hex digits, dots and colons with an
+// optional "/mask" suffix. Only used to report a malformed address when no
+// field parses, since hex-only labels such as "cafe.de" match it too.
+const ADDRESS_FIELD = /^[0-9A-Fa-f:.]*[.:][0-9A-Fa-f:.]*(\/\S*)?$/;
+
+function emptyRow(line: number, input: string, label: string, error: string): BulkRow {
+  return {
+    line,
+    input,
+    label,
+    error,
+    version: null,
+    address: '',
+    addressValue: 0n,
+    prefixLength: 0,
+    mask: '',
+    network: '',
+    networkValue: 0n,
+    lastAddress: '',
+    firstUsable: '',
+    lastUsable: '',
+    usable: 0n,
+    addressCount: 0n,
+    addressType: '',
+    groupSize: 0,
+    searchText: `${input} ${label} ${error}`.toLowerCase()
+  };
+}
+
+function calculateIPv4Row(
+  line: number,
+  input: string,
+  label: string,
+  addressText: string,
+  maskText: string,
+  policy: AddressPolicy
+): BulkRow {
+  const address = parseIPv4Strict(addressText);
+  if (!address.ok) return emptyRow(line, input, label, `Invalid IPv4 address: ${address.error.message}`);
+
+  // "24" and "/24" are prefix lengths, anything else must be a dotted mask
+  const mask = /^\d+$/.test(maskText.trim())
+    ? parsePrefixLengthStrict(maskText, 32)
+    : parseMaskStrict(maskText);
+  if (!mask.ok) return emptyRow(line, input, label, `Invalid subnet mask: ${mask.error.message}`);
+
+  const results = calculateSubnet(addressText.trim(), `/${mask.value}`, policy);
+  if (!results) return emptyRow(line, input, label, 'Error calculating subnet');
+
+  const network = `${results.networkAddress}/${results.maskBits}`;
+  const addressValue = BigInt(address.value);
+  const networkValue = BigInt(ipToNumber(results.networkAddress));
+  const addressCount = BigInt(results.totalAddresses);
+  const hasBroadcast = results.maskBits <= 30;
+  let addressType = 'Host';
+  if (hasBroadcast && addressValue === networkValue) addressType = 'Network';
+  if (hasBroadcast && addressValue === networkValue + addressCount - 1n) addressType = 'Broadcast';
+
+  return {
+    line,
+    input,
+    label,
+    error: null,
+    version: 4,
+    address: addressText.trim(),
+    addressValue,
+    prefixLength: results.maskBits,
+    mask: convertCIDRToMask(results.maskBits),
+    network,
+    networkValue,
+    lastAddress: results.broadcastAddress,
+    firstUsable: results.firstHostIP,
+    lastUsable: results.lastHostIP,
+    usable: BigInt(results.totalHosts),
+    addressCount,
+    addressType,
+    groupSize: 0,
+    searchText: `${input} ${label} ${network}`.toLowerCase()
+  };
+}
+
+function calculateIPv6Row(line: number, input: string, label: string, addressText: string, prefixText: string): BulkRow {
+  const address = parseIPv6Strict(addressText);
+  if (!address.ok) return emptyRow(line, input, label, `Invalid IPv6 address: ${address.error.message}`);
+
+  const prefix = parsePrefixLengthStrict(prefixText.replace(/^\s*\//, ''), 128);
+  if (!prefix.ok) return emptyRow(line, input, label, `Invalid prefix length: ${prefix.error.message}`);
+
+  const results = calculateIPv6Subnet(addressText, prefix.value);
+  if (!results) return emptyRow(line, input, label, 'Error calculating subnet');
+
+  const network = `${results.networkAddress}/${results.prefixLength}`;
+  const networkValue = parseIPv6(results.networkAddress) ?? 0n;
+  const anycast = results.prefixLength <= 126 && address.value === networkValue;
+
+  return {
+    line,
+    input,
+    label,
+    error: null,
+    version: 6,
+    address: addressText.trim(),
+    addressValue: address.value,
+    prefixLength: results.prefixLength,
+    mask: '',
+    network,
+    networkValue,
+    lastAddress: results.lastAddress,
+    firstUsable: results.networkAddress,
+    lastUsable: results.lastAddress,
+    usable: results.addressCount,
+    addressCount: results.addressCount,
+    addressType: anycast ? 'Subnet-Router anycast' : 'Host',
+    groupSize: 0,
+    searchText: `${input} ${label} ${network}`.toLowerCase()
+  };
+}
+
+interface AddressColumn {
+  index: number;
+  addressText: string;
+  maskText: string;
+  separateMask: boolean;
+}
+
+// The mask is either after a slash in the same field or the next field
+function addressColumn(fields: string[], index: number): AddressColumn {
+  const field = fields[index];
+  const slash = field.indexOf('/');
+  const separateMask = slash === -1;
+  return {
+    index,
+    addressText: separateMask ? field : field.substring(0, slash),
+    maskText: separateMask ? fields[index + 1] ?? '' : field.substring(slash + 1),
+    separateMask
+  };
+}
+
+function isAddress(text: string): boolean {
+  return text.includes(':') ? parseIPv6Strict(text).ok : parseIPv4Strict(text).ok;
+}
+
+// Mirrors the mask parsing of calculateIPv4Row and calculateIPv6Row
+function isMask(addressText: string, maskText: string): boolean {
+  if (addressText.includes(':')) return parsePrefixLengthStrict(maskText.replace(/^\s*\//, ''), 128).ok;
+  return /^\d+$/.test(maskText.trim()) ? parsePrefixLengthStrict(maskText, 32).ok : parseMaskStrict(maskText).ok;
+}
+
+// Prefers the first field that parses as an address with a valid mask, then
+// one whose address alone parses (so a bad mask is reported against it), and
+// only then anything shaped like an address, "/mask" suffixed ones first
+function findAddressColumn(fields: string[]): AddressColumn | null {
+  const columns = fields.map((_, index) => addressColumn(fields, index));
+  const shaped = columns.filter(column => ADDRESS_FIELD.test(fields[column.index]));
+  return columns.find(column => isAddress(column.addressText) && isMask(column.addressText, column.maskText))
+    ?? columns.find(column => isAddress(column.addressText))
+    ?? shaped.find(column => !column.separateMask)
+    ?? shaped[0]
+    ?? null;
+}
+
+// Each line holds an address with its mask or prefix length ("10.0.0.1/24",
+// "10.0.0.1/255.255.255.0", "10.0.0.1 255.255.255.0", "2001:db8::1/64") and
+// optionally a label in any other column, so both pastes and CSV exports
+// from inventory work. A header row without any address is skipped.
+function parseBulkLine(line: number, rawLine: string, policy: AddressPolicy): BulkRow | null {
+  const input = rawLine.trim();
+  const fields = input.split(/[,\t;]|\s+/).map(field => field.trim().replace(/^"|"$/g, '')).filter(Boolean);
+  const column = findAddressColumn(fields);
+  if (!column) return null;
+
+  const { index: addressIndex, addressText, maskText, separateMask } = column;
+  const label = fields
+    .filter((_, i) => i !== addressIndex && !(separateMask && i === addressIndex + 1))
+    .join(' ');
+
+  if (!maskText) {
+    return emptyRow(line, input, label, 'Mask or prefix length is missing');
+  }
+  return addressText.includes(':')
+    ? calculateIPv6Row(line, input, label, addressText, maskText)
+    : calculateIPv4Row(line, input, label, addressText, maskText, policy);
+}
+
+export function compareBulkNetworks(a: BulkRow, b: BulkRow): number {
+  if (a.version !== b.version) return (a.version ?? 7) - (b.version ?? 7);
+  if (a.networkValue !== b.networkValue) return a.networkValue < b.networkValue ? -1 : 1;
+  return a.prefixLength - b.prefixLength;
+}
+
+// Rows are calculated in chunks of this size with a yield to the event loop
+// in between, so a 50k line paste does not freeze the page
+const CHUNK_SIZE = 2000;
+
+function calculateLines(lines: string[], from: number, to: number, policy: AddressPolicy, rows: BulkRow[]) {
+  for (let index = from; index < to; index++) {
+    const trimmed = lines[index].trim();
+    if (!trimmed || trimmed.startsWith('#')) continue;
+
+    const row = parseBulkLine(index + 1, lines[index], policy)
+      ?? (rows.length > 0 ? emptyRow(index + 1, trimmed, '', 'No IPv4 or IPv6 address found') : null);
+    if (row) rows.push(row);
+  }
+}
+
+function summarize(rows: BulkRow[]): BulkResult {
+  const byNetwork = new Map<string, BulkGroup>();
+  let errorCount = 0;
+  for (const row of rows) {
+    if (row.error || row.version === null) {
+      errorCount++;
+      continue;
+    }
+    let group = byNetwork.get(row.network);
+    if (!group) {
+      group = { network: row.network, version: row.version, networkValue: row.networkValue, prefixLength: row.prefixLength, rows: [] };
+      byNetwork.set(row.network, group);
+    }
+    group.rows.push(row);
+  }
+  for (const group of byNetwork.values()) {
+    for (const row of group.rows) row.groupSize = group.rows.length;
+  }
+
+  const groups = [...byNetwork.values()].sort((a, b) => compareBulkNetworks(a.rows[0], b.rows[0]));
+  return { rows, groups, errorCount };
+}
+
+export function calculateBulk(text: string, policy: AddressPolicy = CLASSIC_POLICY): BulkResult {
+  const lines = text.split(/\r?\n/);
+  const rows: BulkRow[] = [];
+  calculateLines(lines, 0, lines.length, policy, rows);
+  return summarize(rows);
+}
+
+// Same result as calculateBulk, but yields between chunks. Resolves to null
+// when isCancelled() turns true, i.e. the input changed while it was running.
+export async function calculateBulkInChunks(
+  text: string,
+  policy: AddressPolicy,
+  isCancelled: () => boolean,
+  onProgress?: (done: number, total: number) => void
+): Promise<BulkResult | null> {
+  const lines = text.split(/\r?\n/);
+  const rows: BulkRow[] = [];
+
+  for (let from = 0; from < lines.length; from += CHUNK_SIZE) {
+    calculateLines(lines, from, Math.min(from + CHUNK_SIZE, lines.length), policy, rows);
+    onProgress?.(Math.min(from + CHUNK_SIZE, lines.length), lines.length);
+    await new Promise(resolve => setTimeout(resolve, 0));
+    if (isCancelled()) return null;
+  }
+  return summarize(rows);
+}
+
+function compareBigInt(a: bigint, b: bigint): number {
+  return a === b ? 0 : a < b ? -1 : 1;
+}
+
+const COMPARATORS: Record<BulkSortKey, (a: BulkRow, b: BulkRow) => number> = {
+  line: (a, b) => a.line - b.line,
+  address: (a, b) => (a.version ?? 7) - (b.version ?? 7) || compareBigInt(a.addressValue, b.addressValue),
+  network: compareBulkNetworks,
+  prefix: (a, b) => a.prefixLength - b.prefixLength,
+  usable: (a, b) => compareBigInt(a.usable, b.usable),
+  type: (a, b) => a.addressType.localeCompare(b.addressType),
+  group: (a, b) => a.groupSize - b.groupSize,
+  label: (a, b) => a.label.localeCompare(b.label)
+};
+
+// Rows with errors have no values to sort on, so they stay at the end in
+// line order whichever way the table is sorted
+export function sortBulkRows(rows: BulkRow[], key: BulkSortKey, direction: SortDirection): BulkRow[] {
+  const compare = COMPARATORS[key];
+  const sign = direction === 'asc' ? 1 : -1;
+  return [...rows].sort((a, b) => {
+    if (key !== 'line' && (a.error === null) !== (b.error === null)) return a.error ? 1 : -1;
+    return sign * compare(a, b) || a.line - b.line;
+  });
+}
+
+// The query matches the input, label, network or error text; a query that is
+// an address also matches every row whose network contains it
+export function filterBulkRows(rows: BulkRow[], filter: BulkFilter): BulkRow[] {
+  const query = filter.query.trim().toLowerCase();
+  const address = query ? parseAddress(query) : null;
+
+  return rows.filter(row => {
+    if (filter.status === 'valid' && row.error) return false;
+    if (filter.status === 'errors' && !row.error) return false;
+    if (filter.version !== 'all' && row.version?.toString() !== filter.version) return false;
+    if (!query || row.searchText.includes(query)) return true;
+    if (!address || row.version !== address.version) return false;
+
+    const hostBits = BigInt(addressBits(address.version) - row.prefixLength);
+    return address.value >> hostBits === row.networkValue >> hostBits;
+  });
+}
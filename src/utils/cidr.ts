@@ -0,0 +1,141 @@
+import { ipToNumber, isValidIPAddress, numberToIP } from './subnet';
+import { formatIPv6, parseIPv6 } from './ipv6';
+
+export type IPVersion = 4 | 6;
+
+export interface IPAddressValue {
+  version: IPVersion;
+  value: bigint;
+}
+
+// A network in either family, with `start` already aligned to the prefix.
+// Keeping both families on bigint lets list-based tools share one code path.
+export interface CIDRBlock {
+  version: IPVersion;
+  start: bigint;
+  prefixLength: number;
+}
+
+export interface AddressRange {
+  version: IPVersion;
+  start: bigint;
+  end: bigint;
+}
+
+export function addressBits(version: IPVersion): number {
+  return version === 4 ? 32 : 128;
+}
+
+export function parseAddress(text: string): IPAddressValue | null {
+  const address = text.trim();
+  if (address.includes(':')) {
+    const value = parseIPv6(address);
+    return value === null ? null : { version: 6, value };
+  }
+  if (!isValidIPAddress(address)) return null;
+  return { version: 4, value: BigInt(ipToNumber(address)) };
+}
+
+export function formatAddress(version: IPVersion, value: bigint): string {
+  return version === 4 ? numberToIP(Number(value)) : formatIPv6(value);
+}
+
+export function blockSize(block: CIDRBlock): bigint {
+  return 1n << BigInt(addressBits(block.version) - block.prefixLength);
+}
+
+export function blockEnd(block: CIDRBlock): bigint {
+  return block.start + blockSize(block) - 1n;
+}
+
+export function makeBlock(version: IPVersion, value: bigint, prefixLength: number): CIDRBlock {
+  const size = 1n << BigInt(addressBits(version) - prefixLength);
+  return { version, start: value - (value % size), prefixLength };
+}
+
+// Accepts "address/prefix" or a bare address (treated as a host route)
+export function parseCIDR(text: string): CIDRBlock | null {
+  const [addressPart, prefixPart, ...rest] = text.trim().split('/');
+  if (rest.length > 0) return null;
+
+  const address = parseAddress(addressPart);
+  if (!address) return null;
+
+  const bits = addressBits(address.version);
+  if (prefixPart === undefined) return makeBlock(address.version, address.value, bits);
+  if (!/^\d{1,3}$/.test(prefixPart)) return null;
+
+  const prefixLength = parseInt(prefixPart, 10);
+  if (prefixLength > bits) return null;
+
+  return makeBlock(address.version, address.value, prefixLength);
+}
+
+export function formatCIDR(block: CIDRBlock): string {
+  return `${formatAddress(block.version, block.start)}/${block.prefixLength}`;
+}
+
+export function compareBlocks(a: CIDRBlock, b: CIDRBlock): number {
+  if (a.version !== b.version) return a.version - b.version;
+  if (a.start !== b.start) return a.start < b.start ? -1 : 1;
+  return a.prefixLength - b.prefixLength;
+}
+
+// Collapses overlapping or touching ranges of the same family into the
+// smallest list of disjoint ranges, sorted by family then start address
+export function mergeRanges(ranges: AddressRange[]): AddressRange[] {
+  const sorted = [...ranges].sort((a, b) =>
+    a.version - b.version || (a.start < b.start ? -1 : a.start > b.start ? 1 : 0)
+  );
+
+  const merged: AddressRange[] = [];
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && last.version === range.version && range.start <= last.end + 1n) {
+      if (range.end > last.end) last.end = range.end;
+    } else {
+      merged.push({ ...range });
+    }
+  }
+  return merged;
+}
+
+// Greedy decomposition: at each step take the largest aligned block that
+// starts at the cursor and does not run past the end of the range
+export function rangeToBlocks(range: AddressRange): CIDRBlock[] {
+  const bits = addressBits(range.version);
+  const blocks: CIDRBlock[] = [];
+  let cursor = range.start;
+
+  while (cursor <= range.end) {
+    let prefixLength = bits;
+    while (prefixLength > 0) {
+      const size = 1n << BigInt(bits - prefixLength + 1);
+      if (cursor % size !== 0n || cursor + size - 1n > range.end) break;
+      prefixLength--;
+    }
+
+    const block = { version: range.version, start: cursor, prefixLength };
+    blocks.push(block);
+    cursor = blockEnd(block) + 1n;
+  }
+
+  return blocks;
+}
+
+export function blockToRange(block: CIDRBlock): AddressRange {
+  return { version: block.version, start: block.start, end: blockEnd(block) };
+}
+
+export function rangeSize(range: AddressRange): bigint {
+  return range.end - range.start + 1n;
+}
+
+// Both ends must be valid addresses of the same family, in ascending order
+export function parseRange(startText: string, endText: string): AddressRange | null {
+  const start = parseAddress(startText);
+  const end = parseAddress(endText);
+  if (!start || !end || start.version !== end.version || start.value > end.value) return null;
+
+  return { version: start.version, start: start.value, end: end.value };
+}
@@ -0,0 +1,103 @@
+import { calculateSubnet } from './subnet';
+import type { SubnetResults } from './subnet';
+import { calculateIPv6Subnet } from './ipv6';
+import type { IPv6SubnetResults } from './ipv6';
+import { blockToRange, formatAddress, makeBlock, parseCIDR, parseRange, rangeToBlocks } from './cidr';
+import type { AddressRange, CIDRBlock } from './cidr';
+import { commonPrefixLength } from './summarize';
+
+// Two CIDR prefixes are always nested or disjoint; 'partial' can only come
+// up when at least one side is an arbitrary range
+export type NetworkRelationship =
+  | 'identical'
+  | 'contains'
+  | 'contained-by'
+  | 'partial'
+  | 'adjacent-mergeable'
+  | 'adjacent-not-mergeable'
+  | 'disjoint';
+
+// A network entered as a CIDR or as a start-end range. `block` is set when the
+// range is exactly one prefix, and `details` holds the calculator results for it.
+export interface CompareInput {
+  range: AddressRange;
+  block: CIDRBlock | null;
+  details: { version: 4; results: SubnetResults } | { version: 6; results: IPv6SubnetResults } | null;
+}
+
+export interface NetworkComparison {
+  relationship: NetworkRelationship;
+  // Smallest prefix holding both networks
+  supernet: CIDRBlock;
+  // Addresses in both networks; null when they do not overlap
+  intersection: AddressRange | null;
+  // Addresses strictly between the two; null when they overlap or touch
+  gap: AddressRange | null;
+  // The single prefix covering exactly both networks, when there is one
+  merged: CIDRBlock | null;
+}
+
+function subnetDetails(block: CIDRBlock): CompareInput['details'] {
+  const address = formatAddress(block.version, block.start);
+  if (block.version === 4) {
+    const results = calculateSubnet(address, `/${block.prefixLength}`);
+    return results ? { version: 4, results } : null;
+  }
+  const results = calculateIPv6Subnet(address, block.prefixLength);
+  return results ? { version: 6, results } : null;
+}
+
+function singleBlock(range: AddressRange): CIDRBlock | null {
+  const blocks = rangeToBlocks(range);
+  return blocks.length === 1 ? blocks[0] : null;
+}
+
+// Accepts "address/prefix", a bare address, or "start - end"
+export function parseCompareInput(text: string): { input: CompareInput | null; error: string | null } {
+  const entry = text.trim();
+  const rangeMatch = entry.match(/^(\S+)\s*-\s*(\S+)$/);
+
+  let range: AddressRange | null = null;
+  if (rangeMatch) {
+    range = parseRange(rangeMatch[1], rangeMatch[2]);
+    if (!range) return { input: null, error: `"${entry}" is not a valid range (both ends the same family, start first)` };
+  } else {
+    const block = parseCIDR(entry);
+    if (!block) return { input: null, error: `"${entry}" is not a valid IPv4 or IPv6 CIDR or range` };
+    range = blockToRange(block);
+  }
+
+  const block = singleBlock(range);
+  return { input: { range, block, details: block ? subnetDetails(block) : null }, error: null };
+}
+
+// Both ranges must be of the same family
+export function compareNetworks(a: AddressRange, b: AddressRange): NetworkComparison {
+  const version = a.version;
+  const low = a.start < b.start ? a.start : b.start;
+  const high = a.end > b.end ? a.end : b.end;
+  const supernet = makeBlock(version, low, commonPrefixLength(version, low, high));
+
+  const overlapStart = a.start > b.start ? a.start : b.start;
+  const overlapEnd = a.end < b.end ? a.end : b.end;
+  const intersection = overlapStart <= overlapEnd ? { version, start: overlapStart, end: overlapEnd } : null;
+
+  const [first, second] = a.start <= b.start ? [a, b] : [b, a];
+  const touching = !intersection && first.end + 1n === second.start;
+  const gap = !intersection && !touching ? { version, start: first.end + 1n, end: second.start - 1n } : null;
+  const merged = intersection || touching ? singleBlock({ version, start: low, end: high }) : null;
+
+  let relationship: NetworkRelationship;
+  if (a.start === b.start && a.end === b.end) relationship = 'identical';
+  else if (a.start <= b.start && a.end >= b.end) relationship = 'contains';
+  else if (b.start <= a.start && b.end >= a.end) relationship = 'contained-by';
+  else if (intersection) relationship = 'partial';
+  else if (touching) relationship = merged ? 'adjacent-mergeable' : 'adjacent-not-mergeable';
+  else relationship = 'disjoint';
+
+  return { relationship, supernet, intersection, gap, merged };
+}
+
+export function formatRange(range: AddressRange): string {
+  return `${formatAddress(range.version, range.start)} - ${formatAddress(range.version, range.end)}`;
+}
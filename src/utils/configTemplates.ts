@@ -0,0 +1,300 @@
+import { calculateWildcardMask, convertCIDRToMask } from './subnet';
+import type { SubnetResults } from './subnet';
+import type { IPv6SubnetResults } from './ipv6';
+import { addressBits, blockEnd, formatAddress, makeBlock, parseAddress } from './cidr';
+import type { IPVersion } from './cidr';
+
+export interface ConfigNetwork {
+  version: IPVersion;
+  networkAddress: string;
+  prefixLength: number;
+}
+
+// Values available to templates as {{name}} placeholders. mask and wildcard
+// are empty for IPv6, so IPv6 templates should not use them.
+export interface ConfigContext {
+  host: string;
+  gateway: string;
+  network: string;
+  prefix: string;
+  mask: string;
+  wildcard: string;
+  interface: string;
+  description: string;
+  aclName: string;
+}
+
+// A vendor template has one body per address family; a family without a
+// body is not offered for that vendor
+export interface ConfigTemplate {
+  id: string;
+  vendor: string;
+  label: string;
+  defaultInterface: string;
+  bodies: Partial<Record<IPVersion, string>>;
+}
+
+export const CONFIG_TEMPLATES: ConfigTemplate[] = [
+  {
+    id: 'cisco-ios',
+    vendor: 'Cisco',
+    label: 'Cisco IOS',
+    defaultInterface: 'GigabitEthernet0/1',
+    bodies: {
+      4: `interface {{interface}}
+ description {{description}}
+ ip address {{host}} {{mask}}
+ no shutdown
+!
+ip route 0.0.0.0 0.0.0.0 {{gateway}}
+!
+ip access-list extended {{aclName}}
+ permit ip {{network}} {{wildcard}} any`,
+      6: `interface {{interface}}
+ description {{description}}
+ ipv6 address {{host}}/{{prefix}}
+ no shutdown
+!
+ipv6 route ::/0 {{gateway}}
+!
+ipv6 access-list {{aclName}}
+ permit ipv6 {{network}}/{{prefix}} any`
+    }
+  },
+  {
+    id: 'junos',
+    vendor: 'Juniper',
+    label: 'Juniper Junos',
+    defaultInterface: 'ge-0/0/1',
+    bodies: {
+      4: `set interfaces {{interface}} description "{{description}}"
+set interfaces {{interface}} unit 0 family inet address {{host}}/{{prefix}}
+set routing-options static route 0.0.0.0/0 next-hop {{gateway}}
+set firewall family inet filter {{aclName}} term allow-subnet from source-address {{network}}/{{prefix}}
+set firewall family inet filter {{aclName}} term allow-subnet then accept`,
+      6: `set interfaces {{interface}} description "{{description}}"
+set interfaces {{interface}} unit 0 family inet6 address {{host}}/{{prefix}}
+set routing-options rib inet6.0 static route ::/0 next-hop {{gateway}}
+set firewall family inet6 filter {{aclName}} term allow-subnet from source-address {{network}}/{{prefix}}
+set firewall family inet6 filter {{aclName}} term allow-subnet then accept`
+    }
+  },
+  {
+    id: 'arista-eos',
+    vendor: 'Arista',
+    label: 'Arista EOS',
+    defaultInterface: 'Ethernet1',
+    bodies: {
+      4: `interface {{interface}}
+   description {{description}}
+   no switchport
+   ip address {{host}}/{{prefix}}
+!
+ip route 0.0.0.0/0 {{gateway}}
+!
+ip access-list {{aclName}}
+   permit ip {{network}} {{wildcard}} any`,
+      6: `interface {{interface}}
+   description {{description}}
+   no switchport
+   ipv6 enable
+   ipv6 address {{host}}/{{prefix}}
+!
+ipv6 route ::/0 {{gateway}}
+!
+ipv6 access-list {{aclName}}
+   permit ipv6 {{network}}/{{prefix}} any`
+    }
+  },
+  {
+    id: 'mikrotik',
+    vendor: 'MikroTik',
+    label: 'MikroTik RouterOS',
+    defaultInterface: 'ether1',
+    bodies: {
+      4: `/ip address add address={{host}}/{{prefix}} interface={{interface}} comment="{{description}}"
+/ip route add dst-address=0.0.0.0/0 gateway={{gateway}}
+/ip firewall filter add chain=forward src-address={{network}}/{{prefix}} action=accept comment="{{aclName}}"`,
+      6: `/ipv6 address add address={{host}}/{{prefix}} interface={{interface}} advertise=no comment="{{description}}"
+/ipv6 route add dst-address=::/0 gateway={{gateway}}
+/ipv6 firewall filter add chain=forward src-address={{network}}/{{prefix}} action=accept comment="{{aclName}}"`
+    }
+  },
+  {
+    id: 'linux-ip',
+    vendor: 'Linux',
+    label: 'Linux ip (iproute2)',
+    defaultInterface: 'eth0',
+    bodies: {
+      4: `ip addr add {{host}}/{{prefix}} dev {{interface}}
+ip link set dev {{interface}} up
+ip route add default via {{gateway}} dev {{interface}}`,
+      6: `ip -6 addr add {{host}}/{{prefix}} dev {{interface}}
+ip link set dev {{interface}} up
+ip -6 route add default via {{gateway}} dev {{interface}}`
+    }
+  },
+  {
+    id: 'linux-netplan',
+    vendor: 'Linux',
+    label: 'Linux netplan',
+    defaultInterface: 'eth0',
+    bodies: {
+      4: `network:
+  version: 2
+  ethernets:
+    {{interface}}:
+      addresses:
+        - {{host}}/{{prefix}}
+      routes:
+        - to: default
+          via: {{gateway}}`,
+      6: `network:
+  version: 2
+  ethernets:
+    {{interface}}:
+      accept-ra: false
+      addresses:
+        - "{{host}}/{{prefix}}"
+      routes:
+        - to: default
+          via: "{{gateway}}"`
+    }
+  },
+  {
+    id: 'linux-networkmanager',
+    vendor: 'Linux',
+    label: 'Linux NetworkManager (nmcli)',
+    defaultInterface: 'eth0',
+    bodies: {
+      4: `nmcli connection modify {{interface}} ipv4.method manual ipv4.addresses {{host}}/{{prefix}} ipv4.gateway {{gateway}}
+nmcli connection up {{interface}}`,
+      6: `nmcli connection modify {{interface}} ipv6.method manual ipv6.addresses {{host}}/{{prefix}} ipv6.gateway {{gateway}}
+nmcli connection up {{interface}}`
+    }
+  },
+  {
+    id: 'windows-netsh',
+    vendor: 'Windows',
+    label: 'Windows netsh',
+    defaultInterface: 'Ethernet',
+    bodies: {
+      4: `netsh interface ipv4 set address name="{{interface}}" source=static address={{host}} mask={{mask}} gateway={{gateway}}`,
+      6: `netsh interface ipv6 add address interface="{{interface}}" address={{host}}/{{prefix}}
+netsh interface ipv6 add route prefix=::/0 interface="{{interface}}" nexthop={{gateway}}`
+    }
+  },
+  {
+    id: 'windows-powershell',
+    vendor: 'Windows',
+    label: 'Windows PowerShell',
+    defaultInterface: 'Ethernet',
+    bodies: {
+      4: `New-NetIPAddress -InterfaceAlias "{{interface}}" -AddressFamily IPv4 -IPAddress {{host}} -PrefixLength {{prefix}} -DefaultGateway {{gateway}}`,
+      6: `New-NetIPAddress -InterfaceAlias "{{interface}}" -AddressFamily IPv6 -IPAddress {{host}} -PrefixLength {{prefix}} -DefaultGateway {{gateway}}`
+    }
+  }
+];
+
+// Adding a vendor only takes a call to this; a template registered with an
+// existing id replaces the built-in one
+export function registerConfigTemplate(template: ConfigTemplate) {
+  const index = CONFIG_TEMPLATES.findIndex(existing => existing.id === template.id);
+  if (index === -1) {
+    CONFIG_TEMPLATES.push(template);
+  } else {
+    CONFIG_TEMPLATES[index] = template;
+  }
+}
+
+export function getConfigTemplates(version: IPVersion): ConfigTemplate[] {
+  return CONFIG_TEMPLATES.filter(template => template.bodies[version] !== undefined);
+}
+
+export function configNetworkFromSubnet(results: SubnetResults): ConfigNetwork {
+  return { version: 4, networkAddress: results.networkAddress, prefixLength: results.maskBits };
+}
+
+export function configNetworkFromIPv6(results: IPv6SubnetResults): ConfigNetwork {
+  return { version: 6, networkAddress: results.networkAddress, prefixLength: results.prefixLength };
+}
+
+function networkBlock(network: ConfigNetwork) {
+  return makeBlock(network.version, parseAddress(network.networkAddress)?.value ?? 0n, network.prefixLength);
+}
+
+// The first usable address as gateway and the next one as host, which is the
+// most common convention; /31, /32, /127 and /128 fall back to what exists
+export function suggestAddresses(network: ConfigNetwork): { host: string; gateway: string } {
+  const block = networkBlock(network);
+  const end = blockEnd(block);
+  const size = end - block.start + 1n;
+  // IPv4 reserves the network and broadcast addresses, IPv6 only the
+  // Subnet-Router anycast address at the start
+  const first = size > 2n ? block.start + 1n : block.start;
+  const last = network.version === 4 && size > 2n ? end - 1n : end;
+
+  return {
+    gateway: formatAddress(network.version, first),
+    host: formatAddress(network.version, first < last ? first + 1n : first)
+  };
+}
+
+function checkAddress(network: ConfigNetwork, label: string, text: string): string | null {
+  const address = parseAddress(text.trim());
+  if (!address || address.version !== network.version) {
+    return `${label} must be a valid IPv${network.version} address`;
+  }
+
+  const block = networkBlock(network);
+  const cidr = `${network.networkAddress}/${network.prefixLength}`;
+  if (address.value < block.start || address.value > blockEnd(block)) {
+    return `${label} ${text.trim()} is outside ${cidr}`;
+  }
+
+  const hostBits = addressBits(network.version) - network.prefixLength;
+  if (network.version === 4 && hostBits >= 2) {
+    if (address.value === block.start) return `${label} ${text.trim()} is the network address of ${cidr}`;
+    if (address.value === blockEnd(block)) return `${label} ${text.trim()} is the broadcast address of ${cidr}`;
+  }
+  if (network.version === 6 && hostBits >= 2 && address.value === block.start) {
+    return `${label} ${text.trim()} is the Subnet-Router anycast address of ${cidr}`;
+  }
+  return null;
+}
+
+export function validateConfigAddresses(network: ConfigNetwork, host: string, gateway: string): string[] {
+  const errors = [checkAddress(network, 'Host', host), checkAddress(network, 'Gateway', gateway)]
+    .filter((error): error is string => error !== null);
+  if (errors.length === 0 && parseAddress(host.trim())?.value === parseAddress(gateway.trim())?.value) {
+    errors.push('Host and gateway must be different addresses');
+  }
+  return errors;
+}
+
+export function buildConfigContext(network: ConfigNetwork, host: string, gateway: string, interfaceName: string): ConfigContext {
+  const mask = network.version === 4 ? convertCIDRToMask(network.prefixLength) : '';
+  const cidr = `${network.networkAddress}/${network.prefixLength}`;
+
+  return {
+    host: host.trim(),
+    gateway: gateway.trim(),
+    network: network.networkAddress,
+    prefix: network.prefixLength.toString(),
+    mask,
+    wildcard: mask ? calculateWildcardMask(mask) : '',
+    interface: interfaceName.trim(),
+    description: `Subnet ${cidr}`,
+    aclName: `NET-${cidr.replace(/[.:/]+/g, '-').replace(/-+$/, '').toUpperCase()}`
+  };
+}
+
+// Unknown placeholders are left as-is so a typo in a template is visible in
+// the output instead of silently disappearing
+export function renderConfigTemplate(template: ConfigTemplate, version: IPVersion, context: ConfigContext): string {
+  const body = template.bodies[version] ?? '';
+  const values: ConfigContext = { ...context, interface: context.interface || template.defaultInterface };
+  return body.replace(/\{\{(\w+)\}\}/g, (placeholder, name: string) =>
+    Object.prototype.hasOwnProperty.call(values, name) ? values[name as keyof ConfigContext] : placeholder
+  );
+}
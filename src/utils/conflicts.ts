@@ -0,0 +1,126 @@
+import { calculateSubnet } from './subnet';
+import { calculateIPv6Subnet } from './ipv6';
+import { blockEnd, blockSize, compareBlocks, parseCIDR } from './cidr';
+import type { CIDRBlock } from './cidr';
+
+export interface LabeledNetwork {
+  line: number;
+  label: string;
+  cidr: string;
+  networkAddress: string;
+  lastAddress: string;
+  block: CIDRBlock;
+}
+
+export type ConflictKind = 'duplicate' | 'contains';
+
+export interface ConflictFinding {
+  kind: ConflictKind;
+  outer: LabeledNetwork;
+  inner: LabeledNetwork;
+  sharedStart: string;
+  sharedEnd: string;
+  sharedAddresses: bigint;
+}
+
+export interface ParsedNetworkList {
+  networks: LabeledNetwork[];
+  errors: string[];
+}
+
+function describeNetwork(line: number, label: string, entry: string): LabeledNetwork | null {
+  const parsed = parseCIDR(entry);
+  if (!parsed) return null;
+
+  const [address] = entry.trim().split('/');
+  if (parsed.version === 4) {
+    const subnet = calculateSubnet(address, `/${parsed.prefixLength}`);
+    if (!subnet) return null;
+    return {
+      line,
+      label,
+      cidr: `${subnet.networkAddress}/${subnet.maskBits}`,
+      networkAddress: subnet.networkAddress,
+      lastAddress: subnet.broadcastAddress,
+      block: parsed
+    };
+  }
+
+  const subnet = calculateIPv6Subnet(address, parsed.prefixLength);
+  if (!subnet) return null;
+  return {
+    line,
+    label,
+    cidr: `${subnet.networkAddress}/${subnet.prefixLength}`,
+    networkAddress: subnet.networkAddress,
+    lastAddress: subnet.lastAddress,
+    block: parsed
+  };
+}
+
+// Each line holds one CIDR plus an optional label in any other column, so
+// both "label,10.0.0.0/24" CSV rows and "10.0.0.0/24 label" pastes work.
+// A header row without any CIDR is skipped.
+export function parseLabeledNetworks(text: string): ParsedNetworkList {
+  const networks: LabeledNetwork[] = [];
+  const errors: string[] = [];
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) return;
+
+    const fields = line.split(/[,\t;]|\s+/).map(field => field.trim().replace(/^"|"$/g, '')).filter(Boolean);
+    const cidrIndex = fields.findIndex(field => parseCIDR(field) !== null);
+    if (cidrIndex === -1) {
+      if (index > 0 || networks.length > 0) {
+        errors.push(`Line ${index + 1}: no valid IPv4 or IPv6 network found`);
+      }
+      return;
+    }
+
+    const label = fields.filter((_, i) => i !== cidrIndex).join(' ');
+    const network = describeNetwork(index + 1, label, fields[cidrIndex]);
+    if (network) {
+      networks.push(network);
+    } else {
+      errors.push(`Line ${index + 1}: could not calculate ${fields[cidrIndex]}`);
+    }
+  });
+
+  return { networks, errors };
+}
+
+// CIDR blocks are either nested or disjoint, so every overlap is a
+// containment. Sorting by start address (widest first) and keeping a stack
+// of the blocks that enclose the current one finds every overlapping pair in
+// O(n log n + findings) instead of comparing all pairs.
+export function findConflicts(networks: LabeledNetwork[]): ConflictFinding[] {
+  const sorted = [...networks].sort((a, b) => compareBlocks(a.block, b.block) || a.line - b.line);
+  const findings: ConflictFinding[] = [];
+  const stack: LabeledNetwork[] = [];
+
+  for (const network of sorted) {
+    while (stack.length > 0) {
+      const top = stack[stack.length - 1];
+      if (top.block.version === network.block.version && network.block.start <= blockEnd(top.block)) break;
+      stack.pop();
+    }
+
+    for (const outer of stack) {
+      const duplicate = outer.block.start === network.block.start
+        && outer.block.prefixLength === network.block.prefixLength;
+      findings.push({
+        kind: duplicate ? 'duplicate' : 'contains',
+        outer,
+        inner: network,
+        sharedStart: network.networkAddress,
+        sharedEnd: network.lastAddress,
+        sharedAddresses: blockSize(network.block)
+      });
+    }
+
+    stack.push(network);
+  }
+
+  return findings;
+}
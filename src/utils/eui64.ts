@@ -0,0 +1,187 @@
+import { formatIPv6, networkOf } from './ipv6';
+
+export interface MACInfo {
+  value: bigint;
+  // Universally administered (burned-in) rather than locally assigned
+  universal: boolean;
+  multicast: boolean;
+}
+
+export interface EUI64Detection {
+  mac: bigint;
+  universal: boolean;
+}
+
+export interface StableIdInput {
+  prefix: bigint;
+  interfaceName: string;
+  networkId: string;
+  dadCounter: number;
+  secret: string;
+}
+
+export interface StableIdResult {
+  interfaceId: bigint;
+  // The counter actually used; it is bumped past reserved interface IDs
+  dadCounter: number;
+}
+
+export interface EUI64BatchRow {
+  line: number;
+  input: string;
+  label: string;
+  mac: string;
+  interfaceId: string;
+  address: string;
+  linkLocal: string;
+  error: string | null;
+}
+
+export const LINK_LOCAL_PREFIX = 0xfe80n << 112n;
+
+// RFC 2526 reserved subnet anycast interface IDs in EUI-64 format subnets:
+// fdff:ffff:ffff:ff80 through fdff:ffff:ffff:ffff
+export const RESERVED_ANYCAST_FIRST_ID = 0xfdffffffffffff80n;
+export const RESERVED_ANYCAST_LAST_ID = 0xfdffffffffffffffn;
+
+const INTERFACE_ID_MASK = (1n << 64n) - 1n;
+const UNIVERSAL_LOCAL_BIT = 0x02n;
+const GROUP_BIT = 0x01n;
+
+// RFC 7217 section 6: how often the DAD counter is bumped before giving up
+const IDGEN_RETRIES = 3;
+
+// Colon, dash, Cisco dotted and bare hex notations
+const MAC_PATTERNS = [
+  /^([0-9a-f]{2})[:-]([0-9a-f]{2})[:-]([0-9a-f]{2})[:-]([0-9a-f]{2})[:-]([0-9a-f]{2})[:-]([0-9a-f]{2})$/i,
+  /^([0-9a-f]{4})\.([0-9a-f]{4})\.([0-9a-f]{4})$/i,
+  /^([0-9a-f]{12})$/i
+];
+
+export function parseMAC(text: string): MACInfo | null {
+  const input = text.trim();
+  const match = MAC_PATTERNS.map(pattern => input.match(pattern)).find(Boolean);
+  if (!match) return null;
+
+  const value = BigInt(`0x${match.slice(1).join('')}`);
+  const firstOctet = value >> 40n;
+  return {
+    value,
+    universal: (firstOctet & UNIVERSAL_LOCAL_BIT) === 0n,
+    multicast: (firstOctet & GROUP_BIT) !== 0n
+  };
+}
+
+export function formatMAC(value: bigint): string {
+  return value.toString(16).padStart(12, '0').match(/../g)!.join(':');
+}
+
+export function formatInterfaceId(value: bigint): string {
+  return value.toString(16).padStart(16, '0').match(/.{4}/g)!.join(':');
+}
+
+// RFC 4291 appendix A: ff:fe goes between the OUI and the NIC-specific half,
+// and the universal/local bit is inverted
+export function macToInterfaceId(mac: bigint): bigint {
+  const oui = mac >> 24n;
+  const nic = mac & 0xffffffn;
+  const interfaceId = (oui << 40n) | (0xfffen << 24n) | nic;
+  return interfaceId ^ (UNIVERSAL_LOCAL_BIT << 56n);
+}
+
+export function interfaceAddress(prefix: bigint, interfaceId: bigint): bigint {
+  return networkOf(prefix, 64) | (interfaceId & INTERFACE_ID_MASK);
+}
+
+// An interface ID with ff:fe in the middle was almost certainly built from a
+// MAC; anything else (privacy, stable opaque or manual IDs) yields null
+export function detectEUI64(address: bigint): EUI64Detection | null {
+  const interfaceId = address & INTERFACE_ID_MASK;
+  if (((interfaceId >> 24n) & 0xffffn) !== 0xfffen) return null;
+
+  const universal = ((interfaceId >> 56n) & UNIVERSAL_LOCAL_BIT) !== 0n;
+  const flipped = interfaceId ^ (UNIVERSAL_LOCAL_BIT << 56n);
+  return { mac: ((flipped >> 40n) << 24n) | (flipped & 0xffffffn), universal };
+}
+
+// RFC 5453: the Subnet-Router anycast ID, the IANA Ethernet block and the
+// reserved subnet anycast IDs must never be generated
+export function isReservedInterfaceId(interfaceId: bigint): boolean {
+  if (interfaceId === 0n) return true;
+  if (interfaceId >= 0x02005efffe000000n && interfaceId <= 0x02005efffeffffffn) return true;
+  return interfaceId >= RESERVED_ANYCAST_FIRST_ID && interfaceId <= RESERVED_ANYCAST_LAST_ID;
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+function prefixBytes(prefix: bigint): Uint8Array {
+  const bytes = new Uint8Array(8);
+  let value = networkOf(prefix, 64) >> 64n;
+  for (let i = 7; i >= 0; i--) {
+    bytes[i] = Number(value & 0xffn);
+    value >>= 8n;
+  }
+  return bytes;
+}
+
+// RFC 7217 leaves the PRF and the input encoding to the implementation. This
+// uses SHA-256 over prefix (8 bytes), interface name, network ID, DAD counter
+// (1 byte) and secret, and keeps the first 64 bits, so IDs are reproducible
+// here but will not match another implementation's.
+export async function stableInterfaceId(input: StableIdInput): Promise<StableIdResult> {
+  const encoder = new TextEncoder();
+  for (let dadCounter = input.dadCounter; dadCounter <= input.dadCounter + IDGEN_RETRIES; dadCounter++) {
+    const data = concatBytes([
+      prefixBytes(input.prefix),
+      encoder.encode(input.interfaceName),
+      encoder.encode(input.networkId),
+      new Uint8Array([dadCounter & 0xff]),
+      encoder.encode(input.secret)
+    ]);
+    const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', data));
+    const interfaceId = digest.slice(0, 8).reduce((value, byte) => (value << 8n) | BigInt(byte), 0n);
+    if (!isReservedInterfaceId(interfaceId)) return { interfaceId, dadCounter };
+  }
+  throw new Error(`No usable interface ID after ${IDGEN_RETRIES} retries`);
+}
+
+// One MAC per line, optionally followed by a label after whitespace or a comma
+export function convertMACList(text: string, prefix: bigint): EUI64BatchRow[] {
+  return text.split(/\r?\n/).flatMap((rawLine, index) => {
+    const input = rawLine.trim();
+    if (!input || input.startsWith('#')) return [];
+
+    const [macText, ...rest] = input.split(/[\s,;]+/);
+    const row: EUI64BatchRow = {
+      line: index + 1,
+      input,
+      label: rest.join(' '),
+      mac: '',
+      interfaceId: '',
+      address: '',
+      linkLocal: '',
+      error: null
+    };
+
+    const mac = parseMAC(macText);
+    if (!mac) return [{ ...row, error: `"${macText}" is not a MAC address` }];
+    if (mac.multicast) return [{ ...row, mac: formatMAC(mac.value), error: 'Multicast MAC addresses cannot be used for interface IDs' }];
+
+    const interfaceId = macToInterfaceId(mac.value);
+    return [{
+      ...row,
+      mac: formatMAC(mac.value),
+      interfaceId: formatInterfaceId(interfaceId),
+      address: formatIPv6(interfaceAddress(prefix, interfaceId)),
+      linkLocal: formatIPv6(interfaceAddress(LINK_LOCAL_PREFIX, interfaceId))
+    }];
+  });
+}
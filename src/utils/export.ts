@@ -0,0 +1,369 @@
+import type { SubnetResults } from './subnet';
+import type { IPv6SubnetResults } from './ipv6';
+import type { SplitSubnet } from './split';
+import type { IPv6ChildPrefix } from './ipv6Prefixes';
+import type { ConflictFinding } from './conflicts';
+import type { BulkGroup, BulkRow } from './bulk';
+import type { EUI64BatchRow } from './eui64';
+import { getAddressPolicy } from './addressPolicy';
+import { csvField } from './csv';
+import { flattenPlan, getUsage } from './addressPlan';
+import type { AddressPlan } from './addressPlan';
+
+// Everything exportable is reduced to one of two shapes: a single result as
+// label/value pairs, or a multi-row table. Formats render either shape.
+export type ExportData =
+  | { kind: 'record'; fields: [string, string][] }
+  | { kind: 'table'; columns: string[]; rows: string[][] };
+
+export interface ExportFormat {
+  id: string;
+  label: string;
+  extension: string;
+  mimeType: string;
+  render: (data: ExportData) => string;
+}
+
+function toRows(data: ExportData): string[][] {
+  return data.kind === 'record'
+    ? [['Property', 'Value'], ...data.fields]
+    : [data.columns, ...data.rows];
+}
+
+function toObjects(data: ExportData): Record<string, string> | Record<string, string>[] {
+  if (data.kind === 'record') return Object.fromEntries(data.fields);
+  return data.rows.map(row => Object.fromEntries(data.columns.map((column, index) => [column, row[index] ?? ''])));
+}
+
+function renderCSV(data: ExportData): string {
+  return toRows(data).map(row => row.map(csvField).join(',')).join('\r\n');
+}
+
+function renderJSON(data: ExportData): string {
+  return JSON.stringify(toObjects(data), null, 2);
+}
+
+const YAML_PLAIN = /^[A-Za-z_][\w ().-]*$/;
+const YAML_RESERVED = /^(true|false|yes|no|on|off|null|~)$/i;
+
+// Anything that is not obviously a plain word is emitted double-quoted, which
+// is always valid YAML and keeps addresses and numbers as strings
+function yamlScalar(value: string): string {
+  return YAML_PLAIN.test(value) && !YAML_RESERVED.test(value) && value.trim() === value
+    ? value
+    : JSON.stringify(value);
+}
+
+function yamlMapping(entries: [string, string][], indent: string): string[] {
+  return entries.map(([key, value]) => `${indent}${yamlScalar(key)}: ${yamlScalar(value)}`);
+}
+
+function renderYAML(data: ExportData): string {
+  if (data.kind === 'record') return yamlMapping(data.fields, '').join('\n');
+  if (data.rows.length === 0) return '[]';
+
+  return data.rows
+    .flatMap(row => {
+      const [first, ...rest] = yamlMapping(data.columns.map((column, index) => [column, row[index] ?? '']), '  ');
+      return [`- ${first.trimStart()}`, ...rest];
+    })
+    .join('\n');
+}
+
+function markdownCell(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+}
+
+function renderMarkdown(data: ExportData): string {
+  const [header, ...body] = toRows(data);
+  return [
+    `| ${header.map(markdownCell).join(' | ')} |`,
+    `| ${header.map(() => '---').join(' | ')} |`,
+    ...body.map(row => `| ${row.map(markdownCell).join(' | ')} |`)
+  ].join('\n');
+}
+
+export function formatTextTable(rows: string[][]): string {
+  const widths = rows[0].map((_, column) => Math.max(...rows.map(row => (row[column] ?? '').length)));
+  return rows
+    .map(row => row.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd())
+    .join('\n');
+}
+
+function renderText(data: ExportData): string {
+  if (data.kind === 'record') {
+    return formatTextTable(data.fields.map(([label, value]) => [`${label}:`, value]));
+  }
+  return formatTextTable([data.columns, ...data.rows]);
+}
+
+export const CSV_FORMAT: ExportFormat = { id: 'csv', label: 'CSV', extension: 'csv', mimeType: 'text/csv;charset=utf-8;', render: renderCSV };
+export const JSON_FORMAT: ExportFormat = { id: 'json', label: 'JSON', extension: 'json', mimeType: 'application/json;charset=utf-8;', render: renderJSON };
+export const YAML_FORMAT: ExportFormat = { id: 'yaml', label: 'YAML', extension: 'yaml', mimeType: 'application/yaml;charset=utf-8;', render: renderYAML };
+export const MARKDOWN_FORMAT: ExportFormat = { id: 'markdown', label: 'Markdown', extension: 'md', mimeType: 'text/markdown;charset=utf-8;', render: renderMarkdown };
+export const TEXT_FORMAT: ExportFormat = { id: 'text', label: 'Plain Text', extension: 'txt', mimeType: 'text/plain;charset=utf-8;', render: renderText };
+
+const exportFormats: ExportFormat[] = [CSV_FORMAT, JSON_FORMAT, YAML_FORMAT, MARKDOWN_FORMAT, TEXT_FORMAT];
+
+export function getExportFormats(): readonly ExportFormat[] {
+  return exportFormats;
+}
+
+export function getExportFormat(id: string): ExportFormat | undefined {
+  return exportFormats.find(format => format.id === id);
+}
+
+// A format registered with an existing id replaces the built-in one
+export function registerExportFormat(format: ExportFormat) {
+  const index = exportFormats.findIndex(existing => existing.id === format.id);
+  if (index === -1) {
+    exportFormats.push(format);
+  } else {
+    exportFormats[index] = format;
+  }
+}
+
+export function subnetExportData(results: SubnetResults): ExportData {
+  return {
+    kind: 'record',
+    fields: [
+      ['Network Address', results.networkAddress],
+      ['Broadcast Address', results.broadcastAddress],
+      ['First Host IP', results.firstHostIP],
+      ['Last Host IP', results.lastHostIP],
+      ['Total Hosts', results.totalHosts.toString()],
+      ['Total Addresses', results.totalAddresses.toString()],
+      ['Address Policy', getAddressPolicy(results.policy)?.label ?? 'Custom'],
+      ['Reserved Addresses', results.reservedAddresses.map(reserved => `${reserved.address} (${reserved.label})`).join(', ')],
+      ['Mask Bits (CIDR)', `/${results.maskBits}`],
+      ['IP Class', results.ipClass],
+      ['Wildcard Mask', results.wildcardMask]
+    ]
+  };
+}
+
+export function ipv6SubnetExportData(results: IPv6SubnetResults): ExportData {
+  return {
+    kind: 'record',
+    fields: [
+      ['Network Address', results.networkAddress],
+      ['Last Address', results.lastAddress],
+      ['Prefix Length', `/${results.prefixLength}`],
+      ['Total Addresses', results.addressCount.toString()]
+    ]
+  };
+}
+
+// reserved maps an address to the policy label it is reserved for; when given
+// the table gains a Reserved column
+export function hostListExportData(addresses: string[], reserved?: Map<string, string>): ExportData {
+  if (!reserved) {
+    return {
+      kind: 'table',
+      columns: ['Index', 'Host Address'],
+      rows: addresses.map((address, index) => [index.toString(), address])
+    };
+  }
+  return {
+    kind: 'table',
+    columns: ['Index', 'Host Address', 'Reserved'],
+    rows: addresses.map((address, index) => [index.toString(), address, reserved.get(address) ?? ''])
+  };
+}
+
+export function splitExportData(subnets: SplitSubnet[], maskBits: number): ExportData {
+  return {
+    kind: 'table',
+    columns: ['Index', 'Network Address', 'Broadcast Address', 'First Host IP', 'Last Host IP', 'Total Hosts'],
+    rows: subnets.map(subnet => [
+      subnet.index.toString(),
+      `${subnet.networkAddress}/${maskBits}`,
+      subnet.broadcastAddress,
+      subnet.firstHostIP,
+      subnet.lastHostIP,
+      subnet.totalHosts.toString()
+    ])
+  };
+}
+
+export function ipv6PrefixExportData(prefixes: IPv6ChildPrefix[]): ExportData {
+  return {
+    kind: 'table',
+    columns: ['Index', 'Prefix', 'Last Address'],
+    rows: prefixes.map(prefix => [
+      prefix.index.toString(),
+      `${prefix.networkAddress}/${prefix.prefixLength}`,
+      prefix.lastAddress
+    ])
+  };
+}
+
+export function conflictExportData(findings: ConflictFinding[]): ExportData {
+  return {
+    kind: 'table',
+    columns: ['Finding', 'Outer Label', 'Outer Network', 'Inner Label', 'Inner Network', 'Shared Start', 'Shared End', 'Shared Addresses'],
+    rows: findings.map(finding => [
+      finding.kind === 'duplicate' ? 'Duplicate' : 'Contains',
+      finding.outer.label,
+      finding.outer.cidr,
+      finding.inner.label,
+      finding.inner.cidr,
+      finding.sharedStart,
+      finding.sharedEnd,
+      finding.sharedAddresses.toString()
+    ])
+  };
+}
+
+export function bulkExportData(rows: BulkRow[]): ExportData {
+  return {
+    kind: 'table',
+    columns: [
+      'Line', 'Input', 'Label', 'Version', 'Address', 'Network', 'Prefix Length', 'Subnet Mask', 'Last Address',
+      'First Usable', 'Last Usable', 'Usable Addresses', 'Total Addresses', 'Address Type', 'Rows In Network', 'Error'
+    ],
+    rows: rows.map(row => [
+      row.line.toString(),
+      row.input,
+      row.label,
+      row.version === null ? '' : `IPv${row.version}`,
+      row.address,
+      row.network,
+      row.error ? '' : row.prefixLength.toString(),
+      row.mask,
+      row.lastAddress,
+      row.firstUsable,
+      row.lastUsable,
+      row.error ? '' : row.usable.toString(),
+      row.error ? '' : row.addressCount.toString(),
+      row.addressType,
+      row.error ? '' : row.groupSize.toString(),
+      row.error ?? ''
+    ])
+  };
+}
+
+export function bulkGroupExportData(groups: BulkGroup[]): ExportData {
+  return {
+    kind: 'table',
+    columns: ['Network', 'Version', 'Rows', 'Addresses', 'Labels', 'Lines'],
+    rows: groups.map(group => [
+      group.network,
+      `IPv${group.version}`,
+      group.rows.length.toString(),
+      group.rows.map(row => row.address).join(' '),
+      group.rows.map(row => row.label).filter(Boolean).join('; '),
+      group.rows.map(row => row.line).join(' ')
+    ])
+  };
+}
+
+export function eui64ExportData(rows: EUI64BatchRow[]): ExportData {
+  return {
+    kind: 'table',
+    columns: ['Line', 'MAC', 'Label', 'Interface ID', 'Address', 'Link-Local Address', 'Error'],
+    rows: rows.map(row => [
+      row.line.toString(),
+      row.mac || row.input,
+      row.label,
+      row.interfaceId,
+      row.address,
+      row.linkLocal,
+      row.error ?? ''
+    ])
+  };
+}
+
+// Parent is informational; importPlanCSV rebuilds the tree from the networks
+export function planExportData(plan: AddressPlan): ExportData {
+  return {
+    kind: 'table',
+    columns: ['Network', 'Parent', 'Depth', 'Name', 'VLAN', 'Site', 'Owner', 'Notes', 'Addresses', 'Free Addresses'],
+    rows: flattenPlan(plan).map(({ allocation, depth, parentCidr }) => {
+      const usage = getUsage(plan, allocation);
+      return [
+        allocation.cidr,
+        parentCidr,
+        depth.toString(),
+        allocation.name,
+        allocation.vlan,
+        allocation.site,
+        allocation.owner,
+        allocation.notes,
+        usage.total.toString(),
+        usage.free.toString()
+      ];
+    })
+  };
+}
+
+export function exportFilename(base: string, format: ExportFormat): string {
+  return `${base}-${new Date().toISOString()}.${format.extension}`;
+}
+
+export function downloadExport(data: ExportData, format: ExportFormat, base: string) {
+  downloadFile(format.render(data), exportFilename(base, format), format.mimeType);
+}
+
+export function downloadFile(data: string, filename: string, type: string) {
+  downloadBlob(new Blob([data], { type }), filename);
+}
+
+function downloadBlob(blob: Blob, filename: string) {
+  const link = document.createElement('a');
+  const url = URL.createObjectURL(blob);
+
+  link.setAttribute('href', url);
+  link.setAttribute('download', filename);
+  link.style.visibility = 'hidden';
+
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  // Release the blob once the download has started; large exports would
+  // otherwise stay in memory for the life of the page
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+// Receives a large export piece by piece, so it is never held as one string
+export interface FileSink {
+  write(chunk: string): Promise<void>;
+  close(): Promise<void>;
+  abort(): Promise<void>;
+}
+
+// Not in the TypeScript DOM library yet; Chromium-based browsers only
+type SaveFilePicker = (options: { suggestedName?: string }) => Promise<FileSystemFileHandle>;
+
+// Where the browser offers a save dialog the chunks go straight to disk.
+// Elsewhere each chunk becomes its own Blob, which the browser can keep out
+// of the JavaScript heap, and the download starts on close. Resolves to null
+// when the user cancels the dialog.
+export async function openFileSink(filename: string, type: string): Promise<FileSink | null> {
+  const picker = (window as Window & { showSaveFilePicker?: SaveFilePicker }).showSaveFilePicker;
+  if (picker) {
+    try {
+      const stream = await (await picker({ suggestedName: filename })).createWritable();
+      return {
+        write: chunk => stream.write(chunk),
+        close: () => stream.close(),
+        abort: () => stream.abort()
+      };
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') return null;
+      // Any other failure (an embedded page, a denied permission) falls back
+      // to a download
+    }
+  }
+
+  const parts: Blob[] = [];
+  return {
+    write: async chunk => {
+      parts.push(new Blob([chunk], { type }));
+    },
+    close: async () => downloadBlob(new Blob(parts, { type }), filename),
+    abort: async () => {
+      parts.length = 0;
+    }
+  };
+}
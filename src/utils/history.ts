@@ -0,0 +1,218 @@
+import { calculateSubnet } from './subnet';
+import { calculateIPv6Subnet } from './ipv6';
+import { parseIPv6Strict, parseIPv4Strict, parseMaskStrict, parsePrefixLengthStrict } from './addressParser';
+import { createId } from './id';
+
+// A calculation as entered in one of the calculators, plus its network in
+// CIDR form for display and searching
+export interface SavedCalculation {
+  version: 4 | 6;
+  address: string;
+  mask: string;
+  cidr: string;
+}
+
+export interface HistoryEntry extends SavedCalculation {
+  id: string;
+  timestamp: number;
+  pinned: boolean;
+}
+
+export interface WorkspaceSubnet extends SavedCalculation {
+  id: string;
+  note: string;
+  addedAt: number;
+}
+
+export interface Workspace {
+  id: string;
+  name: string;
+  notes: string;
+  subnets: WorkspaceSubnet[];
+  updatedAt: number;
+}
+
+export const MAX_HISTORY_ENTRIES = 200;
+
+const HISTORY_STORAGE_KEY = 'subnet-calculator:history';
+const WORKSPACES_STORAGE_KEY = 'subnet-calculator:workspaces';
+const WORKSPACE_FILE_FORMAT = 'subnet-calculator-workspace';
+const WORKSPACE_FILE_VERSION = 1;
+
+export function describeCalculation(version: 4 | 6, address: string, mask: string): SavedCalculation | null {
+  if (version === 4) {
+    if (!parseIPv4Strict(address).ok || !parseMaskStrict(mask).ok) return null;
+    const results = calculateSubnet(address.trim(), mask.trim());
+    return results
+      ? { version, address: address.trim(), mask: mask.trim(), cidr: `${results.networkAddress}/${results.maskBits}` }
+      : null;
+  }
+
+  const prefix = parsePrefixLengthStrict(mask, 128);
+  if (!parseIPv6Strict(address).ok || !prefix.ok) return null;
+  const results = calculateIPv6Subnet(address, prefix.value);
+  return results
+    ? { version, address: address.trim(), mask: mask.trim(), cidr: `${results.networkAddress}/${results.prefixLength}` }
+    : null;
+}
+
+export function isSameCalculation(a: SavedCalculation, b: SavedCalculation): boolean {
+  return a.version === b.version && a.address === b.address && a.mask === b.mask;
+}
+
+// Repeating a calculation moves it to the top instead of adding a duplicate;
+// the oldest unpinned entries are dropped once the list is full
+export function recordCalculation(entries: HistoryEntry[], calculation: SavedCalculation, timestamp: number): HistoryEntry[] {
+  const existing = entries.find(entry => isSameCalculation(entry, calculation));
+  const entry: HistoryEntry = existing
+    ? { ...existing, timestamp }
+    : { ...calculation, id: createId(), timestamp, pinned: false };
+
+  const next = [entry, ...entries.filter(other => other !== existing)];
+  let unpinned = 0;
+  return next.filter(other => other.pinned || ++unpinned <= MAX_HISTORY_ENTRIES);
+}
+
+export function sortHistory(entries: HistoryEntry[]): HistoryEntry[] {
+  return [...entries].sort((a, b) => Number(b.pinned) - Number(a.pinned) || b.timestamp - a.timestamp);
+}
+
+export function searchHistory(entries: HistoryEntry[], query: string): HistoryEntry[] {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return entries;
+  return entries.filter(entry =>
+    [entry.cidr, entry.address, entry.mask].some(field => field.toLowerCase().includes(needle))
+  );
+}
+
+function readStorage<T>(key: string, isValid: (value: unknown) => value is T): T[] {
+  try {
+    const parsed: unknown = JSON.parse(localStorage.getItem(key) ?? '[]');
+    return Array.isArray(parsed) ? parsed.filter(isValid) : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeStorage(key: string, value: unknown) {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch {
+    // Storage can be full or disabled (private browsing); history is best-effort
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+function isSavedCalculation(value: unknown): value is SavedCalculation {
+  return isRecord(value)
+    && (value.version === 4 || value.version === 6)
+    && typeof value.address === 'string'
+    && typeof value.mask === 'string'
+    && typeof value.cidr === 'string';
+}
+
+function isHistoryEntry(value: unknown): value is HistoryEntry {
+  return isSavedCalculation(value)
+    && isRecord(value)
+    && typeof value.id === 'string'
+    && typeof value.timestamp === 'number'
+    && typeof value.pinned === 'boolean';
+}
+
+function isWorkspaceSubnet(value: unknown): value is WorkspaceSubnet {
+  return isSavedCalculation(value)
+    && isRecord(value)
+    && typeof value.id === 'string'
+    && typeof value.note === 'string'
+    && typeof value.addedAt === 'number';
+}
+
+function isWorkspace(value: unknown): value is Workspace {
+  return isRecord(value)
+    && typeof value.id === 'string'
+    && typeof value.name === 'string'
+    && typeof value.notes === 'string'
+    && typeof value.updatedAt === 'number'
+    && Array.isArray(value.subnets)
+    && value.subnets.every(isWorkspaceSubnet);
+}
+
+export function loadHistory(): HistoryEntry[] {
+  return readStorage(HISTORY_STORAGE_KEY, isHistoryEntry);
+}
+
+export function saveHistory(entries: HistoryEntry[]) {
+  writeStorage(HISTORY_STORAGE_KEY, entries);
+}
+
+export function loadWorkspaces(): Workspace[] {
+  return readStorage(WORKSPACES_STORAGE_KEY, isWorkspace);
+}
+
+export function saveWorkspaces(workspaces: Workspace[]) {
+  writeStorage(WORKSPACES_STORAGE_KEY, workspaces);
+}
+
+export function exportWorkspace(workspace: Workspace): string {
+  return JSON.stringify({
+    format: WORKSPACE_FILE_FORMAT,
+    version: WORKSPACE_FILE_VERSION,
+    workspace: {
+      name: workspace.name,
+      notes: workspace.notes,
+      subnets: workspace.subnets.map(({ version, address, mask, cidr, note }) => ({ version, address, mask, cidr, note }))
+    }
+  }, null, 2);
+}
+
+// Imported workspaces get fresh ids so importing the same file twice, or a
+// file exported from this browser, never collides with existing entries.
+// Subnets are recalculated rather than trusted, so a hand-edited file cannot
+// carry a stale or wrong CIDR.
+export function importWorkspace(text: string, timestamp: number): { workspace: Workspace | null; error: string | null } {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { workspace: null, error: 'File is not valid JSON' };
+  }
+
+  if (!isRecord(parsed) || parsed.format !== WORKSPACE_FILE_FORMAT || !isRecord(parsed.workspace)) {
+    return { workspace: null, error: 'File is not an exported workspace' };
+  }
+  if (parsed.version !== WORKSPACE_FILE_VERSION) {
+    return { workspace: null, error: `Unsupported workspace file version: ${String(parsed.version)}` };
+  }
+
+  const { name, notes, subnets } = parsed.workspace;
+  if (typeof name !== 'string' || !Array.isArray(subnets)) {
+    return { workspace: null, error: 'Workspace is missing its name or subnets' };
+  }
+
+  const imported: WorkspaceSubnet[] = [];
+  for (let index = 0; index < subnets.length; index++) {
+    const subnet: unknown = subnets[index];
+    const calculation = isSavedCalculation(subnet)
+      ? describeCalculation(subnet.version, subnet.address, subnet.mask)
+      : null;
+    if (!calculation) {
+      return { workspace: null, error: `Subnet ${index + 1} is not a valid calculation` };
+    }
+    const note = isRecord(subnet) && typeof subnet.note === 'string' ? subnet.note : '';
+    imported.push({ ...calculation, id: createId(), note, addedAt: timestamp });
+  }
+
+  return {
+    workspace: {
+      id: createId(),
+      name,
+      notes: typeof notes === 'string' ? notes : '',
+      subnets: imported,
+      updatedAt: timestamp
+    },
+    error: null
+  };
+}
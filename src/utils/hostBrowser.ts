@@ -0,0 +1,193 @@
+import { blockEnd, blockSize, formatAddress, parseAddress } from './cidr';
+import type { CIDRBlock } from './cidr';
+import { csvField } from './csv';
+import { RESERVED_ANYCAST_FIRST_ID, RESERVED_ANYCAST_LAST_ID } from './eui64';
+
+export type HostMarkerKind = 'network' | 'broadcast' | 'gateway' | 'reserved';
+
+// Marks the offsets start..end (inclusive) within the block, or within every
+// `period` offsets when set
+export interface HostMarker {
+  start: bigint;
+  end: bigint;
+  period?: bigint;
+  kind: HostMarkerKind;
+  label: string;
+}
+
+export interface HostRow {
+  offset: bigint;
+  address: string;
+  marker: HostMarker | null;
+}
+
+export interface HostSearchResult {
+  offset: bigint | null;
+  // Last offset examined, so a follow-up search can continue from there
+  scannedTo: bigint;
+}
+
+export type HostExportFormat = 'text' | 'csv';
+
+// How many addresses a text search examines before giving up; IPv6 blocks
+// are far too large to scan to the end
+export const SEARCH_LIMIT = 65536n;
+
+// Largest slice that can be exported in one go (a whole IPv4 /8)
+export const EXPORT_LIMIT = 16777216n;
+
+// Lines generated between yields to the event loop while exporting
+const EXPORT_CHUNK = 20000;
+
+export function markerAt(markers: HostMarker[], offset: bigint): HostMarker | null {
+  return markers.find(marker => {
+    const local = marker.period ? offset % marker.period : offset;
+    return local >= marker.start && local <= marker.end;
+  }) ?? null;
+}
+
+// First offset after `from` that the marker covers, or null when there is none
+function nextMarkerOffset(marker: HostMarker, from: bigint): bigint | null {
+  const base = marker.period ? from - (from % marker.period) : 0n;
+  if (from < base + marker.start) return base + marker.start;
+  if (from < base + marker.end) return from + 1n;
+  return marker.period ? base + marker.period + marker.start : null;
+}
+
+export function hostRows(block: CIDRBlock, from: bigint, count: number, markers: HostMarker[]): HostRow[] {
+  const size = blockSize(block);
+  const rows: HostRow[] = [];
+  for (let offset = from; offset < from + BigInt(count) && offset < size; offset++) {
+    rows.push({ offset, address: formatAddress(block.version, block.start + offset), marker: markerAt(markers, offset) });
+  }
+  return rows;
+}
+
+function markerKind(label: string): HostMarkerKind {
+  if (label === 'Network') return 'network';
+  if (label === 'Broadcast') return 'broadcast';
+  return /gateway|router/i.test(label) ? 'gateway' : 'reserved';
+}
+
+// IPv4 markers from the reserved addresses of the selected address policy
+export function policyMarkers(block: CIDRBlock, reserved: { address: string; label: string }[]): HostMarker[] {
+  return reserved.flatMap(({ address, label }) => {
+    const parsed = parseAddress(address);
+    if (!parsed) return [];
+    const offset = parsed.value - block.start;
+    return [{ start: offset, end: offset, kind: markerKind(label), label }];
+  });
+}
+
+// RFC 4291 Subnet-Router anycast at the start, and the RFC 2526 reserved
+// subnet anycast addresses: the reserved interface IDs in each /64 of a block
+// that uses 64-bit interface IDs, otherwise the top 128 addresses of any
+// subnet that has room for them
+export function ipv6Markers(block: CIDRBlock): HostMarker[] {
+  const size = blockSize(block);
+  const markers: HostMarker[] = [{ start: 0n, end: 0n, kind: 'network', label: 'Subnet-Router anycast' }];
+  if (block.prefixLength <= 64) {
+    markers.push({
+      start: RESERVED_ANYCAST_FIRST_ID,
+      end: RESERVED_ANYCAST_LAST_ID,
+      period: 1n << 64n,
+      kind: 'reserved',
+      label: 'Reserved subnet anycast'
+    });
+  } else if (size >= 256n) {
+    markers.push({ start: size - 128n, end: size - 1n, kind: 'reserved', label: 'Reserved subnet anycast' });
+  }
+  return markers;
+}
+
+// Adds a gateway marker unless the address already carries one
+export function withGateway(block: CIDRBlock, markers: HostMarker[], gateway: string): HostMarker[] {
+  const parsed = parseAddress(gateway.trim());
+  if (!parsed || parsed.version !== block.version || parsed.value < block.start || parsed.value > blockEnd(block)) {
+    return markers;
+  }
+  const offset = parsed.value - block.start;
+  if (markerAt(markers, offset)) return markers;
+  return [...markers, { start: offset, end: offset, kind: 'gateway', label: 'Gateway' }];
+}
+
+// Accepts a decimal offset, negative to count back from the end (-1 is the
+// last address), or an address inside the block
+export function resolveLocation(block: CIDRBlock, text: string): { offset: bigint | null; error: string | null } {
+  const input = text.trim();
+  const size = blockSize(block);
+
+  if (/^-?\d+$/.test(input)) {
+    const value = BigInt(input);
+    const offset = value < 0n ? size + value : value;
+    if (offset < 0n || offset >= size) {
+      return { offset: null, error: `Offset must be between 0 and ${size - 1n} (or negative from the end)` };
+    }
+    return { offset, error: null };
+  }
+
+  const address = parseAddress(input);
+  if (!address || address.version !== block.version) {
+    return { offset: null, error: `Enter an offset or an IPv${block.version} address` };
+  }
+  if (address.value < block.start || address.value > blockEnd(block)) {
+    return { offset: null, error: `${input} is outside this network` };
+  }
+  return { offset: address.value - block.start, error: null };
+}
+
+// Finds the next address after `from` whose text or marker label contains
+// the query, looking at no more than SEARCH_LIMIT addresses
+export function findNextHost(block: CIDRBlock, markers: HostMarker[], query: string, from: bigint): HostSearchResult {
+  const needle = query.trim().toLowerCase();
+  const last = blockSize(block) - 1n;
+  const stop = from + SEARCH_LIMIT < last ? from + SEARCH_LIMIT : last;
+
+  const markerHit = markers
+    .filter(marker => marker.label.toLowerCase().includes(needle))
+    .map(marker => nextMarkerOffset(marker, from))
+    .filter((offset): offset is bigint => offset !== null && offset <= last)
+    .sort((a, b) => (a < b ? -1 : a > b ? 1 : 0))[0];
+
+  for (let offset = from + 1n; offset <= stop; offset++) {
+    if (markerHit !== undefined && markerHit <= offset) return { offset: markerHit, scannedTo: markerHit };
+    if (formatAddress(block.version, block.start + offset).includes(needle)) return { offset, scannedTo: offset };
+  }
+  if (markerHit !== undefined) return { offset: markerHit, scannedTo: markerHit };
+  return { offset: null, scannedTo: stop };
+}
+
+function exportLine(row: HostRow, format: HostExportFormat): string {
+  if (format === 'text') return row.address;
+  return [row.offset.toString(), row.address, row.marker?.label ?? ''].map(csvField).join(',');
+}
+
+// Generates the slice EXPORT_CHUNK lines at a time and hands each chunk to
+// `write` before building the next, so no more than one chunk is held at
+// once. Resolves to false when cancelled.
+export async function exportHostSlice(
+  block: CIDRBlock,
+  markers: HostMarker[],
+  from: bigint,
+  count: bigint,
+  format: HostExportFormat,
+  write: (chunk: string) => Promise<void>,
+  isCancelled: () => boolean,
+  onProgress: (done: bigint) => void
+): Promise<boolean> {
+  const separator = format === 'csv' ? '\r\n' : '\n';
+  if (format === 'csv') await write(`Offset,Address,Marker${separator}`);
+
+  for (let done = 0n; done < count;) {
+    if (isCancelled()) return false;
+    const size = count - done < BigInt(EXPORT_CHUNK) ? Number(count - done) : EXPORT_CHUNK;
+    const rows = hostRows(block, from + done, size, markers);
+    if (rows.length === 0) break;
+    await write(rows.map(row => exportLine(row, format)).join(separator) + separator);
+    done += BigInt(rows.length);
+    onProgress(done);
+    // Let the page repaint the progress between chunks
+    await new Promise(resolve => setTimeout(resolve, 0));
+  }
+  return true;
+}
@@ -0,0 +1,4 @@
+// Short random ids for stored records; unique enough for one browser's data
+export function createId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 8)}`;
+}
@@ -1,140 +1,130 @@
+import { parseIPv6Strict } from './addressParser';
+
 export interface IPv6SubnetResults {
   networkAddress: string;
   lastAddress: string;
+  prefixLength: number;
+  addressCount: bigint;
   totalAddresses: string;
 }
 
-export function isValidIPv6Address(address: string): boolean {
-  try {
-    if (address === '') return false;
-    
-    // Remove any leading/trailing whitespace
-    address = address.trim();
-    
-    // Check for proper use of ::
-    const doubleColonCount = (address.match(/::/g) || []).length;
-    if (doubleColonCount > 1) return false;
-    
-    // Split the address into its segments
-    const segments = address.split(':');
-    
-    // Handle ::
-    if (doubleColonCount === 1) {
-      const parts = address.split('::');
-      const before = parts[0] ? parts[0].split(':') : [];
-      const after = parts[1] ? parts[1].split(':') : [];
-      
-      if (before.length + after.length > 7) return false;
-    } else {
-      // Without ::, we should have exactly 8 segments
-      if (segments.length !== 8) return false;
+export const IPV6_BITS = 128;
+export const IPV6_MAX = (1n << 128n) - 1n;
+
+// Addresses are held as unsigned 128-bit bigints; every helper below takes
+// and returns values in the range 0..IPV6_MAX.
+export function parseIPv6(address: string): bigint | null {
+  const result = parseIPv6Strict(address);
+  return result.ok ? result.value : null;
+}
+
+function toGroups(value: bigint): string[] {
+  const hex = value.toString(16).padStart(32, '0');
+  const groups: string[] = [];
+  for (let i = 0; i < 32; i += 4) {
+    groups.push(hex.substring(i, i + 4));
+  }
+  return groups;
+}
+
+// Formats per RFC 5952: lowercase, no leading zeros, and the longest run of
+// two or more zero groups (the first one on ties) replaced by "::"
+export function formatIPv6(value: bigint, expanded = false): string {
+  const groups = toGroups(value);
+  if (expanded) return groups.join(':');
+
+  const short = groups.map(group => group.replace(/^0{1,3}/, ''));
+
+  let bestStart = -1;
+  let bestLength = 0;
+  for (let i = 0; i < short.length; i++) {
+    if (short[i] !== '0') continue;
+    let end = i;
+    while (end < short.length && short[end] === '0') end++;
+    if (end - i > bestLength) {
+      bestStart = i;
+      bestLength = end - i;
     }
-    
-    // Validate each segment
-    return segments.every(segment => {
-      if (segment === '') return true; // Allow empty segments for ::
-      if (segment.length > 4) return false;
-      return /^[0-9A-Fa-f]{1,4}$/.test(segment);
-    });
-  } catch {
-    return false;
+    i = end;
   }
+
+  if (bestLength < 2) return short.join(':');
+
+  const before = short.slice(0, bestStart).join(':');
+  const after = short.slice(bestStart + bestLength).join(':');
+  return `${before}::${after}`;
+}
+
+export function isValidIPv6Address(address: string): boolean {
+  return parseIPv6(address) !== null;
 }
 
 export function expandIPv6Address(address: string): string {
-  // Handle empty or invalid input
-  if (!address) return '';
-  
-  // Split on :: to handle compressed sections
-  const parts = address.split('::');
-  
-  if (parts.length > 2) return ''; // Invalid if more than one ::
-  
-  let before = parts[0] ? parts[0].split(':') : [];
-  let after = parts[1] ? parts[1].split(':') : [];
-  
-  // Expand each section to 4 digits
-  before = before.map(x => x.padStart(4, '0'));
-  after = after.map(x => x.padStart(4, '0'));
-  
-  // Calculate how many zero sections we need
-  const missing = 8 - (before.length + after.length);
-  const zeros = Array(missing).fill('0000');
-  
-  // Combine all parts
-  const full = [...before, ...zeros, ...after];
-  
-  return full.join(':');
+  const value = parseIPv6(address);
+  return value === null ? '' : formatIPv6(value, true);
 }
 
-export function calculateIPv6Subnet(address: string, prefixLength: number): IPv6SubnetResults | null {
-  try {
-    // Expand the address to its full form
-    const expandedAddress = expandIPv6Address(address);
-    if (!expandedAddress) return null;
-    
-    // Convert to binary
-    let binary = '';
-    expandedAddress.split(':').forEach(hex => {
-      binary += parseInt(hex, 16).toString(2).padStart(16, '0');
-    });
-    
-    // Apply network mask
-    const networkBinary = binary.substring(0, prefixLength) + '0'.repeat(128 - prefixLength);
-    const lastBinary = binary.substring(0, prefixLength) + '1'.repeat(128 - prefixLength);
-    
-    // Convert back to hex
-    const networkAddress = [];
-    const lastAddress = [];
-    for (let i = 0; i < 128; i += 16) {
-      networkAddress.push(parseInt(networkBinary.substr(i, 16), 2).toString(16).padStart(4, '0'));
-      lastAddress.push(parseInt(lastBinary.substr(i, 16), 2).toString(16).padStart(4, '0'));
-    }
-    
-    // Calculate total addresses
-    const totalBits = 128 - prefixLength;
-    const totalAddresses = totalBits === 0 ? '1' : `2^${totalBits}`;
-    
-    return {
-      networkAddress: compressIPv6Address(networkAddress.join(':')),
-      lastAddress: compressIPv6Address(lastAddress.join(':')),
-      totalAddresses
-    };
-  } catch {
-    return null;
-  }
+export function isValidPrefixLength(prefixLength: number): boolean {
+  return Number.isInteger(prefixLength) && prefixLength >= 0 && prefixLength <= IPV6_BITS;
 }
 
-function compressIPv6Address(address: string): string {
-  // Find the longest sequence of zero segments
-  const segments = address.split(':');
-  let longestZeroStart = -1;
-  let longestZeroLength = 0;
-  let currentZeroStart = -1;
-  let currentZeroLength = 0;
-  
-  for (let i = 0; i < segments.length; i++) {
-    if (segments[i] === '0000') {
-      if (currentZeroStart === -1) currentZeroStart = i;
-      currentZeroLength++;
-      
-      if (currentZeroLength > longestZeroLength) {
-        longestZeroStart = currentZeroStart;
-        longestZeroLength = currentZeroLength;
-      }
-    } else {
-      currentZeroStart = -1;
-      currentZeroLength = 0;
-    }
-  }
-  
-  // Compress the longest zero sequence if it's at least 2 segments long
-  if (longestZeroLength >= 2) {
-    const before = segments.slice(0, longestZeroStart).map(s => parseInt(s, 16).toString(16));
-    const after = segments.slice(longestZeroStart + longestZeroLength).map(s => parseInt(s, 16).toString(16));
-    return [...before, '', ...after].join(':');
-  }
-  
-  // Just remove leading zeros from each segment
-  return segments.map(s => parseInt(s, 16).toString(16)).join(':');
-}
\ No newline at end of file
+export function prefixMask(prefixLength: number): bigint {
+  return IPV6_MAX ^ hostMask(prefixLength);
+}
+
+export function hostMask(prefixLength: number): bigint {
+  return (1n << BigInt(IPV6_BITS - prefixLength)) - 1n;
+}
+
+export function networkOf(value: bigint, prefixLength: number): bigint {
+  return value & prefixMask(prefixLength);
+}
+
+export function lastAddressOf(value: bigint, prefixLength: number): bigint {
+  return value | hostMask(prefixLength);
+}
+
+export function compareIPv6(a: bigint, b: bigint): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+// Returns null instead of wrapping when the result leaves the address space
+export function addOffset(value: bigint, offset: bigint): bigint | null {
+  const result = value + offset;
+  return result < 0n || result > IPV6_MAX ? null : result;
+}
+
+export function subtractOffset(value: bigint, offset: bigint): bigint | null {
+  return addOffset(value, -offset);
+}
+
+export function containsIPv6(network: bigint, prefixLength: number, address: bigint): boolean {
+  return networkOf(address, prefixLength) === networkOf(network, prefixLength);
+}
+
+export function countAddresses(prefixLength: number): bigint {
+  return 1n << BigInt(IPV6_BITS - prefixLength);
+}
+
+export function groupDigits(value: bigint | number): string {
+  return value.toString().replace(/\B(?=(\d{3})+(?!\d))/g, ',');
+}
+
+export function formatAddressCount(prefixLength: number): string {
+  const hostBits = IPV6_BITS - prefixLength;
+  const count = groupDigits(countAddresses(prefixLength));
+  return hostBits === 0 ? count : `${count} (2^${hostBits})`;
+}
+
+export function calculateIPv6Subnet(address: string, prefixLength: number): IPv6SubnetResults | null {
+  const value = parseIPv6(address);
+  if (value === null || !isValidPrefixLength(prefixLength)) return null;
+
+  return {
+    networkAddress: formatIPv6(networkOf(value, prefixLength)),
+    lastAddress: formatIPv6(lastAddressOf(value, prefixLength)),
+    prefixLength,
+    addressCount: countAddresses(prefixLength),
+    totalAddresses: formatAddressCount(prefixLength)
+  };
+}
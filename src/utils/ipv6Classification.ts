@@ -0,0 +1,226 @@
+import { containsIPv6, formatIPv6, parseIPv6 } from './ipv6';
+
+export type IPv6AddressType =
+  | 'unspecified'
+  | 'loopback'
+  | 'ipv4-mapped'
+  | 'ipv4-compatible'
+  | 'translation'
+  | 'discard'
+  | 'protocol'
+  | 'teredo'
+  | 'benchmarking'
+  | 'documentation'
+  | 'orchid'
+  | '6to4'
+  | 'srv6'
+  | 'anycast'
+  | 'unique-local'
+  | 'link-local'
+  | 'site-local'
+  | 'multicast'
+  | 'global-unicast'
+  | 'reserved';
+
+export type IPv6Scope =
+  | 'none'
+  | 'interface-local'
+  | 'link-local'
+  | 'realm-local'
+  | 'admin-local'
+  | 'site-local'
+  | 'organization-local'
+  | 'global'
+  | 'reserved'
+  | 'unassigned';
+
+export interface IPv6RegistryEntry {
+  block: string;
+  name: string;
+  rfc: string;
+  type: IPv6AddressType;
+  source: boolean;
+  destination: boolean;
+  forwardable: boolean;
+  globallyReachable: boolean;
+  reservedByProtocol: boolean;
+}
+
+export interface IPv6MulticastInfo {
+  flags: number;
+  rendezvousPoint: boolean;
+  prefixBased: boolean;
+  transient: boolean;
+  scopeValue: number;
+  scope: IPv6Scope;
+  groupId: string;
+}
+
+export interface IPv6UnicastLayout {
+  routingPrefix: string;
+  routingPrefixLength: number;
+  subnetId: string;
+  subnetIdBits: number;
+  interfaceId: string;
+}
+
+export interface IPv6Classification {
+  type: IPv6AddressType;
+  name: string;
+  rfc: string;
+  scope: IPv6Scope;
+  categories: IPv6RegistryEntry[];
+  forwardable: boolean;
+  globallyReachable: boolean;
+  reservedByProtocol: boolean;
+  multicast: IPv6MulticastInfo | null;
+  unicastLayout: IPv6UnicastLayout | null;
+}
+
+type Flags = [source: boolean, destination: boolean, forwardable: boolean, globallyReachable: boolean, reservedByProtocol: boolean];
+
+function entry(block: string, name: string, rfc: string, type: IPv6AddressType, flags: Flags): IPv6RegistryEntry {
+  const [source, destination, forwardable, globallyReachable, reservedByProtocol] = flags;
+  return { block, name, rfc, type, source, destination, forwardable, globallyReachable, reservedByProtocol };
+}
+
+// IANA IPv6 Special-Purpose Address Registry together with the top-level
+// blocks of the IPv6 Address Space registry. Flags follow the registry
+// columns; "N/A" entries are recorded as false.
+export const IPV6_ADDRESS_REGISTRY: IPv6RegistryEntry[] = [
+  entry('::/128', 'Unspecified Address', 'RFC 4291', 'unspecified', [true, false, false, false, true]),
+  entry('::1/128', 'Loopback Address', 'RFC 4291', 'loopback', [false, false, false, false, true]),
+  entry('::/96', 'IPv4-Compatible (Deprecated)', 'RFC 4291', 'ipv4-compatible', [false, false, false, false, true]),
+  entry('::ffff:0:0/96', 'IPv4-Mapped Address', 'RFC 4291', 'ipv4-mapped', [false, false, false, false, true]),
+  entry('64:ff9b::/96', 'IPv4-IPv6 Translation', 'RFC 6052', 'translation', [true, true, true, true, false]),
+  entry('64:ff9b:1::/48', 'IPv4-IPv6 Local-Use Translation', 'RFC 8215', 'translation', [true, true, true, false, false]),
+  entry('100::/64', 'Discard-Only Address Block', 'RFC 6666', 'discard', [true, true, true, false, false]),
+  entry('2000::/3', 'Global Unicast', 'RFC 4291', 'global-unicast', [true, true, true, true, false]),
+  entry('2001::/23', 'IETF Protocol Assignments', 'RFC 2928', 'protocol', [false, false, false, false, false]),
+  entry('2001::/32', 'Teredo', 'RFC 4380', 'teredo', [true, true, true, false, false]),
+  entry('2001:1::1/128', 'Port Control Protocol Anycast', 'RFC 7723', 'anycast', [true, true, true, true, false]),
+  entry('2001:1::2/128', 'Traversal Using Relays around NAT Anycast', 'RFC 8155', 'anycast', [true, true, true, true, false]),
+  entry('2001:1::3/128', 'DNS-SD Service Registration Protocol Anycast', 'RFC 9665', 'anycast', [true, true, true, true, false]),
+  entry('2001:2::/48', 'Benchmarking', 'RFC 5180', 'benchmarking', [true, true, true, false, false]),
+  entry('2001:3::/32', 'AMT', 'RFC 7450', 'anycast', [true, true, true, true, false]),
+  entry('2001:4:112::/48', 'AS112-v6', 'RFC 7535', 'anycast', [true, true, true, true, false]),
+  entry('2001:10::/28', 'ORCHID (Deprecated)', 'RFC 4843', 'orchid', [false, false, false, false, false]),
+  entry('2001:20::/28', 'ORCHIDv2', 'RFC 7343', 'orchid', [true, true, true, true, false]),
+  entry('2001:30::/28', 'Drone Remote ID Protocol Entity Tags', 'RFC 9374', 'protocol', [true, true, true, true, false]),
+  entry('2001:db8::/32', 'Documentation', 'RFC 3849', 'documentation', [false, false, false, false, false]),
+  entry('2002::/16', '6to4', 'RFC 3056', '6to4', [true, true, true, false, false]),
+  entry('2620:4f:8000::/48', 'Direct Delegation AS112 Service', 'RFC 7534', 'anycast', [true, true, true, true, false]),
+  entry('3fff::/20', 'Documentation', 'RFC 9637', 'documentation', [false, false, false, false, false]),
+  entry('5f00::/16', 'Segment Routing (SRv6) SIDs', 'RFC 9602', 'srv6', [true, true, true, false, false]),
+  entry('fc00::/7', 'Unique Local', 'RFC 4193', 'unique-local', [true, true, true, false, false]),
+  entry('fe80::/10', 'Link-Local Unicast', 'RFC 4291', 'link-local', [true, true, false, false, true]),
+  entry('fec0::/10', 'Site-Local Unicast (Deprecated)', 'RFC 3879', 'site-local', [false, false, false, false, false]),
+  entry('ff00::/8', 'Multicast', 'RFC 4291', 'multicast', [false, true, true, false, false])
+];
+
+const MULTICAST_SCOPES: Record<number, IPv6Scope> = {
+  0x0: 'reserved',
+  0x1: 'interface-local',
+  0x2: 'link-local',
+  0x3: 'realm-local',
+  0x4: 'admin-local',
+  0x5: 'site-local',
+  0x8: 'organization-local',
+  0xe: 'global',
+  0xf: 'reserved'
+};
+
+function parseBlock(block: string): [bigint, number] {
+  const [address, bits] = block.split('/');
+  return [parseIPv6(address) ?? 0n, parseInt(bits, 10)];
+}
+
+function unicastScope(type: IPv6AddressType): IPv6Scope {
+  switch (type) {
+    case 'unspecified': return 'none';
+    case 'loopback': return 'interface-local';
+    case 'link-local': return 'link-local';
+    case 'site-local': return 'site-local';
+    default: return 'global';
+  }
+}
+
+function decodeMulticast(value: bigint): IPv6MulticastInfo {
+  const flags = Number((value >> 116n) & 0xfn);
+  const scopeValue = Number((value >> 112n) & 0xfn);
+  const groupId = (value & ((1n << 112n) - 1n)).toString(16);
+
+  return {
+    flags,
+    rendezvousPoint: (flags & 0x4) !== 0,
+    prefixBased: (flags & 0x2) !== 0,
+    transient: (flags & 0x1) !== 0,
+    scopeValue,
+    scope: MULTICAST_SCOPES[scopeValue] ?? 'unassigned',
+    groupId
+  };
+}
+
+// Splits a unicast address in the RFC 3587 layout: the routing prefix is the
+// delegated prefix (capped at /64), the subnet ID fills the bits up to /64
+// and the low 64 bits are the interface ID
+function splitUnicast(value: bigint, prefixLength: number): IPv6UnicastLayout {
+  const routingPrefixLength = Math.min(prefixLength, 64);
+  const subnetIdBits = 64 - routingPrefixLength;
+  const hostBits = BigInt(128 - routingPrefixLength);
+
+  const routingPrefix = (value >> hostBits) << hostBits;
+  const subnetId = (value >> 64n) & ((1n << BigInt(subnetIdBits)) - 1n);
+  const interfaceId = (value & ((1n << 64n) - 1n)).toString(16).padStart(16, '0');
+
+  return {
+    routingPrefix: formatIPv6(routingPrefix),
+    routingPrefixLength,
+    subnetId: subnetIdBits > 0 ? subnetId.toString(16).padStart(Math.ceil(subnetIdBits / 4), '0') : '',
+    subnetIdBits,
+    interfaceId: interfaceId.match(/.{4}/g)!.join(':')
+  };
+}
+
+export function classifyIPv6(address: string, prefixLength = 64): IPv6Classification | null {
+  const value = parseIPv6(address);
+  if (value === null) return null;
+
+  const categories = IPV6_ADDRESS_REGISTRY
+    .map(candidate => ({ candidate, bits: parseBlock(candidate.block) }))
+    .filter(({ bits: [network, length] }) => containsIPv6(network, length, value))
+    .sort((a, b) => b.bits[1] - a.bits[1])
+    .map(({ candidate }) => candidate);
+
+  const governing = categories[0];
+  if (!governing) {
+    return {
+      type: 'reserved',
+      name: 'Reserved by IETF',
+      rfc: 'RFC 4291',
+      scope: 'reserved',
+      categories,
+      forwardable: false,
+      globallyReachable: false,
+      reservedByProtocol: false,
+      multicast: null,
+      unicastLayout: null
+    };
+  }
+
+  const multicast = governing.type === 'multicast' ? decodeMulticast(value) : null;
+  const isUnicastFormat = categories.some(c => c.type === 'global-unicast' || c.type === 'unique-local');
+
+  return {
+    type: governing.type,
+    name: governing.name,
+    rfc: governing.rfc,
+    scope: multicast ? multicast.scope : unicastScope(governing.type),
+    categories,
+    forwardable: multicast ? multicast.scopeValue > 0x2 : governing.forwardable,
+    globallyReachable: multicast ? multicast.scope === 'global' : governing.globallyReachable,
+    reservedByProtocol: governing.reservedByProtocol,
+    multicast,
+    unicastLayout: isUnicastFormat ? splitUnicast(value, prefixLength) : null
+  };
+}
@@ -0,0 +1,74 @@
+import {
+  calculateIPv6Subnet,
+  containsIPv6,
+  countAddresses,
+  formatIPv6,
+  parseIPv6
+} from './ipv6';
+
+export interface IPv6ChildPrefix {
+  index: bigint;
+  networkAddress: string;
+  lastAddress: string;
+  prefixLength: number;
+}
+
+// Counts are kept as bigint: a /32 holds 2^32 /64s, far past what an array
+// (or a double) can represent exactly
+export function getChildPrefixCount(parentPrefix: number, targetPrefix: number): bigint {
+  if (targetPrefix < parentPrefix || targetPrefix > 128) return 0n;
+  return 1n << BigInt(targetPrefix - parentPrefix);
+}
+
+export function getChildPrefix(
+  networkAddress: string,
+  parentPrefix: number,
+  targetPrefix: number,
+  index: bigint
+): IPv6ChildPrefix | null {
+  const network = parseIPv6(networkAddress);
+  const count = getChildPrefixCount(parentPrefix, targetPrefix);
+  if (network === null || index < 0n || index >= count) return null;
+
+  const start = network + index * countAddresses(targetPrefix);
+  const subnet = calculateIPv6Subnet(formatIPv6(start), targetPrefix);
+  if (!subnet) return null;
+
+  return {
+    index,
+    networkAddress: subnet.networkAddress,
+    lastAddress: subnet.lastAddress,
+    prefixLength: targetPrefix
+  };
+}
+
+export function getChildPrefixes(
+  networkAddress: string,
+  parentPrefix: number,
+  targetPrefix: number,
+  offset: bigint,
+  limit: number
+): IPv6ChildPrefix[] {
+  const count = getChildPrefixCount(parentPrefix, targetPrefix);
+  const prefixes: IPv6ChildPrefix[] = [];
+
+  for (let index = offset < 0n ? 0n : offset; index < count && prefixes.length < limit; index++) {
+    const prefix = getChildPrefix(networkAddress, parentPrefix, targetPrefix, index);
+    if (prefix) prefixes.push(prefix);
+  }
+
+  return prefixes;
+}
+
+export function findChildPrefixIndex(
+  networkAddress: string,
+  parentPrefix: number,
+  targetPrefix: number,
+  address: string
+): bigint | null {
+  const network = parseIPv6(networkAddress);
+  const value = parseIPv6(address);
+  if (network === null || value === null || !containsIPv6(network, parentPrefix, value)) return null;
+
+  return (value - network) / countAddresses(targetPrefix);
+}
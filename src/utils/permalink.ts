@@ -0,0 +1,141 @@
+export const MODES = ['ipv4', 'ipv6', 'vlsm', 'summarize', 'conflicts', 'range', 'bulk', 'plan', 'transition', 'wildcard', 'compare'] as const;
+
+export type Mode = typeof MODES[number];
+
+export type CalculatorView = 'hosts' | 'split' | 'prefixes' | 'config' | 'bits' | 'dns' | 'eui64';
+
+const VIEWS: CalculatorView[] = ['hosts', 'split', 'prefixes', 'config', 'bits', 'dns', 'eui64'];
+
+// Inputs are kept as typed so a link reproduces the fields exactly, even
+// when they are not (yet) valid
+export interface CalculatorState {
+  address: string;
+  mask: string;
+  views: CalculatorView[];
+  splitPrefix: number | null;
+  // IPv4 address policy id and, for the custom policy, its reservation list
+  policy?: string;
+  reservations?: string;
+}
+
+// Query parameters holding the inputs of each of the other tools. Like the
+// calculator fields they are kept as typed; each tool checks its own values.
+const TOOL_FIELDS = {
+  vlsm: ['network', 'hosts'],
+  summarize: ['prefixes'],
+  conflicts: ['networks'],
+  range: ['start', 'end', 'prefixes'],
+  bulk: ['input', 'policy', 'view', 'filter', 'status', 'family', 'sort', 'order'],
+  // The whole plan, in its JSON file format, and the selected allocation
+  plan: ['plan', 'select'],
+  transition: ['ipv4', 'ipv6', 'nat64', 'prefix'],
+  wildcard: ['address', 'wildcard', 'test', 'cover', 'action', 'style', 'name'],
+  compare: ['a', 'b']
+} as const;
+
+export type ToolMode = keyof typeof TOOL_FIELDS;
+
+export type ToolState<M extends ToolMode> = Partial<Record<typeof TOOL_FIELDS[M][number], string>>;
+
+export type ToolStates = { [M in ToolMode]: ToolState<M> };
+
+export interface PermalinkState {
+  mode: Mode;
+  ipv4: CalculatorState;
+  ipv6: CalculatorState;
+  tools: ToolStates;
+}
+
+export const EMPTY_CALCULATOR: CalculatorState = { address: '', mask: '', views: [], splitPrefix: null };
+
+export const EMPTY_TOOLS: ToolStates = {
+  vlsm: {},
+  summarize: {},
+  conflicts: {},
+  range: {},
+  bulk: {},
+  plan: {},
+  transition: {},
+  wildcard: {},
+  compare: {}
+};
+
+function isMode(value: string | null): value is Mode {
+  return MODES.some(mode => mode === value);
+}
+
+function parseCalculator(params: URLSearchParams): CalculatorState {
+  const split = params.get('split') ?? '';
+  return {
+    address: params.get('address') ?? '',
+    mask: params.get('mask') ?? '',
+    views: (params.get('view') ?? '')
+      .split(',')
+      .filter((view): view is CalculatorView => VIEWS.some(known => known === view)),
+    splitPrefix: /^\d{1,3}$/.test(split) ? parseInt(split, 10) : null,
+    policy: params.get('policy') ?? undefined,
+    reservations: params.get('reserve') ?? undefined
+  };
+}
+
+function isToolMode(mode: Mode): mode is ToolMode {
+  return mode in TOOL_FIELDS;
+}
+
+function parseTool(mode: ToolMode, params: URLSearchParams): ToolStates {
+  const state: Record<string, string> = {};
+  for (const field of TOOL_FIELDS[mode]) {
+    const value = params.get(field);
+    if (value !== null) state[field] = value;
+  }
+  return { ...EMPTY_TOOLS, [mode]: state };
+}
+
+// Only the active mode is encoded; the others start empty when the link is
+// opened
+export function parsePermalink(search: string): PermalinkState {
+  const params = new URLSearchParams(search);
+  const modeParam = params.get('mode');
+  const mode = isMode(modeParam) ? modeParam : 'ipv4';
+
+  return {
+    mode,
+    ipv4: mode === 'ipv4' ? parseCalculator(params) : EMPTY_CALCULATOR,
+    ipv6: mode === 'ipv6' ? parseCalculator(params) : EMPTY_CALCULATOR,
+    tools: isToolMode(mode) ? parseTool(mode, params) : EMPTY_TOOLS
+  };
+}
+
+export function buildPermalinkSearch(state: PermalinkState): string {
+  const params = new URLSearchParams();
+  params.set('mode', state.mode);
+
+  const calculator = state.mode === 'ipv4' ? state.ipv4 : state.mode === 'ipv6' ? state.ipv6 : null;
+  if (calculator) {
+    if (calculator.address) params.set('address', calculator.address);
+    if (calculator.mask) params.set('mask', calculator.mask);
+    if (calculator.views.length > 0) params.set('view', calculator.views.join(','));
+    if (calculator.splitPrefix !== null && calculator.views.includes(state.mode === 'ipv4' ? 'split' : 'prefixes')) {
+      params.set('split', calculator.splitPrefix.toString());
+    }
+    if (calculator.policy && calculator.policy !== 'classic') params.set('policy', calculator.policy);
+    if (calculator.policy === 'custom' && calculator.reservations) params.set('reserve', calculator.reservations);
+  }
+
+  if (isToolMode(state.mode)) {
+    const tool: Record<string, string | undefined> = state.tools[state.mode];
+    for (const field of TOOL_FIELDS[state.mode]) {
+      const value = tool[field];
+      if (value) params.set(field, value);
+    }
+  }
+
+  // ':', '/' and ',' are legal in a query string; leaving them unescaped keeps
+  // addresses readable when the link is pasted into a ticket
+  const query = params.toString().replace(/%3A/gi, ':').replace(/%2F/gi, '/').replace(/%2C/gi, ',');
+  return `?${query}`;
+}
+
+export function buildPermalinkURL(state: PermalinkState, location: { origin: string; pathname: string }): string {
+  return `${location.origin}${location.pathname}${buildPermalinkSearch(state)}`;
+}
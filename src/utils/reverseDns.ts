@@ -0,0 +1,233 @@
+import { addressBits, blockEnd, blockSize, formatAddress, makeBlock, parseAddress } from './cidr';
+import type { CIDRBlock, IPVersion } from './cidr';
+import { formatIPv6 } from './ipv6';
+
+// RFC 2317 does not fix a naming scheme for classless child zones; these are
+// the two in common use ("64-127" and "64/26")
+export type ClasslessStyle = 'range' | 'prefix';
+
+export interface ReverseZone {
+  name: string;
+  // The addresses the zone is authoritative for
+  block: CIDRBlock;
+  // Set for an RFC 2317 child zone: the octet-aligned zone it is delegated from
+  parent?: string;
+}
+
+export interface ClasslessDelegation {
+  parent: string;
+  child: string;
+  // Records to add to the parent zone, relative to it
+  records: string[];
+}
+
+export interface ZoneFileOptions {
+  zone: ReverseZone;
+  network: CIDRBlock;
+  nameservers: string[];
+  hostmaster: string;
+  ttl: number;
+  serial: string;
+  // Hostname pattern for PTR records, e.g. "host-{{ip}}.example.com"; no
+  // records are written when it is empty
+  hostnameTemplate: string;
+  hosts: string[];
+}
+
+const ARPA_SUFFIX: Record<IPVersion, string> = { 4: 'in-addr.arpa', 6: 'ip6.arpa' };
+
+// Reverse labels are octets for IPv4 and nibbles for IPv6
+const LABEL_BITS: Record<IPVersion, number> = { 4: 8, 6: 4 };
+
+const HOSTNAME_PATTERN = /^(?=.{1,253}\.?$)([a-z0-9_]([a-z0-9_-]{0,61}[a-z0-9_])?\.)*[a-z0-9_]([a-z0-9_-]{0,61}[a-z0-9_])?\.?$/i;
+
+function reverseLabels(version: IPVersion, value: bigint): string[] {
+  if (version === 4) {
+    return formatAddress(4, value).split('.').reverse();
+  }
+  return formatIPv6(value, true).replace(/:/g, '').split('').reverse();
+}
+
+export function ptrName(version: IPVersion, value: bigint): string {
+  return [...reverseLabels(version, value), ARPA_SUFFIX[version]].join('.');
+}
+
+// Name of the zone for a block whose prefix falls on a label boundary
+function alignedZoneName(block: CIDRBlock): string {
+  const labels = reverseLabels(block.version, block.start);
+  const kept = block.prefixLength / LABEL_BITS[block.version];
+  return [...labels.slice(labels.length - kept), ARPA_SUFFIX[block.version]].join('.');
+}
+
+function classlessLabel(block: CIDRBlock, style: ClasslessStyle): string {
+  const first = Number(block.start & 0xffn);
+  if (style === 'prefix') return `${first}/${block.prefixLength}`;
+  return `${first}-${first + Number(blockSize(block)) - 1}`;
+}
+
+function isClassless(block: CIDRBlock): boolean {
+  return block.version === 4 && block.prefixLength > 24 && block.prefixLength < 32;
+}
+
+// The zones that cover `block`. A prefix between label boundaries is covered
+// by every zone one boundary further down (a /22 needs four /24 zones), except
+// for IPv4 prefixes longer than /24, which get an RFC 2317 child zone inside
+// their /24. A /32 simply lives in its /24 zone.
+export function reverseZones(block: CIDRBlock, style: ClasslessStyle = 'range'): ReverseZone[] {
+  const labelBits = LABEL_BITS[block.version];
+
+  if (block.version === 4 && block.prefixLength > 24) {
+    const parentBlock = makeBlock(4, block.start, 24);
+    const parent = alignedZoneName(parentBlock);
+    if (!isClassless(block)) return [{ name: parent, block: parentBlock }];
+    return [{ name: `${classlessLabel(block, style)}.${parent}`, block, parent }];
+  }
+
+  const alignedLength = Math.ceil(block.prefixLength / labelBits) * labelBits;
+  const zoneSize = 1n << BigInt(addressBits(block.version) - alignedLength);
+  const count = 1n << BigInt(alignedLength - block.prefixLength);
+  const zones: ReverseZone[] = [];
+  for (let i = 0n; i < count; i++) {
+    const zoneBlock = { version: block.version, start: block.start + i * zoneSize, prefixLength: alignedLength };
+    zones.push({ name: alignedZoneName(zoneBlock), block: zoneBlock });
+  }
+  return zones;
+}
+
+// RFC 2317 section 4: the parent zone delegates the child zone and points
+// every address in the block at it with a CNAME
+export function classlessDelegation(
+  block: CIDRBlock,
+  nameservers: string[],
+  style: ClasslessStyle = 'range'
+): ClasslessDelegation | null {
+  if (!isClassless(block)) return null;
+
+  const [zone] = reverseZones(block, style);
+  const label = classlessLabel(block, style);
+  const records = nameservers.map(nameserver => `${label.padEnd(10)} IN NS    ${absoluteName(nameserver)}`);
+  for (let value = block.start; value <= blockEnd(block); value++) {
+    const octet = (value & 0xffn).toString();
+    records.push(`${octet.padEnd(10)} IN CNAME ${octet}.${label}`);
+  }
+  return { parent: zone.parent ?? zone.name, child: zone.name, records };
+}
+
+function absoluteName(name: string): string {
+  return name.endsWith('.') ? name : `${name}.`;
+}
+
+export function parseNameservers(text: string): string[] {
+  return text.split(/[\s,]+/).filter(Boolean);
+}
+
+// SOA RNAME form of an email address: the "@" becomes a dot, and dots in the
+// local part are escaped so they are not read as label separators
+export function hostmasterName(email: string): string {
+  const at = email.lastIndexOf('@');
+  if (at === -1) return absoluteName(email);
+  const local = email.slice(0, at).replace(/\./g, '\\.');
+  return absoluteName(`${local}.${email.slice(at + 1)}`);
+}
+
+// Date-based serial in the usual YYYYMMDDnn form
+export function dateSerial(date: Date): string {
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}01`;
+}
+
+// Placeholders: {{ip}} is the address with separators turned into dashes,
+// {{a}}-{{d}} are the IPv4 octets and {{index}} is the offset in the network.
+// Unknown placeholders are left as-is, as in config templates.
+export function renderHostname(template: string, version: IPVersion, value: bigint, network: CIDRBlock): string {
+  const address = formatAddress(version, value);
+  const octets = version === 4 ? address.split('.') : [];
+  const values: Record<string, string> = {
+    ip: address.replace(/[.:]/g, '-').replace(/^-+|-+$/g, ''),
+    a: octets[0] ?? '',
+    b: octets[1] ?? '',
+    c: octets[2] ?? '',
+    d: octets[3] ?? '',
+    index: (value - network.start).toString()
+  };
+  return template.replace(/\{\{(\w+)\}\}/g, (placeholder, name: string) =>
+    Object.prototype.hasOwnProperty.call(values, name) ? values[name] : placeholder
+  );
+}
+
+export function validateZoneOptions(options: ZoneFileOptions): string[] {
+  const errors: string[] = [];
+  if (options.nameservers.length === 0) {
+    errors.push('At least one name server is required');
+  }
+  options.nameservers
+    .filter(nameserver => !HOSTNAME_PATTERN.test(nameserver))
+    .forEach(nameserver => errors.push(`Name server ${nameserver} is not a valid hostname`));
+  if (!/^[^@\s]+@[^@\s]+$/.test(options.hostmaster.trim())) {
+    errors.push('Hostmaster must be an email address');
+  }
+  if (!Number.isInteger(options.ttl) || options.ttl < 0 || options.ttl > 2147483647) {
+    errors.push('TTL must be a whole number of seconds');
+  }
+
+  const template = options.hostnameTemplate.trim();
+  if (template) {
+    const sample = renderHostname(template, options.network.version, options.network.start, options.network);
+    if (!HOSTNAME_PATTERN.test(sample)) {
+      errors.push(`Hostname template produces an invalid name (${sample})`);
+    }
+  }
+  return errors;
+}
+
+// Owner names are written relative to the octet- or nibble-aligned zone; an
+// RFC 2317 child zone keeps the last octet as the owner, matching the CNAMEs
+// in its parent
+function ownerName(zone: ReverseZone, version: IPVersion, value: bigint): string {
+  const name = ptrName(version, value);
+  const origin = zone.parent ?? zone.name;
+  if (name === origin) return '@';
+  return name.slice(0, name.length - origin.length - 1);
+}
+
+export function renderZoneFile(options: ZoneFileOptions): string {
+  const { zone, network, nameservers, ttl, serial } = options;
+  const primary = absoluteName(nameservers[0] ?? 'ns1.example.com');
+  const lines = [
+    `; Reverse zone for ${formatAddress(network.version, network.start)}/${network.prefixLength}` +
+      (zone.parent ? ` (RFC 2317 delegation from ${zone.parent})` : ''),
+    `$ORIGIN ${absoluteName(zone.name)}`,
+    `$TTL ${ttl}`,
+    `@          IN SOA   ${primary} ${hostmasterName(options.hostmaster.trim())} (`,
+    `                    ${serial} ; serial`,
+    '                    3600       ; refresh',
+    '                    900        ; retry',
+    '                    1209600    ; expire',
+    `                    ${ttl.toString().padEnd(10)} ) ; negative caching TTL`,
+    ...nameservers.map(nameserver => `@          IN NS    ${absoluteName(nameserver)}`)
+  ];
+
+  const template = options.hostnameTemplate.trim();
+  if (!template) return lines.join('\n');
+
+  const records = options.hosts
+    .map(host => parseAddress(host))
+    .filter((address): address is NonNullable<typeof address> =>
+      address !== null &&
+      address.version === zone.block.version &&
+      address.value >= zone.block.start &&
+      address.value <= blockEnd(zone.block)
+    )
+    .map(address => {
+      const owner = ownerName(zone, address.version, address.value);
+      const hostname = absoluteName(renderHostname(template, address.version, address.value, network));
+      return `${owner.padEnd(10)} IN PTR   ${hostname}`;
+    });
+
+  if (records.length === 0) {
+    lines.push('; No host addresses to list; add PTR records here');
+  } else {
+    lines.push('', ...records);
+  }
+  return lines.join('\n');
+}
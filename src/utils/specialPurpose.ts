@@ -0,0 +1,142 @@
+import { ipToNumber, isValidIPAddress, isValidSubnetMask, convertMaskToCIDR } from './subnet';
+
+export type AddressCategory =
+  | 'this-network'
+  | 'private'
+  | 'shared'
+  | 'loopback'
+  | 'link-local'
+  | 'protocol'
+  | 'documentation'
+  | 'anycast'
+  | 'benchmarking'
+  | 'multicast'
+  | 'reserved'
+  | 'broadcast'
+  | 'deprecated';
+
+export interface SpecialPurposeEntry {
+  block: string;
+  name: string;
+  rfc: string;
+  category: AddressCategory;
+  source: boolean;
+  destination: boolean;
+  forwardable: boolean;
+  globallyReachable: boolean;
+  reservedByProtocol: boolean;
+}
+
+export interface AddressClassification {
+  categories: SpecialPurposeEntry[];
+  // Entries lying entirely inside the classified range
+  contained: SpecialPurposeEntry[];
+  // Entries sharing only some addresses with it, each having addresses outside
+  straddled: SpecialPurposeEntry[];
+  routable: boolean;
+  forwardable: boolean;
+  globallyReachable: boolean;
+  reservedByProtocol: boolean;
+}
+
+type Flags = [source: boolean, destination: boolean, forwardable: boolean, globallyReachable: boolean, reservedByProtocol: boolean];
+
+function entry(block: string, name: string, rfc: string, category: AddressCategory, flags: Flags): SpecialPurposeEntry {
+  const [source, destination, forwardable, globallyReachable, reservedByProtocol] = flags;
+  return { block, name, rfc, category, source, destination, forwardable, globallyReachable, reservedByProtocol };
+}
+
+// IANA IPv4 Special-Purpose Address Registry, plus the multicast block from
+// the IPv4 Multicast Address Space registry. Flags follow the registry columns.
+export const IPV4_SPECIAL_PURPOSE_REGISTRY: SpecialPurposeEntry[] = [
+  entry('0.0.0.0/8', '"This network"', 'RFC 791', 'this-network', [true, false, false, false, true]),
+  entry('0.0.0.0/32', '"This host on this network"', 'RFC 1122', 'this-network', [true, false, false, false, true]),
+  entry('10.0.0.0/8', 'Private-Use', 'RFC 1918', 'private', [true, true, true, false, false]),
+  entry('100.64.0.0/10', 'Shared Address Space (CGNAT)', 'RFC 6598', 'shared', [true, true, true, false, false]),
+  entry('127.0.0.0/8', 'Loopback', 'RFC 1122', 'loopback', [false, false, false, false, true]),
+  entry('169.254.0.0/16', 'Link Local', 'RFC 3927', 'link-local', [true, true, false, false, true]),
+  entry('172.16.0.0/12', 'Private-Use', 'RFC 1918', 'private', [true, true, true, false, false]),
+  entry('192.0.0.0/24', 'IETF Protocol Assignments', 'RFC 6890', 'protocol', [false, false, false, false, false]),
+  entry('192.0.0.0/29', 'IPv4 Service Continuity Prefix', 'RFC 7335', 'protocol', [true, true, true, false, false]),
+  entry('192.0.0.8/32', 'IPv4 Dummy Address', 'RFC 7600', 'protocol', [true, false, false, false, false]),
+  entry('192.0.0.9/32', 'Port Control Protocol Anycast', 'RFC 7723', 'anycast', [true, true, true, true, false]),
+  entry('192.0.0.10/32', 'Traversal Using Relays around NAT Anycast', 'RFC 8155', 'anycast', [true, true, true, true, false]),
+  entry('192.0.0.170/32', 'NAT64/DNS64 Discovery', 'RFC 8880', 'protocol', [false, false, false, false, true]),
+  entry('192.0.0.171/32', 'NAT64/DNS64 Discovery', 'RFC 8880', 'protocol', [false, false, false, false, true]),
+  entry('192.0.2.0/24', 'Documentation (TEST-NET-1)', 'RFC 5737', 'documentation', [false, false, false, false, false]),
+  entry('192.31.196.0/24', 'AS112-v4', 'RFC 7535', 'anycast', [true, true, true, true, false]),
+  entry('192.52.193.0/24', 'AMT', 'RFC 7450', 'anycast', [true, true, true, true, false]),
+  entry('192.88.99.0/24', 'Deprecated (6to4 Relay Anycast)', 'RFC 7526', 'deprecated', [false, false, false, false, false]),
+  entry('192.168.0.0/16', 'Private-Use', 'RFC 1918', 'private', [true, true, true, false, false]),
+  entry('192.175.48.0/24', 'Direct Delegation AS112 Service', 'RFC 7534', 'anycast', [true, true, true, true, false]),
+  entry('198.18.0.0/15', 'Benchmarking', 'RFC 2544', 'benchmarking', [true, true, true, false, false]),
+  entry('198.51.100.0/24', 'Documentation (TEST-NET-2)', 'RFC 5737', 'documentation', [false, false, false, false, false]),
+  entry('203.0.113.0/24', 'Documentation (TEST-NET-3)', 'RFC 5737', 'documentation', [false, false, false, false, false]),
+  entry('224.0.0.0/4', 'Multicast', 'RFC 5771', 'multicast', [false, true, true, true, false]),
+  entry('240.0.0.0/4', 'Reserved', 'RFC 1112', 'reserved', [false, false, false, false, true]),
+  entry('255.255.255.255/32', 'Limited Broadcast', 'RFC 919', 'broadcast', [false, true, false, false, true])
+];
+
+function entryRange(entry: SpecialPurposeEntry): [number, number] {
+  const [address, bits] = entry.block.split('/');
+  const start = ipToNumber(address);
+  return [start, start + Math.pow(2, 32 - parseInt(bits, 10)) - 1];
+}
+
+function prefixOf(entry: SpecialPurposeEntry): number {
+  return parseInt(entry.block.split('/')[1], 10);
+}
+
+// Classifies the range covered by `ip` under `mask` (a single address when
+// no mask is given). Entries covering the whole range become categories;
+// entries inside it are reported as contained, and any other overlap as
+// straddled.
+export function classifyIPv4(ip: string, mask = '/32'): AddressClassification | null {
+  if (!isValidIPAddress(ip) || !isValidSubnetMask(mask)) return null;
+
+  const size = Math.pow(2, 32 - convertMaskToCIDR(mask));
+  const start = ipToNumber(ip) - (ipToNumber(ip) % size);
+  const end = start + size - 1;
+
+  const categories: SpecialPurposeEntry[] = [];
+  const contained: SpecialPurposeEntry[] = [];
+  const straddled: SpecialPurposeEntry[] = [];
+
+  for (const candidate of IPV4_SPECIAL_PURPOSE_REGISTRY) {
+    const [entryStart, entryEnd] = entryRange(candidate);
+    if (entryStart <= start && end <= entryEnd) {
+      categories.push(candidate);
+    } else if (start <= entryStart && entryEnd <= end) {
+      contained.push(candidate);
+    } else if (entryStart <= end && start <= entryEnd) {
+      straddled.push(candidate);
+    }
+  }
+
+  // Most specific entry decides the flags, as more specific registry entries
+  // override the blocks that contain them
+  categories.sort((a, b) => prefixOf(b) - prefixOf(a));
+  const governing = categories[0];
+
+  if (!governing) {
+    return {
+      categories,
+      contained,
+      straddled,
+      routable: true,
+      forwardable: true,
+      globallyReachable: true,
+      reservedByProtocol: false
+    };
+  }
+
+  return {
+    categories,
+    contained,
+    straddled,
+    routable: governing.destination && governing.forwardable,
+    forwardable: governing.forwardable,
+    globallyReachable: governing.globallyReachable,
+    reservedByProtocol: governing.reservedByProtocol
+  };
+}
@@ -0,0 +1,81 @@
+import { calculateSubnet, ipToNumber, isValidIPAddress, numberToIP } from './subnet';
+
+export interface SplitSubnet {
+  index: number;
+  networkAddress: string;
+  broadcastAddress: string;
+  firstHostIP: string;
+  lastHostIP: string;
+  totalHosts: number;
+}
+
+export function getSplitCount(parentBits: number, targetBits: number): number {
+  if (targetBits < parentBits || targetBits > 32) return 0;
+  return Math.pow(2, targetBits - parentBits);
+}
+
+// Smallest prefix that yields at least `count` equal subnets, or null if the
+// parent cannot be divided that many times
+export function prefixForSubnetCount(parentBits: number, count: number): number | null {
+  if (!Number.isInteger(count) || count < 1) return null;
+
+  const targetBits = parentBits + Math.ceil(Math.log2(count));
+  return targetBits <= 32 ? targetBits : null;
+}
+
+export function getSplitSubnet(
+  networkAddress: string,
+  parentBits: number,
+  targetBits: number,
+  index: number
+): SplitSubnet | null {
+  const count = getSplitCount(parentBits, targetBits);
+  if (!Number.isInteger(index) || index < 0 || index >= count) return null;
+
+  const start = ipToNumber(networkAddress) + index * Math.pow(2, 32 - targetBits);
+  const subnet = calculateSubnet(numberToIP(start), `/${targetBits}`);
+  if (!subnet) return null;
+
+  return {
+    index,
+    networkAddress: subnet.networkAddress,
+    broadcastAddress: subnet.broadcastAddress,
+    firstHostIP: subnet.firstHostIP,
+    lastHostIP: subnet.lastHostIP,
+    totalHosts: subnet.totalHosts
+  };
+}
+
+// Builds only the requested slice so very large splits stay cheap to browse
+export function getSplitSubnets(
+  networkAddress: string,
+  parentBits: number,
+  targetBits: number,
+  offset: number,
+  limit: number
+): SplitSubnet[] {
+  const count = getSplitCount(parentBits, targetBits);
+  const end = Math.min(offset + limit, count);
+  const subnets: SplitSubnet[] = [];
+
+  for (let index = Math.max(offset, 0); index < end; index++) {
+    const subnet = getSplitSubnet(networkAddress, parentBits, targetBits, index);
+    if (subnet) subnets.push(subnet);
+  }
+
+  return subnets;
+}
+
+export function findSplitIndex(
+  networkAddress: string,
+  parentBits: number,
+  targetBits: number,
+  ip: string
+): number | null {
+  if (!isValidIPAddress(ip)) return null;
+
+  const offset = ipToNumber(ip) - ipToNumber(networkAddress);
+  if (offset < 0 || offset >= Math.pow(2, 32 - parentBits)) return null;
+
+  return Math.floor(offset / Math.pow(2, 32 - targetBits));
+}
@@ -1,3 +1,12 @@
+import { parseIPv4Strict, parseMaskStrict } from './addressParser';
+import { CLASSIC_POLICY, resolveReservations } from './addressPolicy';
+import type { AddressPolicy, AddressPolicyId } from './addressPolicy';
+
+export interface ReservedAddress {
+  address: string;
+  label: string;
+}
+
 export interface SubnetResults {
   networkAddress: string;
   broadcastAddress: string;
@@ -7,22 +16,21 @@ export interface SubnetResults {
   maskBits: number;
   ipClass: string;
   wildcardMask: string;
+  // firstHostIP, lastHostIP and totalHosts describe the usable addresses under
+  // `policy`; both host IPs are empty when nothing is usable
+  totalAddresses: number;
+  reservedAddresses: ReservedAddress[];
+  policy: AddressPolicyId;
 }
 
 export function isValidIPAddress(ip: string): boolean {
-  const parts = ip.split('.');
-  if (parts.length !== 4) return false;
-
-  return parts.every(part => {
-    const num = parseInt(part, 10);
-    return !isNaN(num) && num >= 0 && num <= 255;
-  });
+  return parseIPv4Strict(ip).ok;
 }
 
 export function determineIPClass(ip: string): string {
   const firstOctet = parseInt(ip.split('.')[0], 10);
   
-  if (firstOctet >= 1 && firstOctet <= 126) return 'A';
+  if (firstOctet >= 0 && firstOctet <= 127) return 'A';
   if (firstOctet >= 128 && firstOctet <= 191) return 'B';
   if (firstOctet >= 192 && firstOctet <= 223) return 'C';
   if (firstOctet >= 224 && firstOctet <= 239) return 'D';
@@ -31,22 +39,7 @@ export function determineIPClass(ip: string): string {
 }
 
 export function isValidSubnetMask(mask: string): boolean {
-  if (mask.startsWith('/')) {
-    const bits = parseInt(mask.substring(1), 10);
-    return !isNaN(bits) && bits >= 0 && bits <= 32;
-  }
-
-  const parts = mask.split('.');
-  if (parts.length !== 4) return false;
-
-  let binary = '';
-  for (const part of parts) {
-    const num = parseInt(part, 10);
-    if (isNaN(num) || num < 0 || num > 255) return false;
-    binary += num.toString(2).padStart(8, '0');
-  }
-
-  return /^1*0*$/.test(binary);
+  return parseMaskStrict(mask).ok;
 }
 
 export function convertMaskToCIDR(mask: string): number {
@@ -105,29 +98,39 @@ export function getAllHostAddresses(firstHost: string, lastHost: string): string
   return hosts;
 }
 
-export function calculateSubnet(ip: string, mask: string): SubnetResults | null {
+export function calculateSubnet(ip: string, mask: string, policy: AddressPolicy = CLASSIC_POLICY): SubnetResults | null {
   if (!isValidIPAddress(ip) || !isValidSubnetMask(mask)) {
     return null;
   }
 
-  const maskBits = convertMaskToCIDR(mask);
+  const maskBits = convertMaskToCIDR(mask.trim());
   const subnetMask = convertCIDRToMask(maskBits);
   const ipNum = ipToNumber(ip);
   const maskNum = ipToNumber(subnetMask);
   
-  const networkNum = ipNum & maskNum;
-  const broadcastNum = networkNum | (~maskNum >>> 0);
-  
-  const totalHosts = Math.pow(2, 32 - maskBits) - 2;
+  const networkNum = (ipNum & maskNum) >>> 0;
+  const broadcastNum = (networkNum | (~maskNum >>> 0)) >>> 0;
+  const totalAddresses = Math.pow(2, 32 - maskBits);
+
+  const reserved = resolveReservations(policy, totalAddresses);
+  const reservedOffsets = new Set(reserved.map(entry => entry.offset));
+  let firstOffset = 0;
+  while (reservedOffsets.has(firstOffset)) firstOffset++;
+  let lastOffset = totalAddresses - 1;
+  while (reservedOffsets.has(lastOffset)) lastOffset--;
+  const hasUsable = firstOffset <= lastOffset;
   
   return {
     networkAddress: numberToIP(networkNum),
     broadcastAddress: numberToIP(broadcastNum),
-    firstHostIP: numberToIP(networkNum + 1),
-    lastHostIP: numberToIP(broadcastNum - 1),
-    totalHosts: totalHosts > 0 ? totalHosts : 0,
+    firstHostIP: hasUsable ? numberToIP(networkNum + firstOffset) : '',
+    lastHostIP: hasUsable ? numberToIP(networkNum + lastOffset) : '',
+    totalHosts: totalAddresses - reserved.length,
     maskBits,
     ipClass: determineIPClass(ip),
-    wildcardMask: calculateWildcardMask(subnetMask)
+    wildcardMask: calculateWildcardMask(subnetMask),
+    totalAddresses,
+    reservedAddresses: reserved.map(entry => ({ address: numberToIP(networkNum + entry.offset), label: entry.label })),
+    policy: policy.id
   };
-}
\ No newline at end of file
+}
@@ -0,0 +1,94 @@
+import {
+  addressBits,
+  blockSize,
+  blockToRange,
+  compareBlocks,
+  makeBlock,
+  mergeRanges,
+  parseCIDR,
+  rangeSize,
+  rangeToBlocks
+} from './cidr';
+import type { CIDRBlock, IPVersion } from './cidr';
+
+export interface ParsedPrefixList {
+  blocks: CIDRBlock[];
+  errors: string[];
+}
+
+export interface CoveringSupernet {
+  version: IPVersion;
+  supernet: CIDRBlock;
+  coveredAddresses: bigint;
+  extraAddresses: bigint;
+}
+
+export interface SummaryResults {
+  aggregates: CIDRBlock[];
+  supernets: CoveringSupernet[];
+}
+
+// Entries may be separated by newlines, commas, semicolons or spaces
+export function parsePrefixList(text: string): ParsedPrefixList {
+  const blocks: CIDRBlock[] = [];
+  const errors: string[] = [];
+
+  text.split(/[\s,;]+/).forEach(entry => {
+    if (!entry) return;
+    const block = parseCIDR(entry);
+    if (block) {
+      blocks.push(block);
+    } else {
+      errors.push(`"${entry}" is not a valid IPv4 or IPv6 CIDR`);
+    }
+  });
+
+  return { blocks, errors };
+}
+
+// Exact aggregation: merge the prefixes into contiguous ranges, then cut each
+// range back into the fewest aligned CIDR blocks
+export function aggregatePrefixes(blocks: CIDRBlock[]): CIDRBlock[] {
+  return mergeRanges(blocks.map(blockToRange))
+    .flatMap(rangeToBlocks)
+    .sort(compareBlocks);
+}
+
+export function commonPrefixLength(version: IPVersion, a: bigint, b: bigint): number {
+  const bits = addressBits(version);
+  let diff = a ^ b;
+  let length = bits;
+  while (diff > 0n) {
+    diff >>= 1n;
+    length--;
+  }
+  return length;
+}
+
+export function findCoveringSupernet(blocks: CIDRBlock[], version: IPVersion): CoveringSupernet | null {
+  const ranges = mergeRanges(blocks.filter(block => block.version === version).map(blockToRange));
+  if (ranges.length === 0) return null;
+
+  const start = ranges[0].start;
+  const end = ranges[ranges.length - 1].end;
+  const supernet = makeBlock(version, start, commonPrefixLength(version, start, end));
+  const coveredAddresses = ranges.reduce((sum, range) => sum + rangeSize(range), 0n);
+
+  return {
+    version,
+    supernet,
+    coveredAddresses,
+    extraAddresses: blockSize(supernet) - coveredAddresses
+  };
+}
+
+export function summarizePrefixes(blocks: CIDRBlock[]): SummaryResults {
+  const supernets = ([4, 6] as IPVersion[])
+    .map(version => findCoveringSupernet(blocks, version))
+    .filter((supernet): supernet is CoveringSupernet => supernet !== null);
+
+  return {
+    aggregates: aggregatePrefixes(blocks),
+    supernets
+  };
+}
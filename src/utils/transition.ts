@@ -0,0 +1,218 @@
+import { ipToNumber, isValidIPAddress, numberToIP } from './subnet';
+import { containsIPv6, formatIPv6, hostMask, parseIPv6 } from './ipv6';
+import { classifyIPv4 } from './specialPurpose';
+import { formatInterfaceId } from './eui64';
+
+export type TransitionMechanism = 'ipv4-mapped' | 'ipv4-compatible' | '6to4' | 'nat64' | 'teredo';
+
+// RFC 6052 section 2.2: the only prefix lengths an IPv4 address can be
+// embedded after
+export const NAT64_PREFIX_LENGTHS = [32, 40, 48, 56, 64, 96] as const;
+export type Nat64PrefixLength = typeof NAT64_PREFIX_LENGTHS[number];
+
+export interface Nat64Prefix {
+  value: bigint;
+  length: Nat64PrefixLength;
+}
+
+export interface TransitionForm {
+  mechanism: TransitionMechanism;
+  name: string;
+  rfc: string;
+  address: string;
+  note?: string;
+}
+
+export interface EmbeddedIPv4 {
+  mechanism: TransitionMechanism;
+  name: string;
+  rfc: string;
+  ipv4: string;
+  // Mechanism-specific fields such as the 6to4 subnet ID or Teredo server
+  fields: [string, string][];
+}
+
+export const WELL_KNOWN_NAT64_PREFIX: Nat64Prefix = { value: 0x0064ff9bn << 96n, length: 96 };
+// RFC 8215 local-use prefix, which operators subdivide further
+export const LOCAL_USE_NAT64_PREFIX: Nat64Prefix = { value: 0x0064ff9b0001n << 80n, length: 48 };
+
+const MAPPED_PREFIX = 0xffffn << 32n;
+const SIX_TO_FOUR_PREFIX = 0x2002n << 112n;
+const TEREDO_PREFIX = 0x20010000n << 96n;
+const IPV4_MASK = 0xffffffffn;
+// Bits 64-71 of an RFC 6052 address (the "u" octet) must be zero
+const U_OCTET_SHIFT = 56n;
+
+// IPv4 bit i (0 = most significant) lands at IPv6 bit prefixLength + i,
+// stepping over the u octet
+function embeddedShift(length: Nat64PrefixLength, index: number): bigint {
+  let position = length + index;
+  if (length < 96 && position >= 64) position += 8;
+  return BigInt(127 - position);
+}
+
+export function embedIPv4(prefix: Nat64Prefix, ipv4: number): bigint {
+  let value = prefix.value & ~hostMask(prefix.length);
+  for (let i = 0; i < 32; i++) {
+    if ((ipv4 >>> (31 - i)) & 1) value |= 1n << embeddedShift(prefix.length, i);
+  }
+  return value;
+}
+
+export function extractIPv4(address: bigint, length: Nat64PrefixLength): number {
+  let ipv4 = 0;
+  for (let i = 0; i < 32; i++) {
+    ipv4 = ipv4 * 2 + Number((address >> embeddedShift(length, i)) & 1n);
+  }
+  return ipv4;
+}
+
+// Mixed notation (RFC 5952 section 5) for addresses that carry an IPv4
+// address in their last 32 bits. The low groups are formatted as non-zero
+// placeholders so "::" compression only ever applies to the leading groups.
+export function formatMixed(value: bigint): string {
+  const placeholder = formatIPv6(((value >> 32n) << 32n) | 0x00010001n);
+  return `${placeholder.slice(0, -'1:1'.length)}${numberToIP(Number(value & IPV4_MASK))}`;
+}
+
+function isNat64Length(length: number): length is Nat64PrefixLength {
+  return NAT64_PREFIX_LENGTHS.some(candidate => candidate === length);
+}
+
+export function formatNat64Prefix(prefix: Nat64Prefix): string {
+  return `${formatIPv6(prefix.value)}/${prefix.length}`;
+}
+
+export function parseNat64Prefix(text: string): { prefix: Nat64Prefix | null; error: string | null } {
+  const [addressPart, lengthPart, ...rest] = text.trim().split('/');
+  const value = parseIPv6(addressPart ?? '');
+  if (value === null || rest.length > 0) {
+    return { prefix: null, error: 'Enter a NAT64 prefix such as 64:ff9b::/96' };
+  }
+
+  const length = Number(lengthPart);
+  if (!lengthPart || !isNat64Length(length)) {
+    return { prefix: null, error: `Prefix length must be one of /${NAT64_PREFIX_LENGTHS.join(', /')} (RFC 6052)` };
+  }
+  if ((value & hostMask(length)) !== 0n) {
+    return { prefix: null, error: `${text.trim()} has bits set beyond /${length}` };
+  }
+  return { prefix: { value, length }, error: null };
+}
+
+// RFC 6052 section 3.1: the well-known prefix must not be used to represent
+// non-global IPv4 addresses
+export function checkNat64Embedding(prefix: Nat64Prefix, ipv4: string): string | null {
+  if (prefix.value !== WELL_KNOWN_NAT64_PREFIX.value || prefix.length !== WELL_KNOWN_NAT64_PREFIX.length) return null;
+  const classification = classifyIPv4(ipv4);
+  if (!classification || classification.globallyReachable) return null;
+  const name = classification.categories[0]?.name ?? 'non-global';
+  return `${ipv4} is ${name} space; the well-known prefix 64:ff9b::/96 must only carry global IPv4 addresses (RFC 6052 section 3.1)`;
+}
+
+export function ipv4TransitionForms(ipv4: string, nat64: Nat64Prefix): TransitionForm[] {
+  if (!isValidIPAddress(ipv4)) return [];
+  const value = BigInt(ipToNumber(ipv4));
+  const nat64Address = embedIPv4(nat64, Number(value));
+
+  return [
+    {
+      mechanism: 'ipv4-mapped',
+      name: 'IPv4-Mapped',
+      rfc: 'RFC 4291',
+      address: formatMixed(MAPPED_PREFIX | value),
+      note: 'Used inside dual-stack hosts; never seen on the wire'
+    },
+    {
+      mechanism: 'ipv4-compatible',
+      name: 'IPv4-Compatible',
+      rfc: 'RFC 4291',
+      address: formatMixed(value),
+      note: 'Deprecated; shown for decoding old configurations'
+    },
+    {
+      mechanism: '6to4',
+      name: '6to4 Prefix',
+      rfc: 'RFC 3056',
+      address: `${formatIPv6(SIX_TO_FOUR_PREFIX | (value << 80n))}/48`
+    },
+    {
+      mechanism: 'nat64',
+      name: `NAT64 (${formatNat64Prefix(nat64)})`,
+      rfc: 'RFC 6052',
+      address: nat64.length === 96 ? formatMixed(nat64Address) : formatIPv6(nat64Address),
+      note: checkNat64Embedding(nat64, ipv4) ?? undefined
+    }
+  ];
+}
+
+function hex(value: bigint, bits = 16): string {
+  return `0x${value.toString(16).padStart(Math.ceil(bits / 4), '0')}`;
+}
+
+// RFC 4380 section 4: server IPv4, flags, then the client's port and public
+// IPv4 address, both inverted
+function decodeTeredo(address: bigint): EmbeddedIPv4 {
+  const server = Number((address >> 64n) & IPV4_MASK);
+  const flags = (address >> 48n) & 0xffffn;
+  const port = Number(((address >> 32n) & 0xffffn) ^ 0xffffn);
+  const client = Number((address & IPV4_MASK) ^ IPV4_MASK);
+  return {
+    mechanism: 'teredo',
+    name: 'Teredo',
+    rfc: 'RFC 4380',
+    ipv4: numberToIP(client),
+    fields: [
+      ['Teredo Server', numberToIP(server)],
+      ['Client Public Address', numberToIP(client)],
+      ['Client Public Port', port.toString()],
+      ['Flags', hex(flags)],
+      ['Cone NAT', (flags & 0x8000n) !== 0n ? 'Yes' : 'No']
+    ]
+  };
+}
+
+// Every transition format the address matches. The NAT64 prefixes are tried
+// in order, so a custom prefix can be listed alongside the standard ones.
+export function decodeTransitionAddress(address: bigint, nat64Prefixes: Nat64Prefix[] = []): EmbeddedIPv4[] {
+  const found: EmbeddedIPv4[] = [];
+  const low32 = Number(address & IPV4_MASK);
+
+  if (address >> 32n === 0xffffn) {
+    found.push({ mechanism: 'ipv4-mapped', name: 'IPv4-Mapped', rfc: 'RFC 4291', ipv4: numberToIP(low32), fields: [] });
+  }
+  // :: and ::1 sit inside ::/96 but are not IPv4-compatible addresses
+  if (address >> 32n === 0n && address > 1n) {
+    found.push({ mechanism: 'ipv4-compatible', name: 'IPv4-Compatible', rfc: 'RFC 4291', ipv4: numberToIP(low32), fields: [] });
+  }
+  if (containsIPv6(SIX_TO_FOUR_PREFIX, 16, address)) {
+    found.push({
+      mechanism: '6to4',
+      name: '6to4',
+      rfc: 'RFC 3056',
+      ipv4: numberToIP(Number((address >> 80n) & IPV4_MASK)),
+      fields: [
+        ['6to4 Prefix', `${formatIPv6(address & ~hostMask(48))}/48`],
+        ['Subnet ID', hex((address >> 64n) & 0xffffn)],
+        ['Interface ID', formatInterfaceId(address & hostMask(64))]
+      ]
+    });
+  }
+  if (containsIPv6(TEREDO_PREFIX, 32, address)) {
+    found.push(decodeTeredo(address));
+  }
+  for (const prefix of nat64Prefixes) {
+    if (!containsIPv6(prefix.value, prefix.length, address)) continue;
+    if (prefix.length < 96 && ((address >> U_OCTET_SHIFT) & 0xffn) !== 0n) continue;
+    // Whatever follows the u octet and the 32 IPv4 bits
+    const suffixBits = 128 - (prefix.length + 40);
+    found.push({
+      mechanism: 'nat64',
+      name: `NAT64 (${formatNat64Prefix(prefix)})`,
+      rfc: 'RFC 6052',
+      ipv4: numberToIP(extractIPv4(address, prefix.length)),
+      fields: prefix.length < 96 ? [['Suffix', hex(address & ((1n << BigInt(suffixBits)) - 1n), suffixBits)]] : []
+    });
+  }
+  return found;
+}
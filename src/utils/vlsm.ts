@@ -0,0 +1,175 @@
+import {
+  calculateSubnet,
+  convertCIDRToMask,
+  ipToNumber,
+  numberToIP
+} from './subnet';
+import type { SubnetResults } from './subnet';
+
+export interface HostRequirement {
+  name: string;
+  hosts: number;
+}
+
+export interface VLSMAllocation {
+  name: string;
+  requiredHosts: number;
+  networkAddress: string;
+  broadcastAddress: string;
+  subnetMask: string;
+  maskBits: number;
+  firstHostIP: string;
+  lastHostIP: string;
+  usableHosts: number;
+  wastedAddresses: number;
+}
+
+export interface VLSMFreeBlock {
+  networkAddress: string;
+  lastAddress: string;
+  maskBits: number;
+  size: number;
+}
+
+export interface VLSMResults {
+  parent: SubnetResults;
+  allocations: VLSMAllocation[];
+  freeBlocks: VLSMFreeBlock[];
+  unallocated: HostRequirement[];
+}
+
+export interface ParsedRequirements {
+  requirements: HostRequirement[];
+  errors: string[];
+}
+
+interface Block {
+  start: number;
+  maskBits: number;
+}
+
+function blockSize(maskBits: number): number {
+  return Math.pow(2, 32 - maskBits);
+}
+
+// Returns the longest prefix whose usable host count can hold `hosts`,
+// or null if even a /0 is too small
+export function prefixForHosts(hosts: number): number | null {
+  if (!Number.isInteger(hosts) || hosts < 1) return null;
+
+  for (let maskBits = 30; maskBits >= 0; maskBits--) {
+    if (blockSize(maskBits) - 2 >= hosts) return maskBits;
+  }
+  return null;
+}
+
+// Accepts one requirement per line, e.g. "users: 300" or "p2p links: 4 x 2"
+export function parseHostRequirements(text: string): ParsedRequirements {
+  const requirements: HostRequirement[] = [];
+  const errors: string[] = [];
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (!line) return;
+
+    const match = line.match(/^(.+?)\s*[:=]\s*(?:(\d+)\s*[x×*]\s*)?(\d+)$/i);
+    if (!match) {
+      errors.push(`Line ${index + 1}: expected "name: hosts" or "name: count x hosts"`);
+      return;
+    }
+
+    const name = match[1].trim();
+    const count = match[2] ? parseInt(match[2], 10) : 1;
+    const hosts = parseInt(match[3], 10);
+
+    if (count < 1 || hosts < 1) {
+      errors.push(`Line ${index + 1}: counts must be at least 1`);
+      return;
+    }
+
+    if (count === 1) {
+      requirements.push({ name, hosts });
+    } else {
+      for (let i = 1; i <= count; i++) {
+        requirements.push({ name: `${name} ${i}`, hosts });
+      }
+    }
+  });
+
+  return { requirements, errors };
+}
+
+// Buddy-style allocation: carve the lowest free block that is large enough,
+// handing the unused halves back to the free list.
+function allocateBlock(freeList: Block[], maskBits: number): Block | null {
+  const index = freeList.findIndex(block => block.maskBits <= maskBits);
+  if (index === -1) return null;
+
+  const [block] = freeList.splice(index, 1);
+  const remainders: Block[] = [];
+  for (let bits = block.maskBits + 1; bits <= maskBits; bits++) {
+    remainders.push({ start: block.start + blockSize(bits), maskBits: bits });
+  }
+
+  freeList.push(...remainders);
+  freeList.sort((a, b) => a.start - b.start);
+
+  return { start: block.start, maskBits };
+}
+
+export function planVLSM(
+  parentIp: string,
+  parentMask: string,
+  requirements: HostRequirement[]
+): VLSMResults | null {
+  const parent = calculateSubnet(parentIp, parentMask);
+  if (!parent) return null;
+
+  const freeList: Block[] = [{ start: ipToNumber(parent.networkAddress), maskBits: parent.maskBits }];
+  const allocations: VLSMAllocation[] = [];
+  const unallocated: HostRequirement[] = [];
+
+  const ordered = requirements
+    .map((requirement, index) => ({ requirement, index }))
+    .sort((a, b) => b.requirement.hosts - a.requirement.hosts || a.index - b.index)
+    .map(({ requirement }) => requirement);
+
+  for (const requirement of ordered) {
+    const maskBits = prefixForHosts(requirement.hosts);
+    const block = maskBits === null ? null : allocateBlock(freeList, maskBits);
+    if (!block) {
+      unallocated.push(requirement);
+      continue;
+    }
+
+    const subnet = calculateSubnet(numberToIP(block.start), `/${block.maskBits}`);
+    if (!subnet) {
+      unallocated.push(requirement);
+      continue;
+    }
+
+    allocations.push({
+      name: requirement.name,
+      requiredHosts: requirement.hosts,
+      networkAddress: subnet.networkAddress,
+      broadcastAddress: subnet.broadcastAddress,
+      subnetMask: convertCIDRToMask(subnet.maskBits),
+      maskBits: subnet.maskBits,
+      firstHostIP: subnet.firstHostIP,
+      lastHostIP: subnet.lastHostIP,
+      usableHosts: subnet.totalHosts,
+      wastedAddresses: subnet.totalHosts - requirement.hosts
+    });
+  }
+
+  allocations.sort((a, b) => ipToNumber(a.networkAddress) - ipToNumber(b.networkAddress));
+
+  const freeBlocks = freeList.map(block => ({
+    networkAddress: numberToIP(block.start),
+    lastAddress: numberToIP(block.start + blockSize(block.maskBits) - 1),
+    maskBits: block.maskBits,
+    size: blockSize(block.maskBits)
+  }));
+
+  return { parent, allocations, freeBlocks, unallocated };
+}
@@ -0,0 +1,261 @@
+import { numberToIP } from './subnet';
+import { parseIPv4Strict } from './addressParser';
+import { blockToRange, mergeRanges, rangeToBlocks } from './cidr';
+import type { AddressRange, CIDRBlock } from './cidr';
+import { parsePrefixList } from './summarize';
+
+// An ACL entry: addresses whose non-wildcard bits equal those of `address`.
+// `address` is kept with its wildcard bits cleared so equal entries compare
+// equal. Wildcard bits need not be contiguous.
+export interface WildcardEntry {
+  address: number;
+  wildcard: number;
+}
+
+export type AclAction = 'permit' | 'deny';
+export type AclStyle = 'standard' | 'extended';
+
+export interface WildcardCover {
+  entries: WildcardEntry[];
+  // The CIDR blocks the cover was built from, for comparison
+  blockCount: number;
+  // True when the input, the merged terms or the search exceeded their
+  // limits, so the result may not be minimal
+  truncated: boolean;
+}
+
+// Upper bound on merged terms kept while minimizing, so a long list of
+// scattered subnets cannot stall the page
+const MAX_TERMS = 8192;
+
+// Work allowed for the exact search over prime terms, counted in cubes
+// visited; past it the best cover found so far is returned
+const SEARCH_BUDGET = 5000000;
+
+export function normalizeEntry(address: number, wildcard: number): WildcardEntry {
+  return { address: (address & ~wildcard) >>> 0, wildcard: wildcard >>> 0 };
+}
+
+export function parseWildcardEntry(addressText: string, wildcardText: string): { entry: WildcardEntry | null; errors: string[] } {
+  const address = parseIPv4Strict(addressText);
+  const wildcard = parseIPv4Strict(wildcardText);
+  const errors: string[] = [];
+  if (!address.ok) errors.push(`Invalid address: ${address.error.message}`);
+  if (!wildcard.ok) errors.push(`Invalid wildcard: ${wildcard.error.message}`);
+  if (!address.ok || !wildcard.ok) return { entry: null, errors };
+  return { entry: normalizeEntry(address.value, wildcard.value), errors };
+}
+
+export function matchesWildcard(entry: WildcardEntry, address: number): boolean {
+  return ((address & ~entry.wildcard) >>> 0) === entry.address;
+}
+
+function bitCount(value: number): number {
+  let count = 0;
+  for (let rest = value >>> 0; rest !== 0; rest >>>= 1) count += rest & 1;
+  return count;
+}
+
+export function matchCount(entry: WildcardEntry): number {
+  return 2 ** bitCount(entry.wildcard);
+}
+
+// A contiguous wildcard is an inverted subnet mask; returns its prefix length
+export function contiguousPrefix(entry: WildcardEntry): number | null {
+  const wildcard = entry.wildcard;
+  return ((wildcard + 1) & wildcard) === 0 ? 32 - bitCount(wildcard) : null;
+}
+
+// The index-th match in ascending order: the bits of `index` are spread over
+// the wildcard positions from least to most significant
+export function nthMatch(entry: WildcardEntry, index: number): number {
+  let result = entry.address;
+  let rest = index;
+  for (let bit = 0; bit < 32 && rest > 0; bit++) {
+    const mask = 2 ** bit;
+    if ((entry.wildcard & mask) === 0) continue;
+    if (rest % 2 === 1) result = (result | mask) >>> 0;
+    rest = Math.floor(rest / 2);
+  }
+  return result;
+}
+
+export function listMatches(entry: WildcardEntry, offset: number, limit: number): string[] {
+  const end = Math.min(matchCount(entry), offset + limit);
+  const matches: string[] = [];
+  for (let index = offset; index < end; index++) {
+    matches.push(numberToIP(nthMatch(entry, index)));
+  }
+  return matches;
+}
+
+function entryKey(entry: WildcardEntry): string {
+  return `${entry.address}/${entry.wildcard}`;
+}
+
+function covers(outer: WildcardEntry, inner: WildcardEntry): boolean {
+  return (inner.wildcard & ~outer.wildcard) === 0 && matchesWildcard(outer, inner.address);
+}
+
+// Cuts the blocks into equal cubes the size of the smallest block. Merging
+// only pairs entries with the same wildcard, so a /24 next to /25s would
+// otherwise never combine with them. Returns null when there would be more
+// than MAX_TERMS cubes.
+function equalCubes(blocks: CIDRBlock[]): WildcardEntry[] | null {
+  const longest = Math.max(...blocks.map(block => block.prefixLength));
+  const count = blocks.reduce((sum, block) => sum + 2 ** (longest - block.prefixLength), 0);
+  if (count > MAX_TERMS) return null;
+
+  const size = 2 ** (32 - longest);
+  return blocks.flatMap(block => Array.from(
+    { length: 2 ** (longest - block.prefixLength) },
+    (_, index) => normalizeEntry(Number(block.start) + index * size, size - 1)
+  ));
+}
+
+// Quine-McCluskey over the input cut into equal-sized cubes: two entries with
+// the same wildcard that differ in exactly one fixed bit merge into one entry
+// with that bit wildcarded. Entries that never merge are the prime terms;
+// essential terms are taken first and the rest of the cubes are covered
+// by a bounded exact search. When the input is too fragmented to cut up, or
+// the search runs out of budget, the result is flagged as truncated.
+export function minimalWildcardCover(ranges: AddressRange[]): WildcardCover {
+  const blocks = mergeRanges(ranges.filter(range => range.version === 4)).flatMap(rangeToBlocks);
+  const split = blocks.length > 0 ? equalCubes(blocks) : [];
+  const cubes = split ?? blocks.map(block => normalizeEntry(Number(block.start), 2 ** (32 - block.prefixLength) - 1));
+
+  const pool = new Map<string, WildcardEntry>(cubes.map(cube => [entryKey(cube), cube]));
+  const merged = new Set<string>();
+  const queue = [...cubes];
+  let truncated = split === null;
+
+  while (queue.length > 0) {
+    const term = queue.shift()!;
+    for (let bit = 0; bit < 32; bit++) {
+      const mask = 2 ** bit;
+      if (term.wildcard & mask) continue;
+      const partner = pool.get(entryKey({ address: (term.address ^ mask) >>> 0, wildcard: term.wildcard }));
+      if (!partner) continue;
+
+      const combined = normalizeEntry(term.address, term.wildcard | mask);
+      const key = entryKey(combined);
+      if (!pool.has(key)) {
+        // Both halves stay prime when their union cannot be kept, so every
+        // cube is still covered by some prime
+        if (pool.size >= MAX_TERMS) {
+          truncated = true;
+          continue;
+        }
+        pool.set(key, combined);
+        queue.push(combined);
+      }
+      merged.add(entryKey(term));
+      merged.add(entryKey(partner));
+    }
+  }
+
+  const primes = [...pool.values()].filter(term => !merged.has(entryKey(term)));
+  const coverage = primes.map(prime => cubes.flatMap((cube, index) => (covers(prime, cube) ? [index] : [])));
+  const coveredBy: number[][] = cubes.map(() => []);
+  coverage.forEach((indexes, primeIndex) => indexes.forEach(index => coveredBy[index].push(primeIndex)));
+
+  const essential = new Set(coveredBy.flatMap(candidates => (candidates.length === 1 ? candidates : [])));
+  const hits = cubes.map(() => 0);
+  const pick = (primeIndex: number, delta: number) => coverage[primeIndex].forEach(index => { hits[index] += delta; });
+  essential.forEach(primeIndex => pick(primeIndex, 1));
+
+  // Greedy pass: the prime covering the most uncovered cubes, preferring
+  // wider entries on ties. Its size bounds the exact search below.
+  const greedy: number[] = [];
+  const greedyHits = [...hits];
+  while (greedyHits.some(count => count === 0)) {
+    let best = -1;
+    let bestGain = 0;
+    coverage.forEach((indexes, primeIndex) => {
+      const gain = indexes.filter(index => greedyHits[index] === 0).length;
+      if (gain > bestGain || (gain === bestGain && gain > 0 && bitCount(primes[primeIndex].wildcard) > bitCount(primes[best].wildcard))) {
+        best = primeIndex;
+        bestGain = gain;
+      }
+    });
+    greedy.push(best);
+    coverage[best].forEach(index => { greedyHits[index]++; });
+  }
+
+  // Branch and bound: take the uncovered cube with the fewest candidate
+  // primes and try each of them, abandoning branches that cannot beat the
+  // best cover found so far
+  let best = greedy;
+  let budget = SEARCH_BUDGET;
+  const picked: number[] = [];
+  const search = () => {
+    budget -= cubes.length;
+    if (budget < 0) return;
+    let target = -1;
+    hits.forEach((count, index) => {
+      if (count === 0 && (target === -1 || coveredBy[index].length < coveredBy[target].length)) target = index;
+    });
+    if (target === -1) {
+      best = [...picked];
+      return;
+    }
+    if (picked.length + 1 >= best.length) return;
+    for (const primeIndex of coveredBy[target]) {
+      pick(primeIndex, 1);
+      picked.push(primeIndex);
+      search();
+      picked.pop();
+      pick(primeIndex, -1);
+    }
+  };
+  if (greedy.length > 1) search();
+  if (budget < 0) truncated = true;
+
+  const chosen = new Set([...essential, ...best]);
+  const entries = [...chosen].map(index => primes[index]).sort((a, b) => a.address - b.address || a.wildcard - b.wildcard);
+  return { entries, blockCount: blocks.length, truncated };
+}
+
+// Input for the cover: a start-end range, or subnets separated by newlines,
+// commas or spaces
+export function parseCoverInput(text: string): { ranges: AddressRange[]; errors: string[] } {
+  const rangeMatch = text.trim().match(/^(\S+)\s*-\s*(\S+)$/);
+  if (rangeMatch) {
+    const start = parseIPv4Strict(rangeMatch[1]);
+    const end = parseIPv4Strict(rangeMatch[2]);
+    if (!start.ok || !end.ok) return { ranges: [], errors: [`"${text.trim()}" is not a valid IPv4 range`] };
+    if (start.value > end.value) return { ranges: [], errors: ['Range start must not be greater than its end'] };
+    return { ranges: [{ version: 4, start: BigInt(start.value), end: BigInt(end.value) }], errors: [] };
+  }
+
+  const { blocks, errors } = parsePrefixList(text);
+  const ipv6 = blocks.filter(block => block.version === 6);
+  if (ipv6.length > 0) {
+    errors.push('Wildcard masks are IPv4 only; IPv6 ACLs match on prefix length');
+  }
+  return { ranges: blocks.filter(block => block.version === 4).map(blockToRange), errors };
+}
+
+function aclOperand(entry: WildcardEntry): string {
+  if (entry.wildcard === 0xffffffff) return 'any';
+  if (entry.wildcard === 0) return `host ${numberToIP(entry.address)}`;
+  return `${numberToIP(entry.address)} ${numberToIP(entry.wildcard)}`;
+}
+
+// Cisco IOS syntax; with a name the entries are wrapped in a named ACL
+export function renderAclLines(entries: WildcardEntry[], action: AclAction, style: AclStyle, name = ''): string {
+  const lines = entries.map(entry => style === 'standard'
+    ? `${action} ${aclOperand(entry)}`
+    : `${action} ip ${aclOperand(entry)} any`);
+  if (!name.trim()) return lines.join('\n');
+  return [`ip access-list ${style} ${name.trim()}`, ...lines.map(line => ` ${line}`)].join('\n');
+}
+
+export function formatWildcardEntry(entry: WildcardEntry): string {
+  return `${numberToIP(entry.address)} ${numberToIP(entry.wildcard)}`;
+}
+
+export function parseIPv4Value(text: string): number | null {
+  const result = parseIPv4Strict(text);
+  return result.ok ? result.value : null;
+}